@@ -0,0 +1,277 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+error MerkleDistributor__AlreadyClaimed();
+error MerkleDistributor__InsufficientFunding();
+error MerkleDistributor__InvalidAmount();
+error MerkleDistributor__InvalidCampaign();
+error MerkleDistributor__InvalidProof();
+error MerkleDistributor__NotClaimant();
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./Staking.sol";
+
+/**
+ * @title MerkleDistributor
+ * @author mirceap24
+ * @notice Pays one-off bonus campaigns in the staked token. Each campaign has the Merkle root of
+ * the (account, amount) pairs that can be claimed and its own funding, and the claimants can
+ * have their bonus staked in Staking instead of transferred.
+ * @dev The leaves are keccak256(bytes.concat(keccak256(abi.encode(account, amount)))), the tree
+ * and the proofs are built by scripts/lib/merkle.ts. Staking a claim goes through Staking.stakeFor,
+ * so the claimant must have approved the distributor as one of his operators. The approval also
+ * covers updateRewardFor, claimRewardFor and restakeFor, but the distributor never calls them, and
+ * the claimant can revoke it once his bonus is staked
+ */
+contract MerkleDistributor is AccessControl {
+    using SafeERC20 for IERC20;
+
+    bytes32 public constant CAMPAIGN_MANAGER_ROLE =
+        keccak256("CAMPAIGN_MANAGER_ROLE");
+
+    /**
+     * @notice Address of the Staking contract the claims can be staked in
+     */
+    Staking public immutable staking;
+
+    /**
+     * @notice Address of the token the bonuses are paid in, the staked token
+     */
+    IERC20 public immutable token;
+
+    /**
+     * @notice Struct to store a bonus campaign
+     * @param merkleRoot Root of the Merkle tree of the campaign's claims
+     * @param funded Amount of tokens funded for the campaign
+     * @param claimed Amount of tokens claimed from the campaign
+     * @param closed Flag indicating if the campaign has been closed, its claims are then rejected
+     */
+    struct Campaign {
+        bytes32 merkleRoot;
+        uint256 funded;
+        uint256 claimed;
+        bool closed;
+    }
+
+    /**
+     * @notice Bonus campaigns, the campaign id is the index
+     */
+    Campaign[] private campaigns;
+
+    /**
+     * @notice Accounts that have claimed their bonus, by campaign id and account
+     */
+    mapping(uint256 => mapping(address => bool)) private claimedBy;
+
+    /**
+     * @notice Emitted when a campaign is created
+     * @param campaignId Id of the campaign
+     * @param merkleRoot Root of the Merkle tree of the campaign's claims
+     */
+    event CampaignCreated(uint256 indexed campaignId, bytes32 merkleRoot);
+
+    /**
+     * @notice Emitted when tokens are added to a campaign's funding
+     * @param campaignId Id of the campaign
+     * @param funder The address that funded the campaign
+     * @param amount Amount of tokens added
+     */
+    event CampaignFunded(
+        uint256 indexed campaignId,
+        address indexed funder,
+        uint256 amount
+    );
+
+    /**
+     * @notice Emitted when a campaign is closed
+     * @param campaignId Id of the campaign
+     * @param recipient The address the unclaimed tokens were returned to
+     * @param amountReturned Amount of unclaimed tokens returned
+     */
+    event CampaignClosed(
+        uint256 indexed campaignId,
+        address indexed recipient,
+        uint256 amountReturned
+    );
+
+    /**
+     * @notice Emitted when an account's bonus is claimed, along with Staked when it is staked
+     * @param campaignId Id of the campaign
+     * @param account The account the bonus belongs to
+     * @param amount Amount of tokens claimed
+     * @param staked True if the bonus was staked for the account, false if transferred to him
+     */
+    event Claimed(
+        uint256 indexed campaignId,
+        address indexed account,
+        uint256 amount,
+        bool staked
+    );
+
+    /**
+     * @notice Creates a new MerkleDistributor contract
+     * @param _staking Address of the Staking contract, the bonuses are paid in its staked token
+     */
+    constructor(Staking _staking) {
+        staking = _staking;
+        token = IERC20(address(_staking.stakedToken()));
+        token.safeApprove(address(_staking), type(uint256).max);
+
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(CAMPAIGN_MANAGER_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Creates a campaign, which can be claimed once it is funded
+     * @param _merkleRoot Root of the Merkle tree of the campaign's claims
+     * @return campaignId Id of the new campaign
+     */
+    function createCampaign(
+        bytes32 _merkleRoot
+    ) external onlyRole(CAMPAIGN_MANAGER_ROLE) returns (uint256 campaignId) {
+        campaignId = campaigns.length;
+        campaigns.push(Campaign(_merkleRoot, 0, 0, false));
+        emit CampaignCreated(campaignId, _merkleRoot);
+    }
+
+    /**
+     * @notice Adds the caller's tokens to a campaign's funding, anyone can fund a campaign
+     * @param _campaignId Id of the campaign
+     * @param _amount Amount of tokens added
+     */
+    function fundCampaign(uint256 _campaignId, uint256 _amount) external {
+        Campaign storage campaign = _openCampaign(_campaignId);
+
+        // CHECKS
+        if (_amount == 0) {
+            revert MerkleDistributor__InvalidAmount();
+        }
+
+        // EFFECTS
+        campaign.funded += _amount;
+
+        // INTERACTIONS
+        token.safeTransferFrom(msg.sender, address(this), _amount);
+        emit CampaignFunded(_campaignId, msg.sender, _amount);
+    }
+
+    /**
+     * @notice Claims an account's bonus, anyone can claim it for the account but only
+     * the account itself can have it staked
+     * @dev Staking restarts the account's lock period, like stake
+     * @param _campaignId Id of the campaign
+     * @param _account The account the bonus belongs to
+     * @param _amount Amount of tokens of the account's leaf
+     * @param _proof Merkle proof of the account's leaf
+     * @param _stake True to stake the bonus for the account instead of transferring it
+     */
+    function claim(
+        uint256 _campaignId,
+        address _account,
+        uint256 _amount,
+        bytes32[] calldata _proof,
+        bool _stake
+    ) external {
+        Campaign storage campaign = _openCampaign(_campaignId);
+
+        // CHECKS
+        if (claimedBy[_campaignId][_account]) {
+            revert MerkleDistributor__AlreadyClaimed();
+        }
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(_account, _amount)))
+        );
+        if (!MerkleProof.verifyCalldata(_proof, campaign.merkleRoot, leaf)) {
+            revert MerkleDistributor__InvalidProof();
+        }
+        if (campaign.claimed + _amount > campaign.funded) {
+            revert MerkleDistributor__InsufficientFunding();
+        }
+        if (_stake && msg.sender != _account) {
+            revert MerkleDistributor__NotClaimant();
+        }
+
+        // EFFECTS
+        claimedBy[_campaignId][_account] = true;
+        campaign.claimed += _amount;
+
+        // INTERACTIONS
+        if (_stake) {
+            staking.stakeFor(_account, _amount);
+        } else {
+            token.safeTransfer(_account, _amount);
+        }
+        emit Claimed(_campaignId, _account, _amount, _stake);
+    }
+
+    /**
+     * @notice Closes a campaign and returns its unclaimed tokens
+     * @param _campaignId Id of the campaign
+     * @param _recipient The address the unclaimed tokens are returned to
+     */
+    function closeCampaign(
+        uint256 _campaignId,
+        address _recipient
+    ) external onlyRole(CAMPAIGN_MANAGER_ROLE) {
+        Campaign storage campaign = _openCampaign(_campaignId);
+
+        // EFFECTS
+        campaign.closed = true;
+        uint256 amountReturned = campaign.funded - campaign.claimed;
+
+        // INTERACTIONS
+        token.safeTransfer(_recipient, amountReturned);
+        emit CampaignClosed(_campaignId, _recipient, amountReturned);
+    }
+
+    /**
+     * @notice Returns a campaign
+     * @param _campaignId Id of the campaign
+     * @return Campaign memory The campaign's information
+     */
+    function getCampaign(
+        uint256 _campaignId
+    ) external view returns (Campaign memory) {
+        if (_campaignId >= campaigns.length) {
+            revert MerkleDistributor__InvalidCampaign();
+        }
+        return campaigns[_campaignId];
+    }
+
+    /**
+     * @notice Returns the number of campaigns created
+     * @return uint256 The number of campaigns
+     */
+    function campaignCount() external view returns (uint256) {
+        return campaigns.length;
+    }
+
+    /**
+     * @notice Returns whether an account has claimed his bonus of a campaign
+     * @param _campaignId Id of the campaign
+     * @param _account Address of the account
+     * @return bool True if the bonus has been claimed
+     */
+    function isClaimed(
+        uint256 _campaignId,
+        address _account
+    ) external view returns (bool) {
+        return claimedBy[_campaignId][_account];
+    }
+
+    /**
+     * @notice Returns a campaign that exists and hasn't been closed
+     * @param _campaignId Id of the campaign
+     * @return campaign Campaign storage pointer to the campaign
+     */
+    function _openCampaign(
+        uint256 _campaignId
+    ) private view returns (Campaign storage campaign) {
+        if (_campaignId >= campaigns.length || campaigns[_campaignId].closed) {
+            revert MerkleDistributor__InvalidCampaign();
+        }
+        campaign = campaigns[_campaignId];
+    }
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+error StakeReceipt__NotStaking();
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import "./Staking.sol";
+
+/**
+ * @title StakeReceipt
+ * @author mirceap24
+ * @notice The liquid receipt of a Staking stake: every staker holds one receipt token per staked token.
+ * Transferring receipt tokens moves the same amount of stake to the recipient in Staking,
+ * along with its share of the accrued rewards and its lock.
+ * The receipts checkpoint the staked balances and their total, so the stakes can be used as
+ * voting power, for example by an OpenZeppelin Governor, see StakingGovernor
+ * @dev Deployed by Staking, which mints and burns the receipts as the stakes change.
+ * Only the stake that isn't locked in lock tier positions can be transferred, and a transfer that
+ * would extend the lock of the recipient's stake needs his consent, see Staking.setAcceptStakeTransfers.
+ * Like every ERC20Votes token, the votes only count once the staker has delegated them, to himself or to another account
+ */
+contract StakeReceipt is ERC20, ERC20Permit, ERC20Votes {
+    /**
+     * @notice Address of the Staking contract that issues the receipts
+     */
+    Staking public immutable staking;
+
+    modifier onlyStaking() {
+        if (msg.sender != address(staking)) {
+            revert StakeReceipt__NotStaking();
+        }
+        _;
+    }
+
+    /**
+     * @notice Creates a new StakeReceipt contract, the deployer is the Staking contract
+     * @param _name Name of the receipt token
+     * @param _symbol Symbol of the receipt token
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol
+    ) ERC20(_name, _symbol) ERC20Permit(_name) {
+        staking = Staking(msg.sender);
+    }
+
+    /**
+     * @notice Mints or burns the account's receipts so that they match his staked amount
+     * @param _account Address of the staker
+     * @param _amountStaked The staker's staked amount
+     */
+    function sync(
+        address _account,
+        uint256 _amountStaked
+    ) external onlyStaking {
+        uint256 balance = balanceOf(_account);
+        if (_amountStaked > balance) {
+            _mint(_account, _amountStaked - balance);
+        } else if (_amountStaked < balance) {
+            _burn(_account, balance - _amountStaked);
+        }
+    }
+
+    /**
+     * @notice Moves the stake of the transferred receipts in Staking, mints and burns don't move any stake
+     */
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal override(ERC20, ERC20Votes) {
+        super._afterTokenTransfer(from, to, amount);
+        if (from != address(0) && to != address(0) && amount > 0) {
+            staking.transferStake(from, to, amount);
+        }
+    }
+
+    function _mint(
+        address account,
+        uint256 amount
+    ) internal override(ERC20, ERC20Votes) {
+        super._mint(account, amount);
+    }
+
+    function _burn(
+        address account,
+        uint256 amount
+    ) internal override(ERC20, ERC20Votes) {
+        super._burn(account, amount);
+    }
+}
@@ -2,46 +2,166 @@
 pragma solidity ^0.8.13;
 
 error Staking__AddressZero();
+error Staking__AmountExceedsStake();
 error Staking__ClaimOncePerDay();
+error Staking__InsufficientRewardReserve();
 error Staking__InvalidAmount();
+error Staking__InvalidDuration();
+error Staking__InvalidMultiplier();
+error Staking__InvalidPosition();
+error Staking__InvalidRewardToken();
+error Staking__InvalidTier();
+error Staking__InvalidUnbondingRequest();
 error Staking__NotEnoughTokens();
+error Staking__NotOperator();
+error Staking__NotReceipt();
 error Staking__NoStakedAmount();
 error Staking__NoPendingRewards();
+error Staking__NothingToWithdraw();
+error Staking__PositionLocked();
 error Staking__RewardsNotUpdated();
 error Staking__RewardRateZero();
 error Staking__RestakeNotAllowed();
+error Staking__RestakeUnsupported();
+error Staking__TooManyRewardTokens();
+error Staking__TransferNotAccepted();
+error Staking__UnbondingRequired();
 error Staking__UnstakeNotAllowed();
 error Staking__UpdateNotEligible();
 error Staking__TransferFailed();
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./StakeReceipt.sol";
 
 /**
  * @title Staking
  * @author mirceap24
  * @notice A simple staking contract for ERC20 tokens. Allows users to stake tokens,
  * claim rewards, restake rewards, and unstake tokens after a given period of time.
+ * Rewards are paid in the reward token, and the admin can add extra reward tokens
+ * that are streamed to the stakers at their own rates.
+ * Supports ERC-2771 meta-transactions through a trusted forwarder, so that users
+ * without ETH can have their calls relayed.
+ * Stakes are liquid: stakers hold StakeReceipt tokens 1:1 with their staked amount,
+ * and transferring them moves the stake.
  */
-contract Staking {
+contract Staking is ERC2771Context, Pausable, AccessControl {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    bytes32 public constant RATE_MANAGER_ROLE = keccak256("RATE_MANAGER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
     /**
      * @notice Address of the staked ERC20 token
      */
     ERC20 public immutable stakedToken;
 
     /**
-     * @notice Daily reward rate
+     * @notice Address of the ERC20 token the rewards are paid in, restaking is only
+     * supported when it is the staked token
+     */
+    ERC20 public immutable rewardToken;
+
+    /**
+     * @notice Address of the receipt token deployed with the contract, minted 1:1 with the staked amounts
+     */
+    StakeReceipt public immutable receipt;
+
+    /**
+     * @notice Reward rate per epoch
+     */
+    uint256 public rewardRate;
+
+    /**
+     * @notice Minimum time (in seconds) between a user's last stake and his unstake or restake
+     */
+    uint256 public immutable lockPeriod;
+
+    /**
+     * @notice Length (in seconds) of a reward epoch, the rewardRate is paid every epoch
+     * and users can update their rewards once per epoch
+     */
+    uint256 public immutable epochLength;
+
+    /**
+     * @notice Upper bound for lockPeriod and epochLength
      */
-    uint256 public immutable rewardRate;
+    uint256 public constant MAX_DURATION = 365 days;
 
     /**
      * @notice Total amount of tokens staked in the contract
      */
     uint256 public totalStaked;
 
+    /**
+     * @notice Total staked amount weighted by the lock tier multipliers, rewards are shared based on it
+     */
+    uint256 public totalWeightedStake;
+
+    /**
+     * @notice Amount of tokens set aside to pay rewards, kept apart from the staked principal
+     */
+    uint256 public rewardReserve;
+
+    /**
+     * @notice Rewards accumulated per weighted staked token (scaled by PRECISION) since deployment
+     */
+    uint256 public rewardPerTokenStored;
+
+    /**
+     * @notice Timestamp at which rewardPerTokenStored was last brought up to date
+     */
+    uint256 public lastAccrualTime;
+
+    /**
+     * @notice Time (in seconds) between an unstake request and the withdrawal of its tokens,
+     * 0 disables the unbonding queue and unstake returns the tokens right away
+     */
+    uint256 public unbondingPeriod;
+
+    /**
+     * @notice Total amount of tokens requested for unstaking and not withdrawn yet, they don't earn rewards
+     */
+    uint256 public totalUnbonding;
+
+    /**
+     * @notice Scaling factor used by the reward per token accumulator
+     */
+    uint256 private constant PRECISION = 1e18;
+
+    /**
+     * @notice Lock tier multiplier that doesn't boost the rewards (1x), in basis points
+     */
+    uint256 public constant BASE_MULTIPLIER = 10_000;
+
+    /**
+     * @notice Upper bound for the lock tier multipliers (5x), in basis points
+     */
+    uint256 public constant MAX_MULTIPLIER = 50_000;
+
+    /**
+     * @notice Upper bound for the number of extra reward tokens, every stake action loops over them
+     */
+    uint256 public constant MAX_EXTRA_REWARD_TOKENS = 5;
+
+    /**
+     * @notice Upper bound for the number of stakers returned by a getStakers call
+     */
+    uint256 public constant MAX_STAKERS_PAGE_SIZE = 100;
+
     /**
      * @notice Struct to store staker information
-     * @param amountStaked Amount of tokens staked by the user
+     * @param amountStaked Amount of tokens staked by the user, including the ones locked in positions
+     * @param lockedAmount Amount of tokens staked by the user in lock tier positions
+     * @param weightedAmount Amount staked by the user weighted by the lock tier multipliers
      * @param pendingRewards Total pending rewards for the user
+     * @param accruedRewards Rewards earned by the user that haven't been added to the pending rewards yet
+     * @param rewardPerTokenPaid Value of rewardPerTokenStored when the user's rewards were last accrued
      * @param lastReward Amount of last reward claimed by the user
      * @param firstStakeTime Timestamp of the user's first stake
      * @param lastUpdateTime Timestamp of the user's last reward update
@@ -50,7 +170,11 @@ contract Staking {
      */
     struct Staker {
         uint256 amountStaked;
+        uint256 lockedAmount;
+        uint256 weightedAmount;
         uint256 pendingRewards;
+        uint256 accruedRewards;
+        uint256 rewardPerTokenPaid;
         uint256 lastReward;
         uint48 firstStakeTime;
         uint48 lastUpdateTime;
@@ -58,82 +182,437 @@ contract Staking {
         bool rewardsUpdated;
     }
 
+    /**
+     * @notice Struct to store a lock tier
+     * @param lockDuration Time (in seconds) the tokens staked in the tier stay locked
+     * @param multiplier Rewards multiplier of the tier, in basis points
+     */
+    struct Tier {
+        uint256 lockDuration;
+        uint256 multiplier;
+    }
+
+    /**
+     * @notice Struct to store a position opened in a lock tier
+     * @param amount Amount of tokens staked in the position
+     * @param tierId Id of the position's lock tier
+     * @param openedAt Timestamp at which the position was opened
+     * @param unlockTime Timestamp from which the position can be unstaked
+     * @param closed Flag indicating if the position has been unstaked
+     */
+    struct Position {
+        uint256 amount;
+        uint256 tierId;
+        uint48 openedAt;
+        uint48 unlockTime;
+        bool closed;
+    }
+
+    /**
+     * @notice Struct to store an unstake request waiting in the unbonding queue
+     * @param amount Amount of tokens requested for unstaking
+     * @param requestedAt Timestamp of the request
+     * @param unlockTime Timestamp from which the tokens can be withdrawn
+     * @param closed Flag indicating if the tokens have been withdrawn or staked again
+     */
+    struct UnbondingRequest {
+        uint256 amount;
+        uint48 requestedAt;
+        uint48 unlockTime;
+        bool closed;
+    }
+
+    /**
+     * @notice Struct to store an extra reward token
+     * @param rewardRate Reward rate per epoch, every epoch the stakers share rewardRate * 1e18 tokens
+     * @param reserve Amount of tokens set aside to pay the token's rewards
+     * @param rewardPerTokenStored Rewards accumulated per weighted staked token (scaled by PRECISION)
+     * since the token was added
+     */
+    struct RewardTokenInfo {
+        uint256 rewardRate;
+        uint256 reserve;
+        uint256 rewardPerTokenStored;
+    }
+
+    /**
+     * @notice Struct returned by getStakers, pairing a staker's address with his Staker struct
+     * @param stakerAddress Address of the staker
+     * @param staker The staker's information
+     */
+    struct StakerEntry {
+        address stakerAddress;
+        Staker staker;
+    }
+
     /**
      * @notice Mapping of user addresses to Staker struct
      */
     mapping(address => Staker) private stakers;
 
+    /**
+     * @notice Addresses with a staked amount, added on their first stake and removed once they unstake everything
+     */
+    EnumerableSet.AddressSet private activeStakers;
+
+    /**
+     * @notice Operators approved by each staker to stake, update, claim and restake for him, by staker and operator
+     */
+    mapping(address => mapping(address => bool)) private operators;
+
+    /**
+     * @notice Mapping to tell if a staker accepts receipt transfers that extend his lock period
+     */
+    mapping(address => bool) public acceptsStakeTransfers;
+
+    /**
+     * @notice Available lock tiers, the first one is the flexible tier
+     */
+    Tier[] private tiers;
+
+    /**
+     * @notice Mapping of user addresses to their positions, the position id is the index
+     */
+    mapping(address => Position[]) private positions;
+
+    /**
+     * @notice Mapping of user addresses to their unstake requests, the request id is the index
+     */
+    mapping(address => UnbondingRequest[]) private unbondingRequests;
+
+    /**
+     * @notice Extra reward tokens, in the order they were added
+     */
+    address[] private extraRewardTokens;
+
+    /**
+     * @notice Mapping of extra reward token addresses to their RewardTokenInfo struct
+     */
+    mapping(address => RewardTokenInfo) private rewardTokenInfo;
+
+    /**
+     * @notice Extra reward token rewards accrued by each staker and not claimed yet, by staker and token
+     */
+    mapping(address => mapping(address => uint256)) private accruedTokenRewards;
+
+    /**
+     * @notice Extra reward token accumulator value already accounted for each staker, by staker and token
+     */
+    mapping(address => mapping(address => uint256))
+        private tokenRewardPerTokenPaid;
+
     /* EVENTS */
     /**
      * @notice Emitted when a user stakes tokens
      * @param staker The staker's address
      * @param amountStaked Amount of tokens staked
+     * @param newAmountStaked The user's staked amount after the stake
+     * @param newTotalStaked totalStaked after the stake
+     * @param timestamp Timestamp of the stake
      */
-    event Staked(address indexed staker, uint256 amountStaked);
+    event Staked(
+        address indexed staker,
+        uint256 amountStaked,
+        uint256 newAmountStaked,
+        uint256 newTotalStaked,
+        uint256 timestamp
+    );
 
     /**
      * @notice Emitted when a user unstakes tokens
      * @param staker The staker's address
      * @param amountUnstaked Amount of tokens unstaked
+     * @param newAmountStaked The user's staked amount after the unstake
+     * @param newTotalStaked totalStaked after the unstake
+     * @param timestamp Timestamp of the unstake
      */
-    event Unstaked(address indexed staker, uint256 amountUnstaked);
+    event Unstaked(
+        address indexed staker,
+        uint256 amountUnstaked,
+        uint256 newAmountStaked,
+        uint256 newTotalStaked,
+        uint256 timestamp
+    );
 
     /**
      * @notice Emitted when a user restakes tokens
      * @param staker The staker's address
      * @param newAmountStaked New total amount of tokens staked
+     * @param rewardsRestaked Amount of pending rewards added to the stake
+     * @param newTotalStaked totalStaked after the restake
+     * @param timestamp Timestamp of the restake
      */
-    event Restaked(address indexed staker, uint256 newAmountStaked);
+    event Restaked(
+        address indexed staker,
+        uint256 newAmountStaked,
+        uint256 rewardsRestaked,
+        uint256 newTotalStaked,
+        uint256 timestamp
+    );
 
     /**
      * @notice Emitted when a user claims rewards
      * @param staker The staker's address
      * @param rewards The amount of rewards claimed
+     * @param rewardReserve The reward reserve left after the claim
+     * @param timestamp Timestamp of the claim
      */
-    event RewardClaimed(address indexed staker, uint256 rewards);
+    event RewardClaimed(
+        address indexed staker,
+        uint256 rewards,
+        uint256 rewardReserve,
+        uint256 timestamp
+    );
 
     /**
      * @notice Emitted when a user updates rewards
      * @param staker The staker's address
-     * @param rewardUpdate Boolean indicating if rewards have been updated
+     * @param rewards Amount of rewards added to the pending rewards
+     * @param epochsAccrued Full epochs since the rewards were last updated, or since the first stake
+     * @param stakeShare The user's share of totalWeightedStake, the share of the rewards he receives
+     * from now on, scaled by 1e18. It is weighted by the tier multipliers of his positions, so it
+     * isn't his share of totalStaked
+     * @param pendingRewards The user's pending rewards after the update
+     * @param timestamp Timestamp of the update
+     */
+    event RewardUpdated(
+        address indexed staker,
+        uint256 rewards,
+        uint256 epochsAccrued,
+        uint256 stakeShare,
+        uint256 pendingRewards,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when tokens are added to the reward reserve
+     * @param funder The address that funded the reserve
+     * @param amount Amount of tokens added to the reserve
+     */
+    event RewardsFunded(address indexed funder, uint256 amount);
+
+    /**
+     * @notice Emitted when the reward rate is changed
+     * @param oldRewardRate The previous reward rate per epoch
+     * @param newRewardRate The new reward rate per epoch
+     */
+    event RewardRateUpdated(uint256 oldRewardRate, uint256 newRewardRate);
+
+    /**
+     * @notice Emitted when a user withdraws his stake while the contract is paused
+     * @param staker The staker's address
+     * @param amountWithdrawn Amount of staked tokens returned to the user
+     * @param rewardsForfeited Amount of rewards the user gave up
+     */
+    event EmergencyWithdrawn(
+        address indexed staker,
+        uint256 amountWithdrawn,
+        uint256 rewardsForfeited
+    );
+
+    /**
+     * @notice Emitted when a lock tier is added
+     * @param tierId Id of the new tier
+     * @param lockDuration Time (in seconds) the tokens staked in the tier stay locked
+     * @param multiplier Rewards multiplier of the tier, in basis points
+     */
+    event TierAdded(
+        uint256 indexed tierId,
+        uint256 lockDuration,
+        uint256 multiplier
+    );
+
+    /**
+     * @notice Emitted when a user opens a position in a lock tier
+     * @param staker The staker's address
+     * @param positionId Id of the new position
+     * @param tierId Id of the position's lock tier
+     * @param amount Amount of tokens staked in the position
+     * @param unlockTime Timestamp from which the position can be unstaked
+     */
+    event PositionOpened(
+        address indexed staker,
+        uint256 indexed positionId,
+        uint256 indexed tierId,
+        uint256 amount,
+        uint256 unlockTime
+    );
+
+    /**
+     * @notice Emitted when a user unstakes a position
+     * @param staker The staker's address
+     * @param positionId Id of the position
+     * @param amount Amount of tokens unstaked
+     */
+    event PositionClosed(
+        address indexed staker,
+        uint256 indexed positionId,
+        uint256 amount
+    );
+
+    /**
+     * @notice Emitted when receipt tokens are transferred, along with the receipt's Transfer event
+     * @param from The sender's address
+     * @param to The recipient's address
+     * @param amount Amount of stake moved to the recipient
+     * @param rewards Accrued rewards moved along with the stake
+     */
+    event StakeTransferred(
+        address indexed from,
+        address indexed to,
+        uint256 amount,
+        uint256 rewards
+    );
+
+    /**
+     * @notice Emitted when a staker accepts or refuses the receipt transfers that extend his lock period
+     * @param staker The staker's address
+     * @param accepted True if the transfers are accepted, false if refused
+     */
+    event StakeTransfersAccepted(address indexed staker, bool accepted);
+
+    /**
+     * @notice Emitted when a staker approves or revokes an operator
+     * @param staker The staker's address
+     * @param operator The operator's address
+     * @param approved True if the operator is approved, false if revoked
+     */
+    event OperatorUpdated(
+        address indexed staker,
+        address indexed operator,
+        bool approved
+    );
+
+    /**
+     * @notice Emitted when an operator stakes, updates, claims or restakes for a staker,
+     * along with the usual event of the call
+     * @param operator The operator's address
+     * @param staker The staker's address
+     * @param action Selector of the function called by the operator
+     */
+    event OperatorAction(
+        address indexed operator,
+        address indexed staker,
+        bytes4 action
+    );
+
+    /**
+     * @notice Emitted when a user claims his rewards to another address, along with RewardClaimed
+     * @param staker The staker's address
+     * @param recipient The address the rewards were sent to
+     * @param rewards The amount of rewards claimed
+     */
+    event RewardClaimedTo(
+        address indexed staker,
+        address indexed recipient,
+        uint256 rewards
+    );
+
+    /**
+     * @notice Emitted when a user requests to unstake tokens, along with Unstaked
+     * @param staker The staker's address
+     * @param requestId Id of the unstake request
+     * @param amount Amount of tokens moved to the unbonding queue
+     * @param unlockTime Timestamp from which the tokens can be withdrawn
+     */
+    event UnstakeRequested(
+        address indexed staker,
+        uint256 indexed requestId,
+        uint256 amount,
+        uint256 unlockTime
+    );
+
+    /**
+     * @notice Emitted when a user cancels an unstake request and stakes its tokens again, along with Staked
+     * @param staker The staker's address
+     * @param requestId Id of the unstake request
+     * @param amount Amount of tokens staked again
+     */
+    event UnstakeCancelled(
+        address indexed staker,
+        uint256 indexed requestId,
+        uint256 amount
+    );
+
+    /**
+     * @notice Emitted when a user withdraws the tokens of his unlocked unstake requests
+     * @param staker The staker's address
+     * @param amount Amount of tokens withdrawn
+     * @param timestamp Timestamp of the withdrawal
+     */
+    event Withdrawn(address indexed staker, uint256 amount, uint256 timestamp);
+
+    /**
+     * @notice Emitted when the unbonding period is changed
+     * @param oldUnbondingPeriod The previous unbonding period, in seconds
+     * @param newUnbondingPeriod The new unbonding period, in seconds
+     */
+    event UnbondingPeriodUpdated(
+        uint256 oldUnbondingPeriod,
+        uint256 newUnbondingPeriod
+    );
+
+    /**
+     * @notice Emitted when an extra reward token is added
+     * @param token Address of the reward token
+     * @param rewardRate Reward rate per epoch of the token
+     */
+    event RewardTokenAdded(address indexed token, uint256 rewardRate);
+
+    /**
+     * @notice Emitted when the reward rate of an extra reward token is changed
+     * @param token Address of the reward token
+     * @param oldRewardRate The previous reward rate per epoch
+     * @param newRewardRate The new reward rate per epoch
+     */
+    event RewardTokenRateUpdated(
+        address indexed token,
+        uint256 oldRewardRate,
+        uint256 newRewardRate
+    );
+
+    /**
+     * @notice Emitted when the reserve of an extra reward token is funded
+     * @param funder The funder's address
+     * @param token Address of the reward token
+     * @param amount Amount of tokens added to the token's reserve
+     */
+    event RewardTokenFunded(
+        address indexed funder,
+        address indexed token,
+        uint256 amount
+    );
+
+    /**
+     * @notice Emitted when a user claims the rewards of an extra reward token
+     * @param staker The staker's address
+     * @param token Address of the reward token
+     * @param amount Amount of reward tokens claimed
      */
-    event RewardUpdated(address indexed staker, bool rewardUpdate);
+    event RewardTokenClaimed(
+        address indexed staker,
+        address indexed token,
+        uint256 amount
+    );
 
     /* MODIFIERS */
-    // Here we will check unstake, restake and reward update conditions
+    // Here we will check unstake, restake and reward update conditions,
+    // canUnstake, canRestake and canUpdateReward report the same conditions
     modifier unstakeConditions() {
-        Staker memory staker = stakers[msg.sender];
-        if (staker.amountStaked == 0) {
-            revert Staking__NoStakedAmount();
-        }
-        if (block.timestamp < staker.lastStakeTime + 86400) {
-            revert Staking__UnstakeNotAllowed();
-        }
+        _checkUnstakeConditions();
         _;
     }
-    modifier restakeConditions() {
-        Staker memory staker = stakers[msg.sender];
-        if (staker.amountStaked == 0) {
-            revert Staking__NoStakedAmount();
-        }
-        if (!staker.rewardsUpdated) {
-            revert Staking__RewardsNotUpdated();
-        }
-        if (block.timestamp < staker.lastStakeTime + 86400) {
-            revert Staking__RestakeNotAllowed();
-        }
+    modifier restakeConditions(address _staker) {
+        _checkRestakeConditions(_staker);
         _;
     }
-    modifier RewardUpdateConditions() {
-        Staker memory staker = stakers[msg.sender];
-        if (staker.amountStaked == 0) {
-            revert Staking__NoStakedAmount();
-        }
-        if (block.timestamp < staker.firstStakeTime + 86400) {
-            revert Staking__UpdateNotEligible();
-        }
-        if (block.timestamp < staker.lastUpdateTime + 86400) {
-            revert Staking__ClaimOncePerDay();
+    modifier RewardUpdateConditions(address _staker) {
+        _checkRewardUpdateConditions(_staker);
+        _;
+    }
+    modifier onlyOperator(address _staker) {
+        if (!isOperator(_staker, _msgSender())) {
+            revert Staking__NotOperator();
         }
         _;
     }
@@ -142,175 +621,1376 @@ contract Staking {
     /**
      * @notice Creates a new Staking contract
      * @param _stakedToken Address of the staked ERC20 token
-     * @param _rewardRate Daily reward rate
+     * @param _rewardToken Address of the ERC20 token the rewards are paid in
+     * @param _rewardRate Reward rate per epoch
+     * @param _lockPeriod Minimum time (in seconds) between a stake and an unstake or restake
+     * @param _epochLength Length (in seconds) of a reward epoch
+     * @param _trustedForwarder Address of the ERC-2771 forwarder allowed to relay calls,
+     * address 0 disables meta-transactions
      */
-    constructor(address _stakedToken, uint256 _rewardRate) {
-        if (_stakedToken == address(0)) {
+    constructor(
+        address _stakedToken,
+        address _rewardToken,
+        uint256 _rewardRate,
+        uint256 _lockPeriod,
+        uint256 _epochLength,
+        address _trustedForwarder
+    ) ERC2771Context(_trustedForwarder) {
+        if (_stakedToken == address(0) || _rewardToken == address(0)) {
             revert Staking__AddressZero();
         }
         stakedToken = ERC20(_stakedToken);
+        rewardToken = ERC20(_rewardToken);
         if (_rewardRate == 0) {
             revert Staking__RewardRateZero();
         }
         rewardRate = _rewardRate;
+        if (
+            _lockPeriod == 0 ||
+            _lockPeriod > MAX_DURATION ||
+            _epochLength == 0 ||
+            _epochLength > MAX_DURATION
+        ) {
+            revert Staking__InvalidDuration();
+        }
+        lockPeriod = _lockPeriod;
+        epochLength = _epochLength;
+        tiers.push(Tier(_lockPeriod, BASE_MULTIPLIER));
+        receipt = new StakeReceipt(
+            string.concat("Staked ", ERC20(_stakedToken).name()),
+            string.concat("st", ERC20(_stakedToken).symbol())
+        );
+
+        _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
+        _grantRole(RATE_MANAGER_ROLE, _msgSender());
+        _grantRole(PAUSER_ROLE, _msgSender());
     }
 
     /**
      * @notice Allows users to stake a specified amount of tokens
      * @param _amount The amount of tokens the user stakes
      */
-    function stake(uint256 _amount) external {
-        Staker memory staker = stakers[msg.sender];
+    function stake(uint256 _amount) external whenNotPaused {
+        _stake(_msgSender(), _amount);
+    }
 
-        // CHECKS //
-        if (_amount == 0) {
-            revert Staking__InvalidAmount();
-        }
-        if (stakedToken.balanceOf(msg.sender) < _amount) {
-            revert Staking__NotEnoughTokens();
+    /**
+     * @notice Allows approved operators to stake their tokens for a staker
+     * @dev The stake is the staker's, and restarts his lock period like stake
+     * @param _beneficiary Address of the staker
+     * @param _amount The amount of tokens the operator stakes
+     */
+    function stakeFor(
+        address _beneficiary,
+        uint256 _amount
+    ) external whenNotPaused onlyOperator(_beneficiary) {
+        _stake(_beneficiary, _amount);
+        emit OperatorAction(_msgSender(), _beneficiary, msg.sig);
+    }
+
+    /**
+     * @notice Allows users to stake a specified amount of tokens, approving them
+     * with an EIP-2612 permit in the same transaction
+     * @dev The staked token must support ERC20Permit. A permit that fails, e.g. because it was
+     * already submitted by someone else, is ignored when the allowance covers the amount
+     * @param _amount The amount of tokens the user stakes
+     * @param _deadline Timestamp until which the permit is valid
+     * @param _v Recovery byte of the permit signature
+     * @param _r First half of the permit signature
+     * @param _s Second half of the permit signature
+     */
+    function stakeWithPermit(
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused {
+        try
+            IERC20Permit(address(stakedToken)).permit(
+                _msgSender(),
+                address(this),
+                _amount,
+                _deadline,
+                _v,
+                _r,
+                _s
+            )
+        {} catch (bytes memory reason) {
+            // someone else may have submitted the permit first, the stake only needs its allowance
+            if (stakedToken.allowance(_msgSender(), address(this)) < _amount) {
+                // bubbles up the revert reason of the permit
+                assembly {
+                    revert(add(reason, 0x20), mload(reason))
+                }
+            }
         }
+        _stake(_msgSender(), _amount);
+    }
 
-        // EFFECTS
-        staker.amountStaked += _amount;
-        staker.lastStakeTime = uint48(block.timestamp);
-        if (staker.firstStakeTime == 0) {
-            staker.firstStakeTime = uint48(block.timestamp);
+    /**
+     * @notice Allows users to unstake part or all of their staked tokens
+     * @dev The rewards of the whole stake are accrued before the amount is removed,
+     * so the unstaked tokens keep everything they earned until now.
+     * Tokens locked in positions can only be unstaked with unstakePosition.
+     * Reverts while the unbonding queue is enabled, see requestUnstake
+     * @param _amount The amount of tokens the user unstakes
+     */
+    function unstake(uint256 _amount) external unstakeConditions {
+        if (unbondingPeriod != 0) {
+            revert Staking__UnbondingRequired();
         }
-        totalStaked += _amount;
-        stakers[msg.sender] = staker;
+        uint256 newAmountStaked = _removeStake(_amount);
 
         // INTERACTIONS
-        bool success = stakedToken.transferFrom(
-            msg.sender,
-            address(this),
-            _amount
+        _safeTransfer(stakedToken, _msgSender(), _amount);
+        emit Unstaked(
+            _msgSender(),
+            _amount,
+            newAmountStaked,
+            totalStaked,
+            block.timestamp
         );
-        if (!success) {
-            revert Staking__TransferFailed();
-        }
-        emit Staked(msg.sender, _amount);
     }
 
     /**
-     * @notice Allows users to unstake all their staked tokens
+     * @notice Allows users to move part or all of their staked tokens to the unbonding queue,
+     * they stop earning rewards right away and can be withdrawn once the unbonding period has passed
+     * @dev Same conditions as unstake. The tokens stay in the contract until withdraw is called
+     * @param _amount The amount of tokens the user unstakes
+     * @return requestId Id of the new unstake request
      */
-    function unstake() external unstakeConditions {
-        Staker memory staker = stakers[msg.sender];
-
-        // EFFECTS
-        uint256 amountUnstaked = staker.amountStaked;
-        staker.amountStaked = 0;
-        totalStaked -= amountUnstaked;
-        stakers[msg.sender] = staker;
+    function requestUnstake(
+        uint256 _amount
+    ) external unstakeConditions returns (uint256 requestId) {
+        uint256 newAmountStaked = _removeStake(_amount);
 
-        // INTERACTIONS
-        bool success = stakedToken.transfer(msg.sender, amountUnstaked);
-        if (!success) {
-            revert Staking__TransferFailed();
-        }
-        emit Unstaked(msg.sender, amountUnstaked);
+        emit Unstaked(
+            _msgSender(),
+            _amount,
+            newAmountStaked,
+            totalStaked,
+            block.timestamp
+        );
+        requestId = _requestUnbonding(_amount);
     }
 
     /**
-     * @notice Allows users to claim their total pending rewards
+     * @notice Allows users to cancel an unstake request and stake its tokens again
+     * @dev The request's tokens are staked like with stake, so the lock period starts again
+     * @param _requestId Id of the unstake request
      */
-    function claimReward() external {
-        Staker memory staker = stakers[msg.sender];
+    function cancelUnstake(uint256 _requestId) external whenNotPaused {
+        _accrueRewards(_msgSender());
+        Staker storage staker = stakers[_msgSender()];
 
         // CHECKS
-        if (!staker.rewardsUpdated) {
-            revert Staking__RewardsNotUpdated();
+        if (
+            _requestId >= unbondingRequests[_msgSender()].length ||
+            unbondingRequests[_msgSender()][_requestId].closed
+        ) {
+            revert Staking__InvalidUnbondingRequest();
         }
 
         // EFFECTS
-        uint256 collectedRewards = staker.pendingRewards;
-        staker.pendingRewards = 0;
-        staker.rewardsUpdated = false;
-        stakers[msg.sender] = staker;
+        uint256 amount = unbondingRequests[_msgSender()][_requestId].amount;
+        unbondingRequests[_msgSender()][_requestId].closed = true;
+        totalUnbonding -= amount;
+        staker.amountStaked += amount;
+        staker.weightedAmount += amount;
+        staker.lastStakeTime = uint48(block.timestamp);
+        totalStaked += amount;
+        totalWeightedStake += amount;
+        activeStakers.add(_msgSender());
 
         // INTERACTIONS
-        bool success = stakedToken.transfer(msg.sender, collectedRewards);
-        if (!success) {
-            revert Staking__TransferFailed();
-        }
-        emit RewardClaimed(msg.sender, collectedRewards);
+        _syncReceipt(_msgSender());
+        emit Staked(
+            _msgSender(),
+            amount,
+            staker.amountStaked,
+            totalStaked,
+            block.timestamp
+        );
+        emit UnstakeCancelled(_msgSender(), _requestId, amount);
     }
 
     /**
-     * @notice Allows users to restake their tokens
-     * @dev We'll assume that the user has staked and updated rewards
-     * Then the user either claims his rewards or unstaked (hence the 24 hour condition)
-     * If he first claims his rewards, he will then unstake, and vice versa
-     * Then he will stake his previous total staked amount + all the claimed rewards
+     * @notice Allows users to withdraw the tokens of all their unstake requests
+     * whose unbonding period has passed
+     * @return amountWithdrawn The amount of tokens returned to the user
      */
-    function restake() external restakeConditions {
-        Staker memory staker = stakers[msg.sender];
+    function withdraw() external returns (uint256 amountWithdrawn) {
+        UnbondingRequest[] storage requests = unbondingRequests[_msgSender()];
 
         // EFFECTS
-        uint256 restakedAmount = staker.amountStaked + staker.pendingRewards;
-        uint256 stakedTotal = totalStaked;
-        uint256 oldStake = staker.amountStaked;
-        stakedTotal = stakedTotal - staker.amountStaked + restakedAmount;
-        staker.amountStaked = restakedAmount;
-        uint256 collectedRewards = staker.pendingRewards;
-        staker.pendingRewards = 0;
-        staker.rewardsUpdated = false;
-        staker.lastUpdateTime = uint48(block.timestamp);
-        staker.lastStakeTime = uint48(block.timestamp);
-        totalStaked = stakedTotal;
-        stakers[msg.sender] = staker;
-
-        //INTERACTIONS
-        bool success_ = stakedToken.transfer(msg.sender, oldStake);
-        if (!success_) {
-            revert Staking__TransferFailed();
+        // the unlocked requests are closed while they are summed, the call reverts if there are none
+        for (uint256 i = 0; i < requests.length; i++) {
+            if (
+                !requests[i].closed && block.timestamp >= requests[i].unlockTime
+            ) {
+                amountWithdrawn += requests[i].amount;
+                requests[i].closed = true;
+            }
         }
-        bool _success = stakedToken.transfer(msg.sender, collectedRewards);
-        if (!_success) {
-            revert Staking__TransferFailed();
+        if (amountWithdrawn == 0) {
+            revert Staking__NothingToWithdraw();
         }
-        bool success__ = stakedToken.transferFrom(
-            msg.sender,
-            address(this),
+        totalUnbonding -= amountWithdrawn;
+
+        // INTERACTIONS
+        _safeTransfer(stakedToken, _msgSender(), amountWithdrawn);
+        emit Withdrawn(_msgSender(), amountWithdrawn, block.timestamp);
+    }
+
+    /**
+     * @notice Allows users to claim their total pending rewards
+     */
+    function claimReward() external whenNotPaused {
+        _claimReward(_msgSender(), _msgSender());
+    }
+
+    /**
+     * @notice Allows users to claim their total pending rewards to another address
+     * @param _recipient The address the rewards are sent to
+     */
+    function claimTo(address _recipient) external whenNotPaused {
+        if (_recipient == address(0)) {
+            revert Staking__AddressZero();
+        }
+        uint256 rewards = _claimReward(_msgSender(), _recipient);
+        emit RewardClaimedTo(_msgSender(), _recipient, rewards);
+    }
+
+    /**
+     * @notice Allows approved operators to claim a staker's pending rewards, which are sent to the staker
+     * @param _staker Address of the staker
+     */
+    function claimRewardFor(
+        address _staker
+    ) external whenNotPaused onlyOperator(_staker) {
+        _claimReward(_staker, _staker);
+        emit OperatorAction(_msgSender(), _staker, msg.sig);
+    }
+
+    /**
+     * @notice Allows users to claim their rewards of an extra reward token
+     * @dev Extra reward token rewards don't need to be updated before claiming them
+     * @param _token Address of the reward token
+     */
+    function claimExtraReward(address _token) external whenNotPaused {
+        _accrueRewards(_msgSender());
+
+        // CHECKS
+        if (rewardTokenInfo[_token].rewardRate == 0) {
+            revert Staking__InvalidRewardToken();
+        }
+        if (accruedTokenRewards[_msgSender()][_token] == 0) {
+            revert Staking__NoPendingRewards();
+        }
+
+        _claimTokenRewards(_token);
+    }
+
+    /**
+     * @notice Allows users to claim their pending rewards, if they have updated them,
+     * and their rewards of every extra reward token at once
+     */
+    function claimAll() external whenNotPaused {
+        _accrueRewards(_msgSender());
+        Staker storage staker = stakers[_msgSender()];
+        bool claimed;
+
+        if (staker.rewardsUpdated && staker.pendingRewards > 0) {
+            _claimPendingRewards(_msgSender(), _msgSender());
+            claimed = true;
+        }
+        for (uint256 i = 0; i < extraRewardTokens.length; i++) {
+            if (accruedTokenRewards[_msgSender()][extraRewardTokens[i]] > 0) {
+                _claimTokenRewards(extraRewardTokens[i]);
+                claimed = true;
+            }
+        }
+
+        if (!claimed) {
+            revert Staking__NoPendingRewards();
+        }
+    }
+
+    /**
+     * @notice Adds tokens to the reward reserve
+     * @dev Rewards are only paid from the reserve, never from the staked principal
+     * @param _amount The amount of tokens added to the reserve
+     */
+    function fundRewards(uint256 _amount) external {
+        // CHECKS
+        if (_amount == 0) {
+            revert Staking__InvalidAmount();
+        }
+
+        // EFFECTS
+        rewardReserve += _amount;
+
+        // INTERACTIONS
+        _safeTransferFrom(rewardToken, _msgSender(), address(this), _amount);
+        emit RewardsFunded(_msgSender(), _amount);
+    }
+
+    /**
+     * @notice Allows users to restake their tokens
+     * @dev We'll assume that the user has staked and updated rewards
+     * Then the user either claims his rewards or unstaked (hence the lock period condition)
+     * If he first claims his rewards, he will then unstake, and vice versa
+     * Then he will stake his previous total staked amount + all the claimed rewards
+     */
+    function restake() external whenNotPaused restakeConditions(_msgSender()) {
+        _restake(_msgSender());
+    }
+
+    /**
+     * @notice Allows approved operators to restake a staker's tokens and pending rewards
+     * @dev The staker must have approved the contract to transfer his restaked amount, see restake
+     * @param _staker Address of the staker
+     */
+    function restakeFor(
+        address _staker
+    ) external whenNotPaused onlyOperator(_staker) restakeConditions(_staker) {
+        _restake(_staker);
+        emit OperatorAction(_msgSender(), _staker, msg.sig);
+    }
+
+    /**
+     * @notice Updates the user's rewards
+     * @dev Rewards are updated only once per epoch and only for users who staked.
+     * The rewards accrued since the last update are moved to the pending rewards
+     */
+    function updateReward() external RewardUpdateConditions(_msgSender()) {
+        _updateReward(_msgSender());
+    }
+
+    /**
+     * @notice Allows approved operators to update a staker's rewards
+     * @param _staker Address of the staker
+     */
+    function updateRewardFor(
+        address _staker
+    ) external onlyOperator(_staker) RewardUpdateConditions(_staker) {
+        _updateReward(_staker);
+        emit OperatorAction(_msgSender(), _staker, msg.sig);
+    }
+
+    /**
+     * @notice Approves or revokes an operator, who can stake, update, claim and restake for the caller
+     * @param _operator The operator's address
+     * @param _approved True to approve the operator, false to revoke it
+     */
+    function setOperator(address _operator, bool _approved) external {
+        if (_operator == address(0)) {
+            revert Staking__AddressZero();
+        }
+        operators[_msgSender()][_operator] = _approved;
+        emit OperatorUpdated(_msgSender(), _operator, _approved);
+    }
+
+    /**
+     * @notice Accepts or refuses the receipt transfers that extend the caller's lock period
+     * @param _accepted True to accept the transfers, false to refuse them
+     */
+    function setAcceptStakeTransfers(bool _accepted) external {
+        acceptsStakeTransfers[_msgSender()] = _accepted;
+        emit StakeTransfersAccepted(_msgSender(), _accepted);
+    }
+
+    /**
+     * @notice Moves stake from one staker to another, called by the receipt when receipt tokens are transferred
+     * @dev The recipient receives the sender's accrued rewards pro rata of the moved weight, the
+     * pending rewards and the extra reward token rewards stay with the sender. A stake that is still
+     * locked keeps the sender's lock, which moves the recipient's lock period forward when it ends
+     * later than his. So that nobody else can delay his unstake, a recipient with stake outside
+     * positions has to accept these transfers with setAcceptStakeTransfers
+     * @param _from Address of the sender
+     * @param _to Address of the recipient
+     * @param _amount Amount of stake moved, only the stake that isn't locked in positions can be moved
+     */
+    function transferStake(
+        address _from,
+        address _to,
+        uint256 _amount
+    ) external {
+        // CHECKS
+        if (msg.sender != address(receipt)) {
+            revert Staking__NotReceipt();
+        }
+        _accrueRewards(_from);
+        _accrueRewards(_to);
+        Staker storage sender = stakers[_from];
+        Staker storage recipient = stakers[_to];
+        if (_amount > sender.amountStaked - sender.lockedAmount) {
+            revert Staking__AmountExceedsStake();
+        }
+        bool extendsLock = sender.lastStakeTime > recipient.lastStakeTime &&
+            block.timestamp < sender.lastStakeTime + lockPeriod;
+        if (
+            extendsLock &&
+            recipient.amountStaked > recipient.lockedAmount &&
+            !acceptsStakeTransfers[_to]
+        ) {
+            revert Staking__TransferNotAccepted();
+        }
+
+        // EFFECTS
+        uint256 rewards = (sender.accruedRewards * _amount) /
+            sender.weightedAmount;
+        sender.accruedRewards -= rewards;
+        sender.amountStaked -= _amount;
+        sender.weightedAmount -= _amount;
+        recipient.accruedRewards += rewards;
+        recipient.amountStaked += _amount;
+        recipient.weightedAmount += _amount;
+        if (recipient.firstStakeTime == 0) {
+            recipient.firstStakeTime = sender.firstStakeTime;
+        }
+        if (extendsLock) {
+            recipient.lastStakeTime = sender.lastStakeTime;
+        }
+        activeStakers.add(_to);
+        if (sender.amountStaked == 0) {
+            activeStakers.remove(_from);
+        }
+
+        emit StakeTransferred(_from, _to, _amount, rewards);
+    }
+
+    /**
+     * @notice Allows users to open a position in a lock tier
+     * @dev The position's rewards are boosted by the tier multiplier, and the position
+     * can't be unstaked before the tier's lock duration has passed
+     * @param _amount The amount of tokens the user stakes
+     * @param _tierId Id of the lock tier
+     * @return positionId Id of the new position
+     */
+    function stakeInTier(
+        uint256 _amount,
+        uint256 _tierId
+    ) external whenNotPaused returns (uint256 positionId) {
+        _accrueRewards(_msgSender());
+        Staker storage staker = stakers[_msgSender()];
+
+        // CHECKS
+        if (_amount == 0) {
+            revert Staking__InvalidAmount();
+        }
+        if (_tierId >= tiers.length) {
+            revert Staking__InvalidTier();
+        }
+        if (stakedToken.balanceOf(_msgSender()) < _amount) {
+            revert Staking__NotEnoughTokens();
+        }
+
+        // EFFECTS
+        Tier memory tier = tiers[_tierId];
+        uint256 weightedAmount = (_amount * tier.multiplier) / BASE_MULTIPLIER;
+        uint48 unlockTime = uint48(block.timestamp + tier.lockDuration);
+        staker.amountStaked += _amount;
+        staker.lockedAmount += _amount;
+        staker.weightedAmount += weightedAmount;
+        if (staker.firstStakeTime == 0) {
+            staker.firstStakeTime = uint48(block.timestamp);
+        }
+        totalStaked += _amount;
+        totalWeightedStake += weightedAmount;
+        activeStakers.add(_msgSender());
+
+        positionId = positions[_msgSender()].length;
+        positions[_msgSender()].push(
+            Position(
+                _amount,
+                _tierId,
+                uint48(block.timestamp),
+                unlockTime,
+                false
+            )
+        );
+
+        // INTERACTIONS
+        _syncReceipt(_msgSender());
+        _safeTransferFrom(stakedToken, _msgSender(), address(this), _amount);
+        emit Staked(
+            _msgSender(),
+            _amount,
+            staker.amountStaked,
+            totalStaked,
+            block.timestamp
+        );
+        emit PositionOpened(
+            _msgSender(),
+            positionId,
+            _tierId,
+            _amount,
+            unlockTime
+        );
+    }
+
+    /**
+     * @notice Allows users to unstake a position once its lock duration has passed
+     * @dev While the unbonding queue is enabled the position's tokens are moved to the queue,
+     * like with requestUnstake, and are withdrawn with withdraw
+     * @param _positionId Id of the position
+     */
+    function unstakePosition(uint256 _positionId) external {
+        _accrueRewards(_msgSender());
+        Staker storage staker = stakers[_msgSender()];
+
+        // CHECKS
+        if (
+            _positionId >= positions[_msgSender()].length ||
+            positions[_msgSender()][_positionId].closed
+        ) {
+            revert Staking__InvalidPosition();
+        }
+        Position memory position = positions[_msgSender()][_positionId];
+        if (block.timestamp < position.unlockTime) {
+            revert Staking__PositionLocked();
+        }
+
+        // EFFECTS
+        uint256 weightedAmount = (position.amount *
+            tiers[position.tierId].multiplier) / BASE_MULTIPLIER;
+        staker.amountStaked -= position.amount;
+        staker.lockedAmount -= position.amount;
+        staker.weightedAmount -= weightedAmount;
+        totalStaked -= position.amount;
+        totalWeightedStake -= weightedAmount;
+        if (staker.amountStaked == 0) {
+            activeStakers.remove(_msgSender());
+        }
+        positions[_msgSender()][_positionId].closed = true;
+
+        // INTERACTIONS
+        _syncReceipt(_msgSender());
+        emit Unstaked(
+            _msgSender(),
+            position.amount,
+            staker.amountStaked,
+            totalStaked,
+            block.timestamp
+        );
+        emit PositionClosed(_msgSender(), _positionId, position.amount);
+        if (unbondingPeriod == 0) {
+            _safeTransfer(stakedToken, _msgSender(), position.amount);
+        } else {
+            _requestUnbonding(position.amount);
+        }
+    }
+
+    /**
+     * @notice Adds a lock tier
+     * @dev Tiers can't be changed once added, since open positions rely on them
+     * @param _lockDuration Time (in seconds) the tokens staked in the tier stay locked,
+     * at least the lock period
+     * @param _multiplier Rewards multiplier of the tier, in basis points
+     */
+    function addTier(
+        uint256 _lockDuration,
+        uint256 _multiplier
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_lockDuration < lockPeriod || _lockDuration > MAX_DURATION) {
+            revert Staking__InvalidDuration();
+        }
+        if (_multiplier < BASE_MULTIPLIER || _multiplier > MAX_MULTIPLIER) {
+            revert Staking__InvalidMultiplier();
+        }
+        tiers.push(Tier(_lockDuration, _multiplier));
+        emit TierAdded(tiers.length - 1, _lockDuration, _multiplier);
+    }
+
+    /**
+     * @notice Adds an extra reward token, streamed to the stakers at its own rate
+     * @dev The token's rewards start accruing from now on, whether or not its reserve is funded,
+     * its claims revert with Staking__InsufficientRewardReserve until the reserve covers them
+     * @param _token Address of the reward token, neither the staked nor the reward token
+     * @param _rewardRate Reward rate per epoch of the token
+     */
+    function addRewardToken(
+        address _token,
+        uint256 _rewardRate
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0)) {
+            revert Staking__AddressZero();
+        }
+        if (
+            _token == address(stakedToken) ||
+            _token == address(rewardToken) ||
+            rewardTokenInfo[_token].rewardRate != 0
+        ) {
+            revert Staking__InvalidRewardToken();
+        }
+        if (extraRewardTokens.length == MAX_EXTRA_REWARD_TOKENS) {
+            revert Staking__TooManyRewardTokens();
+        }
+        if (_rewardRate == 0) {
+            revert Staking__RewardRateZero();
+        }
+        _updateRewardPerToken();
+
+        extraRewardTokens.push(_token);
+        rewardTokenInfo[_token].rewardRate = _rewardRate;
+        emit RewardTokenAdded(_token, _rewardRate);
+    }
+
+    /**
+     * @notice Changes the reward rate of an extra reward token
+     * @dev The rewards accrued at the previous rate are checkpointed first
+     * @param _token Address of the reward token
+     * @param _rewardRate The new reward rate per epoch
+     */
+    function setRewardTokenRate(
+        address _token,
+        uint256 _rewardRate
+    ) external onlyRole(RATE_MANAGER_ROLE) {
+        uint256 oldRewardRate = rewardTokenInfo[_token].rewardRate;
+        if (oldRewardRate == 0) {
+            revert Staking__InvalidRewardToken();
+        }
+        if (_rewardRate == 0) {
+            revert Staking__RewardRateZero();
+        }
+        _updateRewardPerToken();
+
+        rewardTokenInfo[_token].rewardRate = _rewardRate;
+        emit RewardTokenRateUpdated(_token, oldRewardRate, _rewardRate);
+    }
+
+    /**
+     * @notice Adds tokens to the reserve of an extra reward token
+     * @param _token Address of the reward token
+     * @param _amount The amount of tokens added to the reserve
+     */
+    function fundRewardToken(address _token, uint256 _amount) external {
+        // CHECKS
+        if (rewardTokenInfo[_token].rewardRate == 0) {
+            revert Staking__InvalidRewardToken();
+        }
+        if (_amount == 0) {
+            revert Staking__InvalidAmount();
+        }
+
+        // EFFECTS
+        rewardTokenInfo[_token].reserve += _amount;
+
+        // INTERACTIONS
+        _safeTransferFrom(ERC20(_token), _msgSender(), address(this), _amount);
+        emit RewardTokenFunded(_msgSender(), _token, _amount);
+    }
+
+    /**
+     * @notice Changes the reward rate
+     * @dev The rewards accrued at the previous rate are checkpointed first
+     * @param _rewardRate The new reward rate per epoch
+     */
+    function setRewardRate(
+        uint256 _rewardRate
+    ) external onlyRole(RATE_MANAGER_ROLE) {
+        if (_rewardRate == 0) {
+            revert Staking__RewardRateZero();
+        }
+        _updateRewardPerToken();
+
+        uint256 oldRewardRate = rewardRate;
+        rewardRate = _rewardRate;
+        emit RewardRateUpdated(oldRewardRate, _rewardRate);
+    }
+
+    /**
+     * @notice Changes the unbonding period, 0 disables the unbonding queue
+     * @dev The unstake requests already made keep their unlock time
+     * @param _unbondingPeriod The new unbonding period, in seconds
+     */
+    function setUnbondingPeriod(
+        uint256 _unbondingPeriod
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_unbondingPeriod > MAX_DURATION) {
+            revert Staking__InvalidDuration();
+        }
+        uint256 oldUnbondingPeriod = unbondingPeriod;
+        unbondingPeriod = _unbondingPeriod;
+        emit UnbondingPeriodUpdated(oldUnbondingPeriod, _unbondingPeriod);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @notice Allows users to withdraw all their staked and unbonding tokens while the contract is paused
+     * @dev The lock period, the positions' lock tiers and the unbonding period are ignored
+     * and all the user's rewards, including the extra reward tokens ones, are forfeited
+     */
+    function emergencyWithdraw() external whenPaused {
+        _accrueRewards(_msgSender());
+        Staker storage staker = stakers[_msgSender()];
+        UnbondingRequest[] storage requests = unbondingRequests[_msgSender()];
+
+        // EFFECTS
+        // the open requests are closed while they are summed, the call reverts if there is nothing to return
+        uint256 amountUnbonding;
+        for (uint256 i = 0; i < requests.length; i++) {
+            if (!requests[i].closed) {
+                amountUnbonding += requests[i].amount;
+                requests[i].closed = true;
+            }
+        }
+        if (staker.amountStaked == 0 && amountUnbonding == 0) {
+            revert Staking__NoStakedAmount();
+        }
+        uint256 amountWithdrawn = staker.amountStaked + amountUnbonding;
+        uint256 rewardsForfeited = staker.pendingRewards +
+            staker.accruedRewards;
+        totalStaked -= staker.amountStaked;
+        totalUnbonding -= amountUnbonding;
+        totalWeightedStake -= staker.weightedAmount;
+        staker.amountStaked = 0;
+        staker.lockedAmount = 0;
+        staker.weightedAmount = 0;
+        staker.pendingRewards = 0;
+        staker.accruedRewards = 0;
+        staker.rewardsUpdated = false;
+        activeStakers.remove(_msgSender());
+
+        Position[] storage stakerPositions = positions[_msgSender()];
+        for (uint256 i = 0; i < stakerPositions.length; i++) {
+            stakerPositions[i].closed = true;
+        }
+        for (uint256 i = 0; i < extraRewardTokens.length; i++) {
+            accruedTokenRewards[_msgSender()][extraRewardTokens[i]] = 0;
+        }
+
+        // INTERACTIONS
+        _syncReceipt(_msgSender());
+        _safeTransfer(stakedToken, _msgSender(), amountWithdrawn);
+        emit EmergencyWithdrawn(
+            _msgSender(),
+            amountWithdrawn,
+            rewardsForfeited
+        );
+    }
+
+    /**
+     * @notice Stakes the given amount of the caller's tokens for the given staker
+     * @param _staker Address of the staker the stake is credited to
+     * @param _amount The amount of tokens the user stakes
+     */
+    function _stake(address _staker, uint256 _amount) private {
+        _accrueRewards(_staker);
+        Staker storage staker = stakers[_staker];
+
+        // CHECKS //
+        if (_amount == 0) {
+            revert Staking__InvalidAmount();
+        }
+        if (stakedToken.balanceOf(_msgSender()) < _amount) {
+            revert Staking__NotEnoughTokens();
+        }
+
+        // EFFECTS
+        staker.amountStaked += _amount;
+        staker.weightedAmount += _amount;
+        staker.lastStakeTime = uint48(block.timestamp);
+        if (staker.firstStakeTime == 0) {
+            staker.firstStakeTime = uint48(block.timestamp);
+        }
+        totalStaked += _amount;
+        totalWeightedStake += _amount;
+        activeStakers.add(_staker);
+
+        // INTERACTIONS
+        _syncReceipt(_staker);
+        _safeTransferFrom(stakedToken, _msgSender(), address(this), _amount);
+        emit Staked(
+            _staker,
+            _amount,
+            staker.amountStaked,
+            totalStaked,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @notice Restakes the given staker's tokens and pending rewards, see restake
+     * @param _staker Address of the staker
+     */
+    function _restake(address _staker) private {
+        _accrueRewards(_staker);
+        Staker storage staker = stakers[_staker];
+
+        // CHECKS
+        if (rewardToken != stakedToken) {
+            revert Staking__RestakeUnsupported();
+        }
+        if (staker.pendingRewards > rewardReserve) {
+            revert Staking__InsufficientRewardReserve();
+        }
+
+        // EFFECTS
+        uint256 restakedAmount = staker.amountStaked + staker.pendingRewards;
+        uint256 stakedTotal = totalStaked;
+        uint256 oldStake = staker.amountStaked;
+        stakedTotal = stakedTotal - staker.amountStaked + restakedAmount;
+        staker.amountStaked = restakedAmount;
+        staker.weightedAmount += staker.pendingRewards;
+        uint256 collectedRewards = staker.pendingRewards;
+        staker.pendingRewards = 0;
+        staker.rewardsUpdated = false;
+        staker.lastUpdateTime = uint48(block.timestamp);
+        staker.lastStakeTime = uint48(block.timestamp);
+        totalStaked = stakedTotal;
+        totalWeightedStake += collectedRewards;
+        rewardReserve -= collectedRewards;
+
+        //INTERACTIONS
+        _syncReceipt(_staker);
+        _safeTransfer(stakedToken, _staker, oldStake);
+        _safeTransfer(stakedToken, _staker, collectedRewards);
+        _safeTransferFrom(
+            stakedToken,
+            _staker,
+            address(this),
             oldStake + collectedRewards
         );
-        if (!success__) {
-            revert Staking__TransferFailed();
+
+        emit Restaked(
+            _staker,
+            restakedAmount,
+            collectedRewards,
+            stakedTotal,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @notice Moves the rewards the given staker accrued since his last update to his pending rewards, see updateReward
+     * @param _staker Address of the staker
+     */
+    function _updateReward(address _staker) private {
+        _accrueRewards(_staker);
+        Staker storage staker = stakers[_staker];
+
+        // EFFECTS
+        uint256 accruedSince = staker.lastUpdateTime == 0
+            ? staker.firstStakeTime
+            : staker.lastUpdateTime;
+        uint256 rewards = staker.accruedRewards;
+        staker.accruedRewards = 0;
+        staker.lastReward = rewards;
+        staker.pendingRewards += rewards;
+        staker.lastUpdateTime = uint48(block.timestamp);
+        staker.rewardsUpdated = true;
+
+        emit RewardUpdated(
+            _staker,
+            rewards,
+            (block.timestamp - accruedSince) / epochLength,
+            (staker.weightedAmount * PRECISION) / totalWeightedStake,
+            staker.pendingRewards,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @notice Pays the given staker's pending rewards to the recipient, once he has updated them
+     * @param _staker Address of the staker
+     * @param _recipient The address the rewards are sent to
+     * @return uint256 The claimed rewards
+     */
+    function _claimReward(
+        address _staker,
+        address _recipient
+    ) private returns (uint256) {
+        _accrueRewards(_staker);
+
+        // CHECKS
+        if (!stakers[_staker].rewardsUpdated) {
+            revert Staking__RewardsNotUpdated();
         }
 
-        emit Restaked(msg.sender, restakedAmount);
+        return _claimPendingRewards(_staker, _recipient);
     }
 
     /**
-     * @notice Updates the user's rewards
-     * @dev Rewards are updated only once per day and only for users who staked
+     * @notice Removes the given amount from the caller's stake that isn't locked in positions
+     * @dev The rewards of the whole stake are accrued before the amount is removed
+     * @param _amount The amount of tokens removed from the stake
+     * @return uint256 The caller's staked amount after the removal
      */
-    function updateReward() external RewardUpdateConditions {
-        Staker memory staker = stakers[msg.sender];
-        uint48 daysFromStake;
+    function _removeStake(uint256 _amount) private returns (uint256) {
+        _accrueRewards(_msgSender());
+        Staker storage staker = stakers[_msgSender()];
 
-        if (staker.lastUpdateTime == 0) {
-            daysFromStake =
-                uint48(block.timestamp - staker.lastStakeTime) /
-                86400;
-        } else {
-            daysFromStake =
-                uint48(block.timestamp - staker.lastUpdateTime) /
-                86400;
+        // CHECKS
+        if (_amount == 0) {
+            revert Staking__InvalidAmount();
+        }
+        if (_amount > staker.amountStaked - staker.lockedAmount) {
+            revert Staking__AmountExceedsStake();
         }
 
         // EFFECTS
-        uint256 _rewardRate = rewardRate;
-        uint256 _totalStaked = totalStaked;
-        uint256 stakerPercentage = (staker.amountStaked * 1e18) / _totalStaked;
-        uint256 rewards = stakerPercentage * _rewardRate * daysFromStake;
-        staker.lastReward = rewards;
-        staker.pendingRewards += rewards;
-        staker.lastUpdateTime = uint48(block.timestamp);
-        staker.rewardsUpdated = true;
-        stakers[msg.sender] = staker;
+        staker.amountStaked -= _amount;
+        staker.weightedAmount -= _amount;
+        totalStaked -= _amount;
+        totalWeightedStake -= _amount;
+        if (staker.amountStaked == 0) {
+            activeStakers.remove(_msgSender());
+        }
+
+        // INTERACTIONS
+        _syncReceipt(_msgSender());
+        return staker.amountStaked;
+    }
+
+    /**
+     * @notice Moves tokens the caller removed from his stake to the unbonding queue
+     * @param _amount The amount of tokens moved to the queue
+     * @return requestId Id of the new unstake request
+     */
+    function _requestUnbonding(
+        uint256 _amount
+    ) private returns (uint256 requestId) {
+        // EFFECTS
+        uint48 unlockTime = uint48(block.timestamp + unbondingPeriod);
+        totalUnbonding += _amount;
+        requestId = unbondingRequests[_msgSender()].length;
+        unbondingRequests[_msgSender()].push(
+            UnbondingRequest(
+                _amount,
+                uint48(block.timestamp),
+                unlockTime,
+                false
+            )
+        );
+        emit UnstakeRequested(_msgSender(), requestId, _amount, unlockTime);
+    }
+
+    /**
+     * @notice Reverts if the caller can't unstake, see unstakeConditions
+     */
+    function _checkUnstakeConditions() private view {
+        Staker storage staker = stakers[_msgSender()];
+        if (staker.amountStaked == 0) {
+            revert Staking__NoStakedAmount();
+        }
+        if (block.timestamp < staker.lastStakeTime + lockPeriod) {
+            revert Staking__UnstakeNotAllowed();
+        }
+    }
+
+    /**
+     * @notice Reverts if the given staker can't restake, see restakeConditions
+     * @param _staker Address of the staker
+     */
+    function _checkRestakeConditions(address _staker) private view {
+        Staker storage staker = stakers[_staker];
+        if (staker.amountStaked == 0) {
+            revert Staking__NoStakedAmount();
+        }
+        if (!staker.rewardsUpdated) {
+            revert Staking__RewardsNotUpdated();
+        }
+        if (block.timestamp < staker.lastStakeTime + lockPeriod) {
+            revert Staking__RestakeNotAllowed();
+        }
+    }
+
+    /**
+     * @notice Reverts if the given staker can't update his rewards, see RewardUpdateConditions
+     * @param _staker Address of the staker
+     */
+    function _checkRewardUpdateConditions(address _staker) private view {
+        Staker storage staker = stakers[_staker];
+        if (staker.amountStaked == 0) {
+            revert Staking__NoStakedAmount();
+        }
+        if (block.timestamp < staker.firstStakeTime + epochLength) {
+            revert Staking__UpdateNotEligible();
+        }
+        if (block.timestamp < staker.lastUpdateTime + epochLength) {
+            revert Staking__ClaimOncePerDay();
+        }
+    }
+
+    /**
+     * @notice Mints or burns the staker's receipts so that they match his staked amount
+     * @param _staker Address of the staker
+     */
+    function _syncReceipt(address _staker) private {
+        receipt.sync(_staker, stakers[_staker].amountStaked);
+    }
+
+    /**
+     * @notice Returns the relayed sender for calls coming from the trusted forwarder
+     */
+    function _msgSender()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (address)
+    {
+        return ERC2771Context._msgSender();
+    }
+
+    /**
+     * @notice Returns the relayed calldata for calls coming from the trusted forwarder
+     */
+    function _msgData()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (bytes calldata)
+    {
+        return ERC2771Context._msgData();
+    }
+
+    /**
+     * @notice Pays the staker's pending rewards from the reward reserve to the recipient
+     * @dev The caller must accrue the staker's rewards first
+     * @param _staker Address of the staker
+     * @param _recipient The address the rewards are sent to
+     * @return collectedRewards The claimed rewards
+     */
+    function _claimPendingRewards(
+        address _staker,
+        address _recipient
+    ) private returns (uint256 collectedRewards) {
+        Staker storage staker = stakers[_staker];
+
+        // CHECKS
+        if (staker.pendingRewards > rewardReserve) {
+            revert Staking__InsufficientRewardReserve();
+        }
+
+        // EFFECTS
+        collectedRewards = staker.pendingRewards;
+        staker.pendingRewards = 0;
+        staker.rewardsUpdated = false;
+        rewardReserve -= collectedRewards;
+
+        // INTERACTIONS
+        _safeTransfer(rewardToken, _recipient, collectedRewards);
+        emit RewardClaimed(
+            _staker,
+            collectedRewards,
+            rewardReserve,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @notice Pays the user's rewards of an extra reward token from the token's reserve
+     * @dev The caller must accrue the user's rewards first
+     * @param _token Address of the reward token
+     */
+    function _claimTokenRewards(address _token) private {
+        uint256 collectedRewards = accruedTokenRewards[_msgSender()][_token];
+
+        // CHECKS
+        if (collectedRewards > rewardTokenInfo[_token].reserve) {
+            revert Staking__InsufficientRewardReserve();
+        }
+
+        // EFFECTS
+        accruedTokenRewards[_msgSender()][_token] = 0;
+        rewardTokenInfo[_token].reserve -= collectedRewards;
+
+        // INTERACTIONS
+        _safeTransfer(ERC20(_token), _msgSender(), collectedRewards);
+        emit RewardTokenClaimed(_msgSender(), _token, collectedRewards);
+    }
+
+    /**
+     * @notice Transfers tokens from the contract, reverting if the token reports a failure
+     * @param _token Address of the ERC20 token
+     * @param _to Recipient of the tokens
+     * @param _amount The amount of tokens transferred
+     */
+    function _safeTransfer(ERC20 _token, address _to, uint256 _amount) private {
+        if (!_token.transfer(_to, _amount)) {
+            revert Staking__TransferFailed();
+        }
+    }
+
+    /**
+     * @notice Transfers tokens from the given address, reverting if the token reports a failure
+     * @param _token Address of the ERC20 token
+     * @param _from Owner of the tokens, who must have approved the contract
+     * @param _to Recipient of the tokens
+     * @param _amount The amount of tokens transferred
+     */
+    function _safeTransferFrom(
+        ERC20 _token,
+        address _from,
+        address _to,
+        uint256 _amount
+    ) private {
+        if (!_token.transferFrom(_from, _to, _amount)) {
+            revert Staking__TransferFailed();
+        }
+    }
+
+    /**
+     * @notice Brings the reward per token accumulators of the reward token
+     * and of the extra reward tokens up to date
+     * @dev Must be called before any change to totalWeightedStake or to a reward rate
+     */
+    function _updateRewardPerToken() private returns (uint256) {
+        uint256 _rewardPerToken = rewardPerToken();
+        rewardPerTokenStored = _rewardPerToken;
+        for (uint256 i = 0; i < extraRewardTokens.length; i++) {
+            RewardTokenInfo storage info = rewardTokenInfo[
+                extraRewardTokens[i]
+            ];
+            info.rewardPerTokenStored = _rewardPerTokenOf(
+                info.rewardPerTokenStored,
+                info.rewardRate
+            );
+        }
+        lastAccrualTime = block.timestamp;
+        return _rewardPerToken;
+    }
+
+    /**
+     * @notice Brings the reward per token accumulator up to date and accrues
+     * the rewards earned by the given staker since his last accrual
+     * @dev Must be called before any change to the staker's weightedAmount or to totalWeightedStake
+     * @param _stakerAddress Address of the staker
+     */
+    function _accrueRewards(address _stakerAddress) private {
+        uint256 _rewardPerToken = _updateRewardPerToken();
+
+        Staker storage staker = stakers[_stakerAddress];
+        staker.accruedRewards +=
+            (staker.weightedAmount *
+                (_rewardPerToken - staker.rewardPerTokenPaid)) /
+            PRECISION;
+        staker.rewardPerTokenPaid = _rewardPerToken;
+
+        for (uint256 i = 0; i < extraRewardTokens.length; i++) {
+            address token = extraRewardTokens[i];
+            uint256 tokenRewardPerToken = rewardTokenInfo[token]
+                .rewardPerTokenStored;
+            accruedTokenRewards[_stakerAddress][token] +=
+                (staker.weightedAmount *
+                    (tokenRewardPerToken -
+                        tokenRewardPerTokenPaid[_stakerAddress][token])) /
+                PRECISION;
+            tokenRewardPerTokenPaid[_stakerAddress][
+                token
+            ] = tokenRewardPerToken;
+        }
+    }
 
-        emit RewardUpdated(msg.sender, staker.rewardsUpdated);
+    /**
+     * @notice Returns the value of a reward per token accumulator brought up to now
+     * @param _rewardPerTokenStored The accumulator value at the last accrual
+     * @param _rewardRate The reward rate per epoch of the accumulator's token
+     * @return uint256 The reward per token, scaled by PRECISION
+     */
+    function _rewardPerTokenOf(
+        uint256 _rewardPerTokenStored,
+        uint256 _rewardRate
+    ) private view returns (uint256) {
+        uint256 _totalWeightedStake = totalWeightedStake;
+        if (_totalWeightedStake == 0) {
+            return _rewardPerTokenStored;
+        }
+        return
+            _rewardPerTokenStored +
+            ((block.timestamp - lastAccrualTime) *
+                _rewardRate *
+                1e18 *
+                PRECISION) /
+            (epochLength * _totalWeightedStake);
+    }
+
+    /**
+     * @notice Returns the rewards accumulated per weighted staked token up to now
+     * @dev Every epoch the stakers share rewardRate * 1e18 tokens, proportionally to their weighted stake
+     * @return uint256 The reward per token, scaled by PRECISION
+     */
+    function rewardPerToken() public view returns (uint256) {
+        return _rewardPerTokenOf(rewardPerTokenStored, rewardRate);
+    }
+
+    /**
+     * @notice Returns the rewards of an extra reward token the staker has earned and not claimed yet
+     * @param stakerAddress Address of the staker
+     * @param token Address of the reward token
+     * @return uint256 The staker's unclaimed rewards of the token
+     */
+    function earnedRewardToken(
+        address stakerAddress,
+        address token
+    ) public view returns (uint256) {
+        RewardTokenInfo memory info = rewardTokenInfo[token];
+        return
+            accruedTokenRewards[stakerAddress][token] +
+            (stakers[stakerAddress].weightedAmount *
+                (_rewardPerTokenOf(info.rewardPerTokenStored, info.rewardRate) -
+                    tokenRewardPerTokenPaid[stakerAddress][token])) /
+            PRECISION;
+    }
+
+    /**
+     * @notice Returns the staker's unclaimed rewards of every reward token
+     * @param stakerAddress Address of the staker
+     * @return tokens The reward token followed by the extra reward tokens
+     * @return amounts The staker's unclaimed rewards of each token, see earned and earnedRewardToken
+     */
+    function getPendingRewards(
+        address stakerAddress
+    )
+        external
+        view
+        returns (address[] memory tokens, uint256[] memory amounts)
+    {
+        tokens = new address[](extraRewardTokens.length + 1);
+        amounts = new uint256[](extraRewardTokens.length + 1);
+        tokens[0] = address(rewardToken);
+        amounts[0] = earned(stakerAddress);
+        for (uint256 i = 0; i < extraRewardTokens.length; i++) {
+            tokens[i + 1] = extraRewardTokens[i];
+            amounts[i + 1] = earnedRewardToken(
+                stakerAddress,
+                extraRewardTokens[i]
+            );
+        }
+    }
+
+    /**
+     * @notice Returns all the rewards the staker has earned and not claimed yet,
+     * including the ones that haven't been moved to the pending rewards by updateReward
+     * @param stakerAddress Address of the staker
+     * @return uint256 The staker's unclaimed rewards
+     */
+    function earned(address stakerAddress) public view returns (uint256) {
+        Staker storage staker = stakers[stakerAddress];
+        return
+            staker.pendingRewards +
+            staker.accruedRewards +
+            (staker.weightedAmount *
+                (rewardPerToken() - staker.rewardPerTokenPaid)) /
+            PRECISION;
+    }
+
+    /**
+     * @notice Returns whether the staker can unstake right now
+     * @param stakerAddress Address of the staker
+     * @return allowed True if unstake wouldn't revert because of the staker's state
+     * @return reason Selector of the custom error unstake would revert with, 0 when allowed
+     * @return unlockTime Timestamp from which the lock period allows unstaking, 0 without a stake
+     */
+    function canUnstake(
+        address stakerAddress
+    ) external view returns (bool allowed, bytes4 reason, uint256 unlockTime) {
+        Staker storage staker = stakers[stakerAddress];
+        if (staker.amountStaked == 0) {
+            return (false, Staking__NoStakedAmount.selector, 0);
+        }
+        unlockTime = staker.lastStakeTime + lockPeriod;
+        if (block.timestamp < unlockTime) {
+            return (false, Staking__UnstakeNotAllowed.selector, unlockTime);
+        }
+        if (unbondingPeriod != 0) {
+            return (false, Staking__UnbondingRequired.selector, unlockTime);
+        }
+        // everything is locked in positions, see unstakePosition
+        if (staker.amountStaked == staker.lockedAmount) {
+            return (false, Staking__AmountExceedsStake.selector, unlockTime);
+        }
+        return (true, bytes4(0), unlockTime);
+    }
+
+    /**
+     * @notice Returns whether the staker can restake right now
+     * @param stakerAddress Address of the staker
+     * @return allowed True if restake wouldn't revert because of the staker's state, the reward token
+     * or the reward reserve
+     * @return reason Selector of the custom error restake would revert with, 0 when allowed
+     * @return unlockTime Timestamp from which the lock period allows restaking, 0 without a stake
+     */
+    function canRestake(
+        address stakerAddress
+    ) external view returns (bool allowed, bytes4 reason, uint256 unlockTime) {
+        Staker storage staker = stakers[stakerAddress];
+        if (staker.amountStaked == 0) {
+            return (false, Staking__NoStakedAmount.selector, 0);
+        }
+        unlockTime = staker.lastStakeTime + lockPeriod;
+        if (!staker.rewardsUpdated) {
+            return (false, Staking__RewardsNotUpdated.selector, unlockTime);
+        }
+        if (block.timestamp < unlockTime) {
+            return (false, Staking__RestakeNotAllowed.selector, unlockTime);
+        }
+        if (rewardToken != stakedToken) {
+            return (false, Staking__RestakeUnsupported.selector, unlockTime);
+        }
+        if (staker.pendingRewards > rewardReserve) {
+            return (
+                false,
+                Staking__InsufficientRewardReserve.selector,
+                unlockTime
+            );
+        }
+        return (true, bytes4(0), unlockTime);
+    }
+
+    /**
+     * @notice Returns whether the staker can update his rewards right now
+     * @param stakerAddress Address of the staker
+     * @return allowed True if updateReward wouldn't revert
+     * @return reason Selector of the custom error updateReward would revert with, 0 when allowed
+     * @return unlockTime Timestamp from which the staker can update his rewards, 0 without a stake
+     */
+    function canUpdateReward(
+        address stakerAddress
+    ) external view returns (bool allowed, bytes4 reason, uint256 unlockTime) {
+        Staker storage staker = stakers[stakerAddress];
+        if (staker.amountStaked == 0) {
+            return (false, Staking__NoStakedAmount.selector, 0);
+        }
+        uint256 firstUpdateTime = staker.firstStakeTime + epochLength;
+        uint256 nextUpdateTime = staker.lastUpdateTime + epochLength;
+        if (block.timestamp < firstUpdateTime) {
+            return (
+                false,
+                Staking__UpdateNotEligible.selector,
+                firstUpdateTime
+            );
+        }
+        if (block.timestamp < nextUpdateTime) {
+            return (false, Staking__ClaimOncePerDay.selector, nextUpdateTime);
+        }
+        return (
+            true,
+            bytes4(0),
+            firstUpdateTime > nextUpdateTime ? firstUpdateTime : nextUpdateTime
+        );
+    }
+
+    /**
+     * @notice Returns the rewards updateReward would add to the staker's pending rewards right now
+     * @dev Only credited if canUpdateReward allows it
+     * @param stakerAddress Address of the staker
+     * @return uint256 The rewards accrued since the staker's last update
+     */
+    function previewReward(
+        address stakerAddress
+    ) external view returns (uint256) {
+        return earned(stakerAddress) - stakers[stakerAddress].pendingRewards;
     }
 
     /**
@@ -325,8 +2005,58 @@ contract Staking {
     }
 
     /**
-     * @notice Returns the current daily reward rate
-     * @return uint256 The daily reward rate
+     * @notice Returns whether the operator can stake, update, claim and restake for the staker
+     * @param staker Address of the staker
+     * @param operator Address of the operator
+     * @return bool True if the staker approved the operator, or if they are the same address
+     */
+    function isOperator(
+        address staker,
+        address operator
+    ) public view returns (bool) {
+        return operator == staker || operators[staker][operator];
+    }
+
+    /**
+     * @notice Returns the number of addresses with a staked amount
+     * @return uint256 The number of active stakers
+     */
+    function stakerCount() external view returns (uint256) {
+        return activeStakers.length();
+    }
+
+    /**
+     * @notice Returns a page of the active stakers with their information
+     * @dev The order of the stakers changes when one of them unstakes everything,
+     * so pages read in different blocks can skip or repeat stakers
+     * @param offset Index of the first staker of the page
+     * @param limit Maximum number of stakers returned, capped at MAX_STAKERS_PAGE_SIZE
+     * @return entries StakerEntry[] memory array of the page's stakers, empty past the last staker
+     */
+    function getStakers(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (StakerEntry[] memory entries) {
+        uint256 count = activeStakers.length();
+        if (offset >= count) {
+            return entries;
+        }
+        if (limit > MAX_STAKERS_PAGE_SIZE) {
+            limit = MAX_STAKERS_PAGE_SIZE;
+        }
+        if (limit > count - offset) {
+            limit = count - offset;
+        }
+        entries = new StakerEntry[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            address stakerAddress = activeStakers.at(offset + i);
+            entries[i] = StakerEntry(stakerAddress, stakers[stakerAddress]);
+        }
+    }
+
+    /**
+     * @notice Returns the current reward rate per epoch
+     * @return uint256 The reward rate per epoch
      */
     function getRewardRate() external view returns (uint256) {
         return rewardRate;
@@ -339,4 +2069,106 @@ contract Staking {
     function getTotalStaked() external view returns (uint256) {
         return totalStaked;
     }
+
+    /**
+     * @notice Returns the amount of tokens available to pay rewards
+     * @return uint256 The reward reserve
+     */
+    function getRewardReserve() external view returns (uint256) {
+        return rewardReserve;
+    }
+
+    /**
+     * @notice Returns how many full days of rewards the reserve covers at the current rate
+     * @dev Every epoch the stakers share rewardRate * 1e18 tokens, see rewardPerToken
+     * @return uint256 The number of days covered by the reward reserve
+     */
+    function getRewardReserveDays() external view returns (uint256) {
+        return (rewardReserve * epochLength) / (rewardRate * 1e18 * 1 days);
+    }
+
+    /**
+     * @notice Returns the minimum time between a stake and an unstake or restake
+     * @return uint256 The lock period in seconds
+     */
+    function getLockPeriod() external view returns (uint256) {
+        return lockPeriod;
+    }
+
+    /**
+     * @notice Returns the length of a reward epoch
+     * @return uint256 The epoch length in seconds
+     */
+    function getEpochLength() external view returns (uint256) {
+        return epochLength;
+    }
+
+    /**
+     * @notice Returns the available lock tiers
+     * @return Tier[] memory array of lock tiers, indexed by tier id
+     */
+    function getTiers() external view returns (Tier[] memory) {
+        return tiers;
+    }
+
+    /**
+     * @notice Returns all the positions opened by the given staker, including the closed ones
+     * @param stakerAddress Address of the staker
+     * @return Position[] memory array of positions, indexed by position id
+     */
+    function getPositions(
+        address stakerAddress
+    ) external view returns (Position[] memory) {
+        return positions[stakerAddress];
+    }
+
+    /**
+     * @notice Returns all the unstake requests made by the given staker, including the closed ones
+     * @param stakerAddress Address of the staker
+     * @return UnbondingRequest[] memory array of unstake requests, indexed by request id
+     */
+    function getUnbondingRequests(
+        address stakerAddress
+    ) external view returns (UnbondingRequest[] memory) {
+        return unbondingRequests[stakerAddress];
+    }
+
+    /**
+     * @notice Returns the staker's tokens waiting in the unbonding queue
+     * @param stakerAddress Address of the staker
+     * @return pending The amount of tokens of the open unstake requests
+     * @return withdrawable The part of pending that withdraw would return right now
+     */
+    function getUnbondingAmounts(
+        address stakerAddress
+    ) external view returns (uint256 pending, uint256 withdrawable) {
+        UnbondingRequest[] memory requests = unbondingRequests[stakerAddress];
+        for (uint256 i = 0; i < requests.length; i++) {
+            if (!requests[i].closed) {
+                pending += requests[i].amount;
+                if (block.timestamp >= requests[i].unlockTime) {
+                    withdrawable += requests[i].amount;
+                }
+            }
+        }
+    }
+
+    /**
+     * @notice Returns the extra reward tokens
+     * @return address[] memory array of extra reward token addresses, in the order they were added
+     */
+    function getRewardTokens() external view returns (address[] memory) {
+        return extraRewardTokens;
+    }
+
+    /**
+     * @notice Returns the rate, reserve and accumulator of an extra reward token
+     * @param token Address of the reward token
+     * @return RewardTokenInfo memory struct containing the token information
+     */
+    function getRewardTokenInfo(
+        address token
+    ) external view returns (RewardTokenInfo memory) {
+        return rewardTokenInfo[token];
+    }
 }
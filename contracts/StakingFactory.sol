@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+error StakingFactory__InvalidCode();
+error StakingFactory__InvalidPool();
+error StakingFactory__NotPoolAdmin();
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./Staking.sol";
+
+/**
+ * @title StakingFactory
+ * @author mirceap24
+ * @notice Deploys Staking pools and keeps the on-chain registry of every pool it deployed, with
+ * its tokens, creator and metadata. The roles of a new pool are handed over to its creator.
+ * @dev Staking sets its parameters in its constructor and keeps them in immutables, so pools
+ * can't be clones and are full deployments. Its creation code is too large to be part of the
+ * factory's runtime code, so it is passed to createPool, which only deploys the creation code
+ * whose hash was recorded when the factory was deployed
+ */
+contract StakingFactory is AccessControl {
+    bytes32 public constant POOL_CREATOR_ROLE = keccak256("POOL_CREATOR_ROLE");
+
+    /**
+     * @notice Hash of the Staking creation code the pools are deployed from
+     */
+    bytes32 public immutable stakingCodeHash;
+
+    /**
+     * @notice Address of the ERC-2771 forwarder trusted by the pools, address 0 disables meta-transactions
+     */
+    address public immutable trustedForwarder;
+
+    /**
+     * @notice Struct of the parameters of a new pool, passed to the Staking constructor
+     * @param stakedToken Address of the staked ERC20 token
+     * @param rewardToken Address of the ERC20 token the rewards are paid in
+     * @param rewardRate Reward rate per epoch
+     * @param lockPeriod Minimum time (in seconds) between a stake and an unstake or restake
+     * @param epochLength Length (in seconds) of a reward epoch
+     */
+    struct PoolParams {
+        address stakedToken;
+        address rewardToken;
+        uint256 rewardRate;
+        uint256 lockPeriod;
+        uint256 epochLength;
+    }
+
+    /**
+     * @notice Struct to store a registered pool
+     * @param pool Address of the Staking pool
+     * @param stakedToken Address of the pool's staked token
+     * @param rewardToken Address of the pool's reward token
+     * @param creator The address that created the pool and received its roles
+     * @param createdAt Timestamp when the pool was created
+     * @param metadata Free-form description of the pool, e.g. its name or a JSON document
+     */
+    struct Pool {
+        Staking pool;
+        address stakedToken;
+        address rewardToken;
+        address creator;
+        uint64 createdAt;
+        string metadata;
+    }
+
+    /**
+     * @notice Registered pools, the pool id is the index
+     */
+    Pool[] private pools;
+
+    /**
+     * @notice Ids of the pools of every staked token
+     */
+    mapping(address => uint256[]) private poolIdsByToken;
+
+    /**
+     * @notice Mapping to tell if an address is a pool deployed by the factory
+     */
+    mapping(address => bool) public isPool;
+
+    /**
+     * @notice Emitted when a pool is created
+     * @param poolId Id of the pool in the registry
+     * @param pool Address of the Staking pool
+     * @param stakedToken Address of the pool's staked token
+     * @param rewardToken Address of the pool's reward token
+     * @param creator The address that created the pool and received its roles
+     * @param metadata Description of the pool
+     */
+    event PoolCreated(
+        uint256 indexed poolId,
+        address indexed pool,
+        address indexed stakedToken,
+        address rewardToken,
+        address creator,
+        string metadata
+    );
+
+    /**
+     * @notice Emitted when the metadata of a pool is updated
+     * @param poolId Id of the pool in the registry
+     * @param metadata New description of the pool
+     */
+    event PoolMetadataUpdated(uint256 indexed poolId, string metadata);
+
+    /**
+     * @notice Creates a new StakingFactory contract
+     * @dev The Staking creation code is only part of the factory's creation code, to record its hash
+     * @param _trustedForwarder Address of the ERC-2771 forwarder trusted by the pools,
+     * address 0 disables meta-transactions
+     */
+    constructor(address _trustedForwarder) {
+        stakingCodeHash = keccak256(type(Staking).creationCode);
+        trustedForwarder = _trustedForwarder;
+
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(POOL_CREATOR_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Deploys a Staking pool, registers it and hands its roles over to the caller
+     * @dev Reverts with the Staking constructor errors when the parameters are invalid
+     * @param _stakingCode Creation code of Staking, the bytecode of its compiled artifact
+     * @param _params Parameters of the pool
+     * @param _metadata Description of the pool
+     * @return poolId Id of the pool in the registry
+     * @return pool Address of the Staking pool
+     */
+    function createPool(
+        bytes calldata _stakingCode,
+        PoolParams calldata _params,
+        string calldata _metadata
+    )
+        external
+        onlyRole(POOL_CREATOR_ROLE)
+        returns (uint256 poolId, Staking pool)
+    {
+        // CHECKS
+        if (keccak256(_stakingCode) != stakingCodeHash) {
+            revert StakingFactory__InvalidCode();
+        }
+
+        // INTERACTIONS
+        bytes memory initCode = bytes.concat(
+            _stakingCode,
+            abi.encode(
+                _params.stakedToken,
+                _params.rewardToken,
+                _params.rewardRate,
+                _params.lockPeriod,
+                _params.epochLength,
+                trustedForwarder
+            )
+        );
+        assembly {
+            pool := create(0, add(initCode, 0x20), mload(initCode))
+        }
+        if (address(pool) == address(0)) {
+            // bubbles up the revert reason of the Staking constructor
+            assembly {
+                returndatacopy(0, 0, returndatasize())
+                revert(0, returndatasize())
+            }
+        }
+        _handOverRoles(pool, msg.sender);
+
+        // EFFECTS
+        poolId = pools.length;
+        pools.push(
+            Pool(
+                pool,
+                _params.stakedToken,
+                _params.rewardToken,
+                msg.sender,
+                uint64(block.timestamp),
+                _metadata
+            )
+        );
+        poolIdsByToken[_params.stakedToken].push(poolId);
+        isPool[address(pool)] = true;
+        emit PoolCreated(
+            poolId,
+            address(pool),
+            _params.stakedToken,
+            _params.rewardToken,
+            msg.sender,
+            _metadata
+        );
+    }
+
+    /**
+     * @notice Updates the metadata of a pool, only the pool's admins can update it
+     * @param _poolId Id of the pool in the registry
+     * @param _metadata New description of the pool
+     */
+    function setPoolMetadata(
+        uint256 _poolId,
+        string calldata _metadata
+    ) external {
+        Pool storage pool = _getPool(_poolId);
+
+        // CHECKS
+        if (!pool.pool.hasRole(pool.pool.DEFAULT_ADMIN_ROLE(), msg.sender)) {
+            revert StakingFactory__NotPoolAdmin();
+        }
+
+        // EFFECTS
+        pool.metadata = _metadata;
+        emit PoolMetadataUpdated(_poolId, _metadata);
+    }
+
+    /**
+     * @notice Returns a registered pool
+     * @param _poolId Id of the pool in the registry
+     * @return Pool memory The pool's information
+     */
+    function getPool(uint256 _poolId) external view returns (Pool memory) {
+        return _getPool(_poolId);
+    }
+
+    /**
+     * @notice Returns every registered pool, indexed by pool id
+     * @return Pool[] memory Array of the pools
+     */
+    function getPools() external view returns (Pool[] memory) {
+        return pools;
+    }
+
+    /**
+     * @notice Returns the ids of the pools of a staked token
+     * @param _stakedToken Address of the staked token
+     * @return uint256[] memory Array of the pool ids, in creation order
+     */
+    function getPoolIds(
+        address _stakedToken
+    ) external view returns (uint256[] memory) {
+        return poolIdsByToken[_stakedToken];
+    }
+
+    /**
+     * @notice Returns the number of registered pools
+     * @return uint256 The number of pools
+     */
+    function poolCount() external view returns (uint256) {
+        return pools.length;
+    }
+
+    /**
+     * @notice Grants the roles of a new pool to its creator and renounces the factory's
+     * @param _pool Address of the Staking pool
+     * @param _creator The address that created the pool
+     */
+    function _handOverRoles(Staking _pool, address _creator) private {
+        bytes32[3] memory roles = [
+            _pool.RATE_MANAGER_ROLE(),
+            _pool.PAUSER_ROLE(),
+            _pool.DEFAULT_ADMIN_ROLE()
+        ];
+        for (uint256 i = 0; i < roles.length; i++) {
+            _pool.grantRole(roles[i], _creator);
+            _pool.renounceRole(roles[i], address(this));
+        }
+    }
+
+    /**
+     * @notice Returns a registered pool
+     * @param _poolId Id of the pool in the registry
+     * @return pool Pool storage pointer to the pool
+     */
+    function _getPool(
+        uint256 _poolId
+    ) private view returns (Pool storage pool) {
+        if (_poolId >= pools.length) {
+            revert StakingFactory__InvalidPool();
+        }
+        pool = pools[_poolId];
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+import "@openzeppelin/contracts/metatx/MinimalForwarder.sol";
+
+/**
+ * @title StakingForwarder
+ * @author mirceap24
+ * @notice ERC-2771 forwarder trusted by Staking. Relayers submit the ForwardRequests
+ * signed by the users and pay the gas, and Staking sees the signer as the caller.
+ */
+contract StakingForwarder is MinimalForwarder {}
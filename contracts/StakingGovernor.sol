@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+import "@openzeppelin/contracts/governance/Governor.sol";
+import "@openzeppelin/contracts/governance/extensions/GovernorSettings.sol";
+import "@openzeppelin/contracts/governance/extensions/GovernorCountingSimple.sol";
+import "@openzeppelin/contracts/governance/extensions/GovernorVotes.sol";
+import "@openzeppelin/contracts/governance/extensions/GovernorVotesQuorumFraction.sol";
+
+/**
+ * @title StakingGovernor
+ * @author mirceap24
+ * @notice An OpenZeppelin Governor whose voting power is the staked balance, read from the
+ * StakeReceipt checkpoints at the proposal's snapshot block
+ * @dev Voting delay and period are in blocks, like the receipt checkpoints. The proposals execute
+ * from the governor itself, which needs the roles of the calls it makes, e.g. RATE_MANAGER_ROLE on Staking
+ */
+contract StakingGovernor is
+    Governor,
+    GovernorSettings,
+    GovernorCountingSimple,
+    GovernorVotes,
+    GovernorVotesQuorumFraction
+{
+    /**
+     * @notice Creates a new StakingGovernor contract
+     * @param _receipt Address of the Staking receipt token, see Staking.receipt
+     * @param _votingDelay Blocks between a proposal and the start of its vote, the snapshot is taken when the vote starts
+     * @param _votingPeriod Blocks the vote lasts
+     * @param _proposalThreshold Votes needed to create a proposal
+     * @param _quorumPercent Percentage of the total staked at the snapshot that must vote for or abstain
+     */
+    constructor(
+        IVotes _receipt,
+        uint256 _votingDelay,
+        uint256 _votingPeriod,
+        uint256 _proposalThreshold,
+        uint256 _quorumPercent
+    )
+        Governor("StakingGovernor")
+        GovernorSettings(_votingDelay, _votingPeriod, _proposalThreshold)
+        GovernorVotes(_receipt)
+        GovernorVotesQuorumFraction(_quorumPercent)
+    {}
+
+    function votingDelay()
+        public
+        view
+        override(IGovernor, GovernorSettings)
+        returns (uint256)
+    {
+        return super.votingDelay();
+    }
+
+    function votingPeriod()
+        public
+        view
+        override(IGovernor, GovernorSettings)
+        returns (uint256)
+    {
+        return super.votingPeriod();
+    }
+
+    function quorum(
+        uint256 blockNumber
+    )
+        public
+        view
+        override(IGovernor, GovernorVotesQuorumFraction)
+        returns (uint256)
+    {
+        return super.quorum(blockNumber);
+    }
+
+    function proposalThreshold()
+        public
+        view
+        override(Governor, GovernorSettings)
+        returns (uint256)
+    {
+        return super.proposalThreshold();
+    }
+}
@@ -0,0 +1,253 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+error StakingVault__RewardTokenNotStaked();
+error StakingVault__ZeroShares();
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./Staking.sol";
+
+/**
+ * @title StakingVault
+ * @author mirceap24
+ * @notice An ERC4626 vault on top of Staking. The vault mints transferable shares for the deposits,
+ * and the permissionless harvest compounds the vault's rewards for every share holder.
+ * @dev The deposits stay idle until the next harvest, which stakes the idle balance as a batch in a
+ * position of the flexible tier. Every batch has its own unlock time, so new deposits never delay
+ * the withdrawal of the assets staked before them. Withdrawals pay from the idle balance first and
+ * then unstake the unlocked batches, oldest first, see maxWithdraw and maxRedeem.
+ * The idle and staked assets are tracked by the vault, so tokens sent to it directly don't change
+ * the share price, and deposits worth less than one share revert.
+ * While the Staking unbonding queue is enabled only the idle assets can be withdrawn, since the
+ * unstaked batches would wait in the queue
+ */
+contract StakingVault is ERC4626 {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Address of the Staking contract the deposits are staked in
+     */
+    Staking public immutable staking;
+
+    /**
+     * @notice Struct to store a batch of assets staked by harvest, the batch id is the id of its Staking position
+     * @param amount Amount of assets staked in the batch
+     * @param unlockTime Timestamp from which the batch can be unstaked
+     */
+    struct Batch {
+        uint256 amount;
+        uint256 unlockTime;
+    }
+
+    /**
+     * @notice Batches staked by the vault, indexed by batch id
+     */
+    Batch[] private batches;
+
+    /**
+     * @notice Id of the oldest batch that hasn't been unstaked, the batches unlock in the order they were staked
+     */
+    uint256 public nextBatchId;
+
+    /**
+     * @notice Assets deposited, claimed or unstaked by the vault that haven't been staked or withdrawn yet
+     */
+    uint256 public idleAssets;
+
+    /**
+     * @notice Assets of the batches that haven't been unstaked yet
+     */
+    uint256 public stakedAssets;
+
+    /**
+     * @notice Emitted when the vault's rewards are compounded
+     * @param caller The address that called harvest
+     * @param rewards Amount of rewards claimed
+     * @param staked Amount of idle assets staked as a new batch, including the rewards
+     */
+    event Harvested(address indexed caller, uint256 rewards, uint256 staked);
+
+    /**
+     * @notice Creates a new StakingVault contract
+     * @param _staking Address of the Staking contract, its rewards must be paid in the staked token
+     * @param _name Name of the share token
+     * @param _symbol Symbol of the share token
+     */
+    constructor(
+        Staking _staking,
+        string memory _name,
+        string memory _symbol
+    ) ERC4626(_staking.stakedToken()) ERC20(_name, _symbol) {
+        if (_staking.rewardToken() != _staking.stakedToken()) {
+            revert StakingVault__RewardTokenNotStaked();
+        }
+        staking = _staking;
+        IERC20(asset()).safeApprove(address(_staking), type(uint256).max);
+    }
+
+    /**
+     * @notice Compounds the vault's rewards and stakes the idle assets as a new batch, anyone can call it
+     * once per epoch while the vault has a stake
+     * @dev Claiming and staking the rewards takes two transfers instead of restake's three.
+     * Without a stake there are no rewards to claim, and the deposits are staked right away.
+     * The rewards are left unclaimed while the reward reserve can't pay them, so the idle assets
+     * can still be staked
+     * @return rewards Amount of rewards claimed
+     */
+    function harvest() external returns (uint256 rewards) {
+        if (
+            staking.getStaker(address(this)).amountStaked > 0 &&
+            staking.earned(address(this)) <= staking.rewardReserve()
+        ) {
+            staking.updateReward();
+            rewards = staking.getStaker(address(this)).pendingRewards;
+            staking.claimReward();
+        }
+        uint256 idle = idleAssets + rewards;
+        idleAssets = 0;
+        if (idle > 0) {
+            stakedAssets += idle;
+            batches.push(Batch(idle, block.timestamp + staking.lockPeriod()));
+            staking.stakeInTier(idle, 0);
+        }
+        emit Harvested(msg.sender, rewards, idle);
+    }
+
+    /**
+     * @notice Deposits the assets and mints their shares, reverts when they are worth less than one share
+     */
+    function deposit(
+        uint256 assets,
+        address receiver
+    ) public override returns (uint256) {
+        if (previewDeposit(assets) == 0) {
+            revert StakingVault__ZeroShares();
+        }
+        return super.deposit(assets, receiver);
+    }
+
+    /**
+     * @notice Mints the shares for their assets, reverts when no shares are minted
+     */
+    function mint(
+        uint256 shares,
+        address receiver
+    ) public override returns (uint256) {
+        if (shares == 0) {
+            revert StakingVault__ZeroShares();
+        }
+        return super.mint(shares, receiver);
+    }
+
+    /**
+     * @notice Returns the batches staked by the vault, including the ones already unstaked
+     * @return Batch[] memory Array of the batches, indexed by batch id
+     */
+    function getBatches() external view returns (Batch[] memory) {
+        return batches;
+    }
+
+    /**
+     * @notice Returns the assets managed by the vault, including the rewards that haven't been harvested yet
+     * @return uint256 The staked and idle assets of the vault and its unclaimed rewards, up to the reward reserve
+     */
+    function totalAssets() public view override returns (uint256) {
+        return
+            stakedAssets +
+            Math.min(staking.earned(address(this)), staking.rewardReserve()) +
+            idleAssets;
+    }
+
+    /**
+     * @notice Returns 0 while Staking is paused, since the deposits couldn't be staked
+     */
+    function maxDeposit(
+        address receiver
+    ) public view override returns (uint256) {
+        return staking.paused() ? 0 : super.maxDeposit(receiver);
+    }
+
+    /**
+     * @notice Returns 0 while Staking is paused, since the deposits couldn't be staked
+     */
+    function maxMint(address receiver) public view override returns (uint256) {
+        return staking.paused() ? 0 : super.maxMint(receiver);
+    }
+
+    /**
+     * @notice Returns the assets the owner can withdraw now, limited by the vault's idle balance
+     * and its unlocked batches
+     */
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        return Math.min(super.maxWithdraw(owner), _availableAssets());
+    }
+
+    /**
+     * @notice Returns the shares the owner can redeem now, limited by the vault's idle balance
+     * and its unlocked batches
+     */
+    function maxRedeem(address owner) public view override returns (uint256) {
+        return
+            Math.min(
+                super.maxRedeem(owner),
+                _convertToShares(_availableAssets(), Math.Rounding.Down)
+            );
+    }
+
+    /**
+     * @notice Adds the deposited assets to the idle assets
+     */
+    function _deposit(
+        address caller,
+        address receiver,
+        uint256 assets,
+        uint256 shares
+    ) internal override {
+        idleAssets += assets;
+        super._deposit(caller, receiver, assets, shares);
+    }
+
+    /**
+     * @notice Unstakes the oldest batches until the idle assets cover the withdrawn assets,
+     * what they return beyond it stays idle until the next harvest
+     */
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override {
+        uint256 idle = idleAssets;
+        while (idle < assets) {
+            uint256 batchId = nextBatchId++;
+            uint256 amount = batches[batchId].amount;
+            idle += amount;
+            stakedAssets -= amount;
+            staking.unstakePosition(batchId);
+        }
+        idleAssets = idle - assets;
+        super._withdraw(caller, receiver, owner, assets, shares);
+    }
+
+    /**
+     * @notice Returns the assets the vault can pay out now
+     * @return available The idle assets, plus the unlocked batches if the unbonding queue is disabled
+     */
+    function _availableAssets() private view returns (uint256 available) {
+        available = idleAssets;
+        if (staking.unbondingPeriod() != 0) {
+            return available;
+        }
+        for (
+            uint256 batchId = nextBatchId;
+            batchId < batches.length &&
+                block.timestamp >= batches[batchId].unlockTime;
+            batchId++
+        ) {
+            available += batches[batchId].amount;
+        }
+    }
+}
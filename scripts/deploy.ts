@@ -1,19 +1,186 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 
-async function main() {
-  const currentTimestampInSeconds = Math.round(Date.now() / 1000);
-  const unlockTime = currentTimestampInSeconds + 60;
+import { StakingRegistry } from "../src/sdk";
+import { MyToken1, Staking, StakingFactory } from "../typechain-types";
+import { loadNetworkConfig } from "./lib/config";
+import {
+  DeploymentRecord,
+  readDeployments,
+  writeDeployments,
+} from "./lib/deployments";
+
+/**
+ * Deploys a contract, or reuses the one already recorded for this network
+ * as long as there is still code at the recorded address
+ */
+async function deployOrReuse(
+  record: DeploymentRecord,
+  name: string,
+  args: unknown[]
+) {
+  const existing = record.contracts[name];
+  if (existing && (await ethers.provider.getCode(existing.address)) !== "0x") {
+    console.log(`Reusing ${name} at ${existing.address}`);
+    return ethers.getContractAt(name, existing.address);
+  }
+
+  const factory = await ethers.getContractFactory(name);
+  const contract = await factory.deploy(...args);
+  const receipt = await contract.deployTransaction.wait();
+
+  record.contracts[name] = {
+    address: contract.address,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    args,
+  };
+  writeDeployments(record);
 
-  const lockedAmount = ethers.utils.parseEther("0.001");
+  console.log(`Deployed ${name} at ${contract.address}`);
+  return contract;
+}
+
+async function grantRoleIfMissing(
+  contract: MyToken1 | Staking,
+  role: string,
+  roleName: string,
+  accounts: string[] = []
+) {
+  for (const account of accounts) {
+    if (!(await contract.hasRole(role, account))) {
+      await (await contract.grantRole(role, account)).wait();
+      console.log(`Granted ${roleName} to ${account} on ${contract.address}`);
+    }
+  }
+}
 
-  const Lock = await ethers.getContractFactory("Lock");
-  const lock = await Lock.deploy(unlockTime, { value: lockedAmount });
+async function main() {
+  const config = loadNetworkConfig(network.name);
+  const { chainId } = await ethers.provider.getNetwork();
+  const record = readDeployments(network.name, chainId);
 
-  await lock.deployed();
+  const myToken1 = (await deployOrReuse(record, "MyToken1", [])) as MyToken1;
+  const forwarder = await deployOrReuse(record, "StakingForwarder", []);
+  const staking = (await deployOrReuse(record, "Staking", [
+    myToken1.address,
+    myToken1.address,
+    config.rewardRate,
+    config.lockPeriod,
+    config.epochLength,
+    forwarder.address,
+  ])) as Staking;
+  await deployOrReuse(record, "StakingVault", [
+    staking.address,
+    "Staked MyToken1 Vault",
+    "vMTK1",
+  ]);
+  await deployOrReuse(record, "MerkleDistributor", [staking.address]);
+  const factory = (await deployOrReuse(record, "StakingFactory", [
+    forwarder.address,
+  ])) as StakingFactory;
 
-  console.log(
-    `Lock with ${ethers.utils.formatEther(lockedAmount)}ETH and unlock timestamp ${unlockTime} deployed to ${lock.address}`
+  // ROLES
+  await grantRoleIfMissing(
+    myToken1,
+    await myToken1.MINTER_ROLE(),
+    "MINTER_ROLE",
+    config.roles?.minters
   );
+  await grantRoleIfMissing(
+    myToken1,
+    await myToken1.PAUSER_ROLE(),
+    "PAUSER_ROLE",
+    config.roles?.pausers
+  );
+  await grantRoleIfMissing(
+    myToken1,
+    await myToken1.BURNER_ROLE(),
+    "BURNER_ROLE",
+    config.roles?.burners
+  );
+  await grantRoleIfMissing(
+    staking,
+    await staking.RATE_MANAGER_ROLE(),
+    "RATE_MANAGER_ROLE",
+    config.stakingRoles?.rateManagers
+  );
+  await grantRoleIfMissing(
+    staking,
+    await staking.PAUSER_ROLE(),
+    "PAUSER_ROLE",
+    config.stakingRoles?.pausers
+  );
+
+  // TIERS
+  // Tiers can't be removed, so only the configured tiers that don't exist yet are added
+  const tiers = await staking.getTiers();
+  for (const tier of config.tiers ?? []) {
+    const exists = tiers.some(
+      (existing) =>
+        existing.lockDuration.eq(tier.lockDuration) &&
+        existing.multiplier.eq(tier.multiplier)
+    );
+    if (!exists) {
+      await (await staking.addTier(tier.lockDuration, tier.multiplier)).wait();
+      console.log(
+        `Added Staking tier locking for ${tier.lockDuration}s with a ${tier.multiplier} bps multiplier`
+      );
+    }
+  }
+
+  // UNBONDING
+  if (
+    config.unbondingPeriod !== undefined &&
+    !(await staking.unbondingPeriod()).eq(config.unbondingPeriod)
+  ) {
+    await (await staking.setUnbondingPeriod(config.unbondingPeriod)).wait();
+    console.log(
+      `Set the Staking unbonding period to ${config.unbondingPeriod}s`
+    );
+  }
+
+  // POOLS
+  // The pools are discovered through the factory's registry, so only the configured pools
+  // whose metadata isn't registered for MyToken1 yet are created
+  const [deployer] = await ethers.getSigners();
+  const registry = new StakingRegistry(factory, deployer);
+  const pools = await registry.getPoolsOf(myToken1.address);
+  for (const pool of config.pools ?? []) {
+    if (!pools.some((existing) => existing.metadata === pool.metadata)) {
+      const created = await registry.createPool(
+        {
+          stakedToken: myToken1.address,
+          rewardRate: pool.rewardRate,
+          lockPeriod: pool.lockPeriod,
+          epochLength: pool.epochLength,
+        },
+        pool.metadata
+      );
+      console.log(
+        `Created Staking pool ${created.poolId} "${pool.metadata}" at ${created.address}`
+      );
+    }
+  }
+
+  // REWARD RESERVE
+  // Only the difference to the configured reserve is minted and funded
+  if (config.rewardReserve) {
+    const decimals = await myToken1.decimals();
+    const target = ethers.utils.parseUnits(config.rewardReserve, decimals);
+    const reserve = await staking.rewardReserve();
+    if (reserve.lt(target)) {
+      const amount = target.sub(reserve);
+      await (await myToken1.mint(deployer.address, amount)).wait();
+      await (await myToken1.approve(staking.address, amount)).wait();
+      await (await staking.fundRewards(amount)).wait();
+      console.log(
+        `Funded Staking reward reserve with ${ethers.utils.formatUnits(
+          amount,
+          decimals
+        )} MTK1`
+      );
+    }
+  }
 }
 
 // We recommend this pattern to be able to use async/await everywhere
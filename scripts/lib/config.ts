@@ -0,0 +1,59 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Per-network deployment parameters, read from config/<network>.json
+ */
+export interface NetworkConfig {
+  // Reward rate per epoch passed to the Staking constructor
+  rewardRate: number;
+  // Lock period and epoch length (in seconds) passed to the Staking constructor
+  lockPeriod: number;
+  epochLength: number;
+  // Reward reserve (in whole tokens) the staking contract should hold, optional
+  rewardReserve?: string;
+  // Extra accounts that receive MyToken1 roles on deployment
+  roles?: {
+    minters?: string[];
+    pausers?: string[];
+    burners?: string[];
+  };
+  // Extra accounts that receive Staking roles on deployment
+  stakingRoles?: {
+    rateManagers?: string[];
+    pausers?: string[];
+  };
+  // Staking unbonding period (in seconds), 0 or missing keeps unstake immediate
+  unbondingPeriod?: number;
+  // Lock tiers added to Staking after the flexible tier, multiplier in basis points
+  tiers?: {
+    lockDuration: number;
+    multiplier: number;
+  }[];
+  // Extra Staking pools of MyToken1 created through StakingFactory, told apart by their metadata
+  pools?: {
+    metadata: string;
+    rewardRate: number;
+    lockPeriod: number;
+    epochLength: number;
+  }[];
+}
+
+export const CONFIG_DIR = path.join(__dirname, "..", "..", "config");
+
+export function loadNetworkConfig(networkName: string): NetworkConfig {
+  const configPath = path.join(CONFIG_DIR, `${networkName}.json`);
+  if (!fs.existsSync(configPath)) {
+    throw new Error(
+      `Missing deployment config for network "${networkName}" (${configPath})`
+    );
+  }
+
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  for (const key of ["rewardRate", "lockPeriod", "epochLength"]) {
+    if (!Number.isInteger(config[key]) || config[key] <= 0) {
+      throw new Error(`Invalid ${key} in ${configPath}`);
+    }
+  }
+  return config as NetworkConfig;
+}
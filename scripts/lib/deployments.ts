@@ -0,0 +1,60 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * A single deployed contract, as recorded in deployments/<network>.json
+ */
+export interface ContractDeployment {
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  args: unknown[];
+}
+
+export interface DeploymentRecord {
+  network: string;
+  chainId: number;
+  contracts: { [name: string]: ContractDeployment };
+}
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+/**
+ * Returns the directory of the deployment records, the DEPLOYMENTS_DIR environment variable
+ * overrides the repository's deployments/ directory
+ */
+export function deploymentsDir(): string {
+  return process.env.DEPLOYMENTS_DIR ?? DEPLOYMENTS_DIR;
+}
+
+export function deploymentPath(networkName: string): string {
+  return path.join(deploymentsDir(), `${networkName}.json`);
+}
+
+export function readDeployments(
+  networkName: string,
+  chainId: number
+): DeploymentRecord {
+  const recordPath = deploymentPath(networkName);
+  if (!fs.existsSync(recordPath)) {
+    return { network: networkName, chainId, contracts: {} };
+  }
+
+  const record = JSON.parse(
+    fs.readFileSync(recordPath, "utf8")
+  ) as DeploymentRecord;
+  if (record.chainId !== chainId) {
+    throw new Error(
+      `Deployment record ${recordPath} belongs to chain ${record.chainId}, connected to ${chainId}`
+    );
+  }
+  return record;
+}
+
+export function writeDeployments(record: DeploymentRecord) {
+  fs.mkdirSync(deploymentsDir(), { recursive: true });
+  fs.writeFileSync(
+    deploymentPath(record.network),
+    JSON.stringify(record, null, 2) + "\n"
+  );
+}
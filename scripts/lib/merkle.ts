@@ -0,0 +1,130 @@
+import { BigNumber, utils } from "ethers";
+
+export interface MerkleEntry {
+  address: string;
+  amount: BigNumber;
+}
+
+/**
+ * The proof of an account's claim, amounts are in the token's smallest unit
+ */
+export interface MerkleClaim {
+  amount: string;
+  proof: string[];
+}
+
+/**
+ * The proofs JSON of a campaign, the claims are keyed by checksummed address
+ */
+export interface MerkleDistribution {
+  merkleRoot: string;
+  total: string;
+  claims: { [address: string]: MerkleClaim };
+}
+
+/**
+ * Parses a CSV of address,amount lines, the amounts in whole tokens. A header line, empty lines
+ * and spaces are ignored, and invalid or duplicate addresses and amounts throw with their line number
+ */
+export function parseBalancesCsv(csv: string, decimals = 18): MerkleEntry[] {
+  const entries: MerkleEntry[] = [];
+  const seen = new Set<string>();
+  csv.split(/\r?\n/).forEach((line, i) => {
+    const [address, amount, ...rest] = line
+      .split(",")
+      .map((cell) => cell.trim());
+    if (!address || (i === 0 && !utils.isAddress(address))) {
+      return;
+    }
+    if (!utils.isAddress(address) || !amount || rest.length > 0) {
+      throw new Error(`Invalid line ${i + 1}: "${line}"`);
+    }
+    const checksummed = utils.getAddress(address);
+    if (seen.has(checksummed)) {
+      throw new Error(`Duplicate address ${checksummed} on line ${i + 1}`);
+    }
+    const parsed = utils.parseUnits(amount, decimals);
+    if (parsed.lte(0)) {
+      throw new Error(`Invalid amount ${amount} on line ${i + 1}`);
+    }
+    seen.add(checksummed);
+    entries.push({ address: checksummed, amount: parsed });
+  });
+  return entries;
+}
+
+/**
+ * Returns the leaf of an account's claim, MerkleDistributor hashes it the same way
+ */
+export function hashLeaf(address: string, amount: BigNumber): string {
+  return utils.keccak256(
+    utils.keccak256(
+      utils.defaultAbiCoder.encode(["address", "uint256"], [address, amount])
+    )
+  );
+}
+
+// Hashes the pair in sorted order, like OpenZeppelin's MerkleProof
+function hashPair(a: string, b: string): string {
+  return utils.keccak256(
+    utils.concat(BigNumber.from(a).lt(b) ? [a, b] : [b, a])
+  );
+}
+
+/**
+ * Builds the Merkle tree of the entries and the proof of every claim. The leaves are sorted,
+ * so the same entries always give the same root, and the last node of an odd layer moves up unhashed
+ */
+export function buildMerkleTree(entries: MerkleEntry[]): MerkleDistribution {
+  if (entries.length === 0) {
+    throw new Error("No claims to build the tree from");
+  }
+  const leaves = entries
+    .map((entry) => ({ ...entry, leaf: hashLeaf(entry.address, entry.amount) }))
+    .sort((a, b) => (BigNumber.from(a.leaf).lt(b.leaf) ? -1 : 1));
+
+  const layers = [leaves.map((entry) => entry.leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(
+        i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]
+      );
+    }
+    layers.push(next);
+  }
+
+  const claims: { [address: string]: MerkleClaim } = {};
+  leaves.forEach((entry, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    claims[entry.address] = { amount: entry.amount.toString(), proof };
+  });
+
+  return {
+    merkleRoot: layers[layers.length - 1][0],
+    total: entries
+      .reduce((total, entry) => total.add(entry.amount), BigNumber.from(0))
+      .toString(),
+    claims,
+  };
+}
+
+/**
+ * Checks a proof against the root, like MerkleProof.verify
+ */
+export function verifyProof(
+  proof: string[],
+  merkleRoot: string,
+  leaf: string
+): boolean {
+  return proof.reduce(hashPair, leaf) === merkleRoot;
+}
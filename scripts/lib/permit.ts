@@ -0,0 +1,44 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { BigNumberish, Signature, Wallet, utils } from "ethers";
+
+import { MyToken1 } from "../../typechain-types";
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Builds and signs the EIP-2612 permit allowing `spender` to move `value` of the signer's tokens,
+ * using the token's current nonce for the signer
+ */
+export async function signPermit(
+  token: MyToken1,
+  signer: SignerWithAddress | Wallet,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<Signature> {
+  const owner = signer.address;
+  const domain = {
+    name: await token.name(),
+    version: "1",
+    chainId: await signer.getChainId(),
+    verifyingContract: token.address,
+  };
+  const message = {
+    owner,
+    spender,
+    value,
+    nonce: await token.nonces(owner),
+    deadline,
+  };
+  return utils.splitSignature(
+    await signer._signTypedData(domain, PERMIT_TYPES, message)
+  );
+}
@@ -0,0 +1,86 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { BigNumberish, ContractTransaction, Wallet } from "ethers";
+
+import { StakingForwarder } from "../../typechain-types";
+import { MinimalForwarder } from "../../typechain-types/@openzeppelin/contracts/metatx/MinimalForwarder";
+
+export type ForwardRequest = MinimalForwarder.ForwardRequestStruct;
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+// Gas forwarded to the relayed call when the request doesn't set it
+const DEFAULT_GAS = 500_000;
+
+/**
+ * Builds the ForwardRequest relaying `data` to `to` from the signer, using the
+ * signer's current forwarder nonce, and signs it with EIP-712
+ */
+export async function signForwardRequest(
+  forwarder: StakingForwarder,
+  signer: SignerWithAddress | Wallet,
+  to: string,
+  data: string,
+  gas: BigNumberish = DEFAULT_GAS
+): Promise<{ request: ForwardRequest; signature: string }> {
+  const request: ForwardRequest = {
+    from: signer.address,
+    to,
+    value: 0,
+    gas,
+    nonce: await forwarder.getNonce(signer.address),
+    data,
+  };
+  const domain = {
+    name: "MinimalForwarder",
+    version: "0.0.1",
+    chainId: await signer.getChainId(),
+    verifyingContract: forwarder.address,
+  };
+  const signature = await signer._signTypedData(
+    domain,
+    FORWARD_REQUEST_TYPES,
+    request
+  );
+  return { request, signature };
+}
+
+/**
+ * Checks a signed ForwardRequest, simulates it and submits it from the relayer,
+ * which pays the gas. Throws without submitting anything if the signature or the nonce
+ * doesn't match the request, or if the relayed call would revert
+ */
+export async function relay(
+  forwarder: StakingForwarder,
+  relayer: SignerWithAddress | Wallet,
+  request: ForwardRequest,
+  signature: string
+): Promise<ContractTransaction> {
+  const relayerForwarder = forwarder.connect(relayer);
+  if (!(await relayerForwarder.verify(request, signature))) {
+    throw new Error(
+      `Invalid signature or nonce for the forward request from ${request.from}`
+    );
+  }
+
+  // The forwarder doesn't revert when the relayed call does, it returns its result
+  const [success, returnData] = await relayerForwarder.callStatic.execute(
+    request,
+    signature
+  );
+  if (!success) {
+    throw new Error(
+      `Relayed call from ${request.from} to ${request.to} reverts: ${returnData}`
+    );
+  }
+
+  return relayerForwarder.execute(request, signature);
+}
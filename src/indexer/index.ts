@@ -0,0 +1,7 @@
+export {
+  IndexedStaker,
+  IndexerOptions,
+  StakingIndexer,
+  TimelineEntry,
+} from "./indexer";
+export * from "./store";
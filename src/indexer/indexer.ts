@@ -0,0 +1,457 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import type { MyToken1, Staking } from "../../typechain-types";
+import { IndexedEvent, IndexerState, IndexerStore, MemoryStore } from "./store";
+
+export interface IndexerOptions {
+  // block to index from, usually the Staking deployment block
+  startBlock?: number;
+  // number of blocks fetched per getLogs call
+  chunkSize?: number;
+  // number of blocks dropped and indexed again when the last indexed block was reorged
+  reorgDepth?: number;
+}
+
+/**
+ * A staker's state, rebuilt from the Staking events
+ */
+export interface IndexedStaker {
+  address: string;
+  amountStaked: BigNumber;
+  // part of amountStaked locked in lock tier positions
+  lockedAmount: BigNumber;
+  pendingRewards: BigNumber;
+  rewardsUpdated: boolean;
+  // unix timestamps in seconds, 0 when the staker hasn't staked or updated yet
+  firstStakeTime: number;
+  lastStakeTime: number;
+  lastUpdateTime: number;
+  // rewards claimed or restaked by the staker
+  rewardsPaid: BigNumber;
+}
+
+/**
+ * A Staking event of a staker, with the staker's stake after it
+ */
+export interface TimelineEntry {
+  event: string;
+  // amount staked, unstaked, withdrawn, restaked, claimed or added to the pending rewards
+  amount: BigNumber;
+  amountStaked: BigNumber;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+}
+
+interface StakerRecord extends IndexedStaker {
+  // lastStakeTime before the last Staked event, stakeInTier doesn't update it
+  previousStakeTime: number;
+  timeline: TimelineEntry[];
+}
+
+interface Projection {
+  stakers: Map<string, StakerRecord>;
+  balances: Map<string, BigNumber>;
+  totalRewardsPaid: BigNumber;
+}
+
+/**
+ * Indexes the Staking and MyToken1 events into a store and rebuilds the stakers' history from them.
+ * getStaker only returns the current state, the indexer also keeps the stake timelines,
+ * the rewards paid and the token balances.
+ */
+export class StakingIndexer {
+  readonly chunkSize: number;
+  readonly reorgDepth: number;
+  private state: IndexerState;
+  private projection?: Projection;
+
+  constructor(
+    readonly staking: Staking,
+    readonly token: MyToken1,
+    readonly store: IndexerStore = new MemoryStore(),
+    options: IndexerOptions = {}
+  ) {
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 12;
+    const startBlock = options.startBlock ?? 0;
+    this.state = store.load() ?? {
+      startBlock,
+      lastBlock: startBlock - 1,
+      lastBlockHash: "",
+      events: [],
+    };
+  }
+
+  /**
+   * The last block the events were indexed up to
+   */
+  get lastBlock(): number {
+    return this.state.lastBlock;
+  }
+
+  /**
+   * Indexes the events up to the given block, the latest one by default, in chunks of chunkSize blocks.
+   * The store is saved after every chunk, so an interrupted sync resumes from the last chunk
+   * @returns The last indexed block
+   */
+  async sync(toBlock?: number): Promise<number> {
+    const provider = this.staking.provider;
+    await this.rewindReorgedBlocks();
+    if (this.state.lockPeriod === undefined) {
+      this.state.lockPeriod = (await this.staking.lockPeriod()).toNumber();
+    }
+
+    const lastBlock = toBlock ?? (await provider.getBlockNumber());
+    for (
+      let fromBlock = this.state.lastBlock + 1;
+      fromBlock <= lastBlock;
+      fromBlock += this.chunkSize
+    ) {
+      const chunkEnd = Math.min(fromBlock + this.chunkSize - 1, lastBlock);
+      const events = await this.fetchEvents(fromBlock, chunkEnd);
+      this.state.events.push(...events);
+      this.state.lastBlock = chunkEnd;
+      this.state.lastBlockHash = (await provider.getBlock(chunkEnd)).hash;
+      this.store.save(this.state);
+      this.projection = undefined;
+    }
+    return this.state.lastBlock;
+  }
+
+  /**
+   * Returns every address that has staked
+   */
+  getStakers(): string[] {
+    return [...this.getProjection().stakers.keys()];
+  }
+
+  /**
+   * Returns the staker's state as of the last indexed block
+   */
+  getStaker(address: string): IndexedStaker {
+    const record =
+      this.getProjection().stakers.get(utils.getAddress(address)) ??
+      newStakerRecord(utils.getAddress(address));
+    return {
+      address: record.address,
+      amountStaked: record.amountStaked,
+      lockedAmount: record.lockedAmount,
+      pendingRewards: record.pendingRewards,
+      rewardsUpdated: record.rewardsUpdated,
+      firstStakeTime: record.firstStakeTime,
+      lastStakeTime: record.lastStakeTime,
+      lastUpdateTime: record.lastUpdateTime,
+      rewardsPaid: record.rewardsPaid,
+    };
+  }
+
+  /**
+   * Returns the staker's Staking events, oldest first
+   */
+  getTimeline(address: string): TimelineEntry[] {
+    return [
+      ...(this.getProjection().stakers.get(utils.getAddress(address))
+        ?.timeline ?? []),
+    ];
+  }
+
+  /**
+   * Returns the rewards claimed or restaked by all the stakers
+   */
+  getTotalRewardsPaid(): BigNumber {
+    return this.getProjection().totalRewardsPaid;
+  }
+
+  /**
+   * Returns the stakers with the largest stake or the most rewards paid
+   */
+  getLeaderboard(
+    by: "amountStaked" | "rewardsPaid" = "amountStaked",
+    limit = 10
+  ): IndexedStaker[] {
+    return this.getStakers()
+      .map((address) => this.getStaker(address))
+      .sort((a, b) => (b[by].gt(a[by]) ? 1 : b[by].lt(a[by]) ? -1 : 0))
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns the MyToken1 balance of the address, from the Transfer events
+   */
+  getTokenBalance(address: string): BigNumber {
+    return (
+      this.getProjection().balances.get(utils.getAddress(address)) ??
+      BigNumber.from(0)
+    );
+  }
+
+  // Drops the last reorgDepth blocks when the last indexed block isn't on the chain anymore,
+  // and keeps dropping blocks while the last remaining event's block was reorged too
+  private async rewindReorgedBlocks() {
+    const provider = this.staking.provider;
+    if (this.state.lastBlock < this.state.startBlock) {
+      return;
+    }
+    const block = await provider.getBlock(this.state.lastBlock);
+    if (block && block.hash === this.state.lastBlockHash) {
+      return;
+    }
+
+    let lastBlock = this.state.lastBlock - this.reorgDepth;
+    for (;;) {
+      this.state.events = this.state.events.filter(
+        (event) => event.blockNumber <= lastBlock
+      );
+      const lastEvent = this.state.events[this.state.events.length - 1];
+      if (!lastEvent) {
+        break;
+      }
+      const eventBlock = await provider.getBlock(lastEvent.blockNumber);
+      if (eventBlock && eventBlock.hash === lastEvent.blockHash) {
+        break;
+      }
+      lastBlock = lastEvent.blockNumber - this.reorgDepth;
+    }
+
+    this.state.lastBlock = Math.max(lastBlock, this.state.startBlock - 1);
+    this.state.lastBlockHash =
+      this.state.lastBlock >= this.state.startBlock
+        ? (await provider.getBlock(this.state.lastBlock)).hash
+        : "";
+    this.store.save(this.state);
+    this.projection = undefined;
+  }
+
+  // Fetches and decodes the Staking events and the MyToken1 transfers of the blocks
+  private async fetchEvents(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<IndexedEvent[]> {
+    const provider = this.staking.provider;
+    const [stakingLogs, tokenLogs] = await Promise.all([
+      provider.getLogs({ address: this.staking.address, fromBlock, toBlock }),
+      provider.getLogs({
+        address: this.token.address,
+        topics: [this.token.interface.getEventTopic("Transfer")],
+        fromBlock,
+        toBlock,
+      }),
+    ]);
+    const logs = [...stakingLogs, ...tokenLogs].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set(logs.map((log) => log.blockNumber))) {
+      timestamps.set(
+        blockNumber,
+        (await provider.getBlock(blockNumber)).timestamp
+      );
+    }
+
+    return logs.map((log) => {
+      const isStaking =
+        log.address.toLowerCase() === this.staking.address.toLowerCase();
+      const event = (
+        isStaking ? this.staking.interface : this.token.interface
+      ).parseLog(log);
+      const args: { [name: string]: string } = {};
+      event.eventFragment.inputs.forEach((input, i) => {
+        args[input.name] = event.args[i].toString();
+      });
+      return {
+        contract: isStaking ? "Staking" : "MyToken1",
+        name: event.name,
+        args,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: timestamps.get(log.blockNumber) as number,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      };
+    });
+  }
+
+  // Replays the indexed events, the result is cached until the next sync
+  private getProjection(): Projection {
+    if (!this.projection) {
+      const projection: Projection = {
+        stakers: new Map(),
+        balances: new Map(),
+        totalRewardsPaid: BigNumber.from(0),
+      };
+      for (const event of this.state.events) {
+        if (event.contract === "Staking") {
+          applyStakingEvent(projection, event, this.state.lockPeriod as number);
+        } else if (event.name === "Transfer") {
+          applyTransfer(projection, event);
+        }
+      }
+      this.projection = projection;
+    }
+    return this.projection;
+  }
+}
+
+function newStakerRecord(address: string): StakerRecord {
+  return {
+    address,
+    amountStaked: BigNumber.from(0),
+    lockedAmount: BigNumber.from(0),
+    pendingRewards: BigNumber.from(0),
+    rewardsUpdated: false,
+    firstStakeTime: 0,
+    lastStakeTime: 0,
+    lastUpdateTime: 0,
+    rewardsPaid: BigNumber.from(0),
+    previousStakeTime: 0,
+    timeline: [],
+  };
+}
+
+// Applies a Staking event the same way the contract updates the Staker struct
+function applyStakingEvent(
+  projection: Projection,
+  event: IndexedEvent,
+  lockPeriod: number
+) {
+  if (event.name === "StakeTransferred") {
+    applyStakeTransfer(projection, event, lockPeriod);
+    return;
+  }
+  if (!event.args.staker) {
+    return;
+  }
+  const staker = projection.stakers.get(event.args.staker);
+  if (!staker && event.name !== "Staked") {
+    return;
+  }
+  const record = staker ?? newStakerRecord(event.args.staker);
+  let amount = BigNumber.from(0);
+
+  switch (event.name) {
+    case "Staked":
+      amount = BigNumber.from(event.args.amountStaked);
+      record.amountStaked = record.amountStaked.add(amount);
+      record.previousStakeTime = record.lastStakeTime;
+      record.lastStakeTime = event.timestamp;
+      if (record.firstStakeTime === 0) {
+        record.firstStakeTime = event.timestamp;
+      }
+      break;
+    case "PositionOpened":
+      amount = BigNumber.from(event.args.amount);
+      record.lockedAmount = record.lockedAmount.add(amount);
+      // emitted right after the Staked event of the same stakeInTier call
+      record.lastStakeTime = record.previousStakeTime;
+      break;
+    case "Unstaked":
+      amount = BigNumber.from(event.args.amountUnstaked);
+      record.amountStaked = record.amountStaked.sub(amount);
+      break;
+    case "PositionClosed":
+      amount = BigNumber.from(event.args.amount);
+      record.lockedAmount = record.lockedAmount.sub(amount);
+      break;
+    case "Restaked":
+      amount = BigNumber.from(event.args.rewardsRestaked);
+      record.amountStaked = BigNumber.from(event.args.newAmountStaked);
+      record.pendingRewards = BigNumber.from(0);
+      record.rewardsPaid = record.rewardsPaid.add(amount);
+      projection.totalRewardsPaid = projection.totalRewardsPaid.add(amount);
+      record.rewardsUpdated = false;
+      record.lastStakeTime = event.timestamp;
+      record.lastUpdateTime = event.timestamp;
+      break;
+    case "RewardUpdated":
+      amount = BigNumber.from(event.args.rewards);
+      record.pendingRewards = BigNumber.from(event.args.pendingRewards);
+      record.rewardsUpdated = true;
+      record.lastUpdateTime = event.timestamp;
+      break;
+    case "RewardClaimed":
+      amount = BigNumber.from(event.args.rewards);
+      record.pendingRewards = BigNumber.from(0);
+      record.rewardsPaid = record.rewardsPaid.add(amount);
+      projection.totalRewardsPaid = projection.totalRewardsPaid.add(amount);
+      record.rewardsUpdated = false;
+      break;
+    case "EmergencyWithdrawn":
+      amount = BigNumber.from(event.args.amountWithdrawn);
+      record.amountStaked = BigNumber.from(0);
+      record.lockedAmount = BigNumber.from(0);
+      record.pendingRewards = BigNumber.from(0);
+      record.rewardsUpdated = false;
+      break;
+    default:
+      return;
+  }
+
+  record.timeline.push({
+    event: event.name,
+    amount,
+    amountStaked: record.amountStaked,
+    blockNumber: event.blockNumber,
+    timestamp: event.timestamp,
+    transactionHash: event.transactionHash,
+  });
+  projection.stakers.set(record.address, record);
+}
+
+// Moves the stake of transferred receipts the same way Staking.transferStake does,
+// the event is added to both timelines
+// The recipient's lock only moves to the sender's stake time while the sender's stake is still locked
+function applyStakeTransfer(
+  projection: Projection,
+  event: IndexedEvent,
+  lockPeriod: number
+) {
+  const sender = projection.stakers.get(event.args.from);
+  if (!sender) {
+    return;
+  }
+  const recipient =
+    projection.stakers.get(event.args.to) ?? newStakerRecord(event.args.to);
+  const amount = BigNumber.from(event.args.amount);
+
+  sender.amountStaked = sender.amountStaked.sub(amount);
+  recipient.amountStaked = recipient.amountStaked.add(amount);
+  if (recipient.firstStakeTime === 0) {
+    recipient.firstStakeTime = sender.firstStakeTime;
+  }
+  if (
+    sender.lastStakeTime > recipient.lastStakeTime &&
+    event.timestamp < sender.lastStakeTime + lockPeriod
+  ) {
+    recipient.lastStakeTime = sender.lastStakeTime;
+  }
+
+  for (const record of new Set([sender, recipient])) {
+    record.timeline.push({
+      event: event.name,
+      amount,
+      amountStaked: record.amountStaked,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+    });
+    projection.stakers.set(record.address, record);
+  }
+}
+
+function applyTransfer(projection: Projection, event: IndexedEvent) {
+  const { from, to, value } = event.args;
+  if (from !== constants.AddressZero) {
+    projection.balances.set(
+      from,
+      (projection.balances.get(from) ?? BigNumber.from(0)).sub(value)
+    );
+  }
+  if (to !== constants.AddressZero) {
+    projection.balances.set(
+      to,
+      (projection.balances.get(to) ?? BigNumber.from(0)).add(value)
+    );
+  }
+}
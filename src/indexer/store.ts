@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * A decoded Staking or MyToken1 log, with its numbers as decimal strings
+ */
+export interface IndexedEvent {
+  contract: "Staking" | "MyToken1";
+  name: string;
+  args: { [name: string]: string };
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Everything the indexer persists: the indexed events, in chain order,
+ * and the last block they were indexed up to
+ */
+export interface IndexerState {
+  startBlock: number;
+  lastBlock: number;
+  lastBlockHash: string;
+  // lock period of the Staking contract in seconds, read on the first sync
+  lockPeriod?: number;
+  events: IndexedEvent[];
+}
+
+export interface IndexerStore {
+  load(): IndexerState | undefined;
+  save(state: IndexerState): void;
+}
+
+/**
+ * Keeps the state in memory, for tests and one-off scripts
+ */
+export class MemoryStore implements IndexerStore {
+  private state?: IndexerState;
+
+  load(): IndexerState | undefined {
+    return this.state && JSON.parse(JSON.stringify(this.state));
+  }
+
+  save(state: IndexerState) {
+    this.state = JSON.parse(JSON.stringify(state));
+  }
+}
+
+/**
+ * Persists the state to a JSON file, so the indexer resumes where it stopped
+ */
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  load(): IndexerState | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, "utf8")) as IndexerState;
+  }
+
+  save(state: IndexerState) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(state) + "\n");
+  }
+}
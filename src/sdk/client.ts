@@ -0,0 +1,202 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Signer,
+} from "ethers";
+
+import {
+  MyToken1,
+  MyToken1__factory,
+  Staking,
+  Staking__factory,
+} from "../../typechain-types";
+import { NoStakedAmountError, toStakingError } from "./errors";
+
+/**
+ * A staker's state, from getStaker and the eligibility views
+ */
+export interface StakerStatus {
+  amountStaked: BigNumber;
+  // part of amountStaked locked in lock tier positions
+  lockedAmount: BigNumber;
+  pendingRewards: BigNumber;
+  // every unclaimed reward, including the ones not moved to pendingRewards yet
+  earned: BigNumber;
+  rewardsUpdated: boolean;
+  // unix timestamps in seconds, 0 when the staker hasn't staked or updated yet
+  firstStakeTime: number;
+  lastStakeTime: number;
+  lastUpdateTime: number;
+  // from when unstake and restake are allowed
+  unlockTime: number;
+  // from when updateReward is allowed
+  nextUpdateTime: number;
+  canUnstake: boolean;
+  canRestake: boolean;
+  canUpdateReward: boolean;
+  canClaim: boolean;
+  // tokens of the open unstake requests, and the part of them withdraw returns right now
+  unbondingAmount: BigNumber;
+  withdrawableAmount: BigNumber;
+}
+
+/**
+ * High-level client for Staking and its staked token, sending the transactions from the signer.
+ * Reverts with Staking custom errors are thrown as the matching StakingError
+ */
+export class StakingClient {
+  constructor(
+    readonly staking: Staking,
+    readonly token: MyToken1,
+    readonly signer: Signer
+  ) {}
+
+  /**
+   * Creates a client for the Staking contract at the given address, using its staked token
+   */
+  static async connect(
+    stakingAddress: string,
+    signer: Signer
+  ): Promise<StakingClient> {
+    const staking = Staking__factory.connect(stakingAddress, signer);
+    const token = MyToken1__factory.connect(
+      await staking.stakedToken(),
+      signer
+    );
+    return new StakingClient(staking, token, signer);
+  }
+
+  /**
+   * Returns the staker's state as of the latest block
+   */
+  async getStatus(address: string): Promise<StakerStatus> {
+    const [staker, earned, unstake, restake, updateReward, unbonding] =
+      await Promise.all([
+        this.staking.getStaker(address),
+        this.staking.earned(address),
+        this.staking.canUnstake(address),
+        this.staking.canRestake(address),
+        this.staking.canUpdateReward(address),
+        this.staking.getUnbondingAmounts(address),
+      ]);
+
+    return {
+      amountStaked: staker.amountStaked,
+      lockedAmount: staker.lockedAmount,
+      pendingRewards: staker.pendingRewards,
+      earned,
+      rewardsUpdated: staker.rewardsUpdated,
+      firstStakeTime: staker.firstStakeTime,
+      lastStakeTime: staker.lastStakeTime,
+      lastUpdateTime: staker.lastUpdateTime,
+      unlockTime: unstake.unlockTime.toNumber(),
+      nextUpdateTime: updateReward.unlockTime.toNumber(),
+      canUnstake: unstake.allowed,
+      canRestake: restake.allowed,
+      canUpdateReward: updateReward.allowed,
+      canClaim: staker.rewardsUpdated,
+      unbondingAmount: unbonding.pending,
+      withdrawableAmount: unbonding.withdrawable,
+    };
+  }
+
+  /**
+   * Stakes the amount, approving it first when the allowance doesn't cover it
+   */
+  async stake(amount: BigNumberish): Promise<ContractReceipt> {
+    await this.ensureAllowance(amount);
+    return this.send(() => this.staking.stake(amount));
+  }
+
+  /**
+   * Claims the pending rewards, updating them first when the staker is eligible
+   */
+  async claim(): Promise<ContractReceipt> {
+    await this.updateRewardIfEligible();
+    return this.send(() => this.staking.claimReward());
+  }
+
+  /**
+   * Claims the rewards of an extra reward token, they don't need to be updated first
+   */
+  async claimExtraReward(token: string): Promise<ContractReceipt> {
+    return this.send(() => this.staking.claimExtraReward(token));
+  }
+
+  /**
+   * Restakes the rewards, updating them first when the staker is eligible
+   */
+  async restake(): Promise<ContractReceipt> {
+    await this.updateRewardIfEligible();
+    const staker = await this.staking.getStaker(await this.signer.getAddress());
+    await this.ensureAllowance(staker.amountStaked.add(staker.pendingRewards));
+    return this.send(() => this.staking.restake());
+  }
+
+  /**
+   * Claims the rewards when there are any to claim, then unstakes everything that isn't locked in positions.
+   * While the unbonding queue is enabled the tokens are requested for unstaking instead, see withdraw.
+   * Nothing is unstaked when everything is locked in positions, and a NoStakedAmountError is thrown
+   * when there is neither a stake nor rewards to claim
+   */
+  async exit(): Promise<ContractReceipt[]> {
+    const receipts: ContractReceipt[] = [];
+    const status = await this.getStatus(await this.signer.getAddress());
+    if (
+      (status.canUpdateReward && status.earned.gt(0)) ||
+      status.pendingRewards.gt(0)
+    ) {
+      receipts.push(await this.claim());
+    }
+    const amount = status.amountStaked.sub(status.lockedAmount);
+    if (amount.isZero()) {
+      if (status.amountStaked.isZero() && receipts.length === 0) {
+        throw new NoStakedAmountError();
+      }
+      return receipts;
+    }
+    if ((await this.staking.unbondingPeriod()).gt(0)) {
+      receipts.push(await this.send(() => this.staking.requestUnstake(amount)));
+    } else {
+      receipts.push(await this.send(() => this.staking.unstake(amount)));
+    }
+    return receipts;
+  }
+
+  /**
+   * Withdraws the tokens of the unstake requests whose unbonding period has passed
+   */
+  async withdraw(): Promise<ContractReceipt> {
+    return this.send(() => this.staking.withdraw());
+  }
+
+  private async updateRewardIfEligible() {
+    const status = await this.getStatus(await this.signer.getAddress());
+    if (status.canUpdateReward) {
+      await this.send(() => this.staking.updateReward());
+    }
+  }
+
+  private async ensureAllowance(amount: BigNumberish) {
+    const allowance = await this.token.allowance(
+      await this.signer.getAddress(),
+      this.staking.address
+    );
+    if (allowance.lt(amount)) {
+      await this.send(() => this.token.approve(this.staking.address, amount));
+    }
+  }
+
+  // Sends the transaction and waits for it, mapping the Staking custom errors
+  private async send(
+    transaction: () => Promise<ContractTransaction>
+  ): Promise<ContractReceipt> {
+    try {
+      return await (await transaction()).wait();
+    } catch (error) {
+      throw toStakingError(error);
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import { Staking__factory } from "../../typechain-types";
+
+const stakingInterface = Staking__factory.createInterface();
+
+/**
+ * Base class of the errors thrown when a Staking call reverts with one of its custom errors
+ */
+export class StakingError extends Error {
+  constructor(readonly errorName: string, message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AddressZeroError extends StakingError {
+  constructor() {
+    super("Staking__AddressZero", "Address 0 isn't allowed");
+  }
+}
+
+export class AmountExceedsStakeError extends StakingError {
+  constructor() {
+    super(
+      "Staking__AmountExceedsStake",
+      "The amount exceeds the staked amount that isn't locked in positions"
+    );
+  }
+}
+
+export class ClaimOncePerDayError extends StakingError {
+  constructor() {
+    super(
+      "Staking__ClaimOncePerDay",
+      "The rewards can only be updated once per epoch"
+    );
+  }
+}
+
+export class InsufficientRewardReserveError extends StakingError {
+  constructor() {
+    super(
+      "Staking__InsufficientRewardReserve",
+      "The reward reserve can't cover the rewards"
+    );
+  }
+}
+
+export class InvalidAmountError extends StakingError {
+  constructor() {
+    super("Staking__InvalidAmount", "The amount must be greater than 0");
+  }
+}
+
+export class InvalidDurationError extends StakingError {
+  constructor() {
+    super("Staking__InvalidDuration", "The duration is out of bounds");
+  }
+}
+
+export class InvalidMultiplierError extends StakingError {
+  constructor() {
+    super("Staking__InvalidMultiplier", "The multiplier is out of bounds");
+  }
+}
+
+export class InvalidPositionError extends StakingError {
+  constructor() {
+    super(
+      "Staking__InvalidPosition",
+      "The position doesn't exist or has already been unstaked"
+    );
+  }
+}
+
+export class InvalidRewardTokenError extends StakingError {
+  constructor() {
+    super(
+      "Staking__InvalidRewardToken",
+      "The token isn't a valid extra reward token"
+    );
+  }
+}
+
+export class InvalidTierError extends StakingError {
+  constructor() {
+    super("Staking__InvalidTier", "The lock tier doesn't exist");
+  }
+}
+
+export class InvalidUnbondingRequestError extends StakingError {
+  constructor() {
+    super(
+      "Staking__InvalidUnbondingRequest",
+      "The unstake request doesn't exist or has already been closed"
+    );
+  }
+}
+
+export class NotEnoughTokensError extends StakingError {
+  constructor() {
+    super("Staking__NotEnoughTokens", "Not enough tokens to stake");
+  }
+}
+
+export class NotOperatorError extends StakingError {
+  constructor() {
+    super(
+      "Staking__NotOperator",
+      "The caller isn't an approved operator of the staker"
+    );
+  }
+}
+
+export class NotReceiptError extends StakingError {
+  constructor() {
+    super("Staking__NotReceipt", "Only the receipt token can transfer stakes");
+  }
+}
+
+export class NoStakedAmountError extends StakingError {
+  constructor() {
+    super("Staking__NoStakedAmount", "Nothing is staked");
+  }
+}
+
+export class NoPendingRewardsError extends StakingError {
+  constructor() {
+    super("Staking__NoPendingRewards", "There are no rewards to claim");
+  }
+}
+
+export class NothingToWithdrawError extends StakingError {
+  constructor() {
+    super(
+      "Staking__NothingToWithdraw",
+      "No unstake request has passed its unbonding period"
+    );
+  }
+}
+
+export class PositionLockedError extends StakingError {
+  constructor() {
+    super(
+      "Staking__PositionLocked",
+      "The position's lock duration hasn't passed yet"
+    );
+  }
+}
+
+export class RewardsNotUpdatedError extends StakingError {
+  constructor() {
+    super(
+      "Staking__RewardsNotUpdated",
+      "The rewards must be updated before claiming or restaking them"
+    );
+  }
+}
+
+export class RewardRateZeroError extends StakingError {
+  constructor() {
+    super("Staking__RewardRateZero", "The reward rate must be greater than 0");
+  }
+}
+
+export class RestakeNotAllowedError extends StakingError {
+  constructor() {
+    super(
+      "Staking__RestakeNotAllowed",
+      "The lock period hasn't passed since the last stake"
+    );
+  }
+}
+
+export class RestakeUnsupportedError extends StakingError {
+  constructor() {
+    super(
+      "Staking__RestakeUnsupported",
+      "The rewards aren't paid in the staked token"
+    );
+  }
+}
+
+export class TooManyRewardTokensError extends StakingError {
+  constructor() {
+    super(
+      "Staking__TooManyRewardTokens",
+      "The maximum number of extra reward tokens has been reached"
+    );
+  }
+}
+
+export class TransferNotAcceptedError extends StakingError {
+  constructor() {
+    super(
+      "Staking__TransferNotAccepted",
+      "The recipient doesn't accept receipt transfers that extend his lock period"
+    );
+  }
+}
+
+export class UnbondingRequiredError extends StakingError {
+  constructor() {
+    super(
+      "Staking__UnbondingRequired",
+      "Unstaking goes through requestUnstake and withdraw while the unbonding queue is enabled"
+    );
+  }
+}
+
+export class UnstakeNotAllowedError extends StakingError {
+  constructor() {
+    super(
+      "Staking__UnstakeNotAllowed",
+      "The lock period hasn't passed since the last stake"
+    );
+  }
+}
+
+export class UpdateNotEligibleError extends StakingError {
+  constructor() {
+    super(
+      "Staking__UpdateNotEligible",
+      "The rewards can only be updated one epoch after the first stake"
+    );
+  }
+}
+
+export class TransferFailedError extends StakingError {
+  constructor() {
+    super("Staking__TransferFailed", "The token transfer failed");
+  }
+}
+
+/**
+ * Error class of each Staking custom error, by error name
+ */
+export const STAKING_ERRORS: {
+  [errorName: string]: new () => StakingError;
+} = {
+  Staking__AddressZero: AddressZeroError,
+  Staking__AmountExceedsStake: AmountExceedsStakeError,
+  Staking__ClaimOncePerDay: ClaimOncePerDayError,
+  Staking__InsufficientRewardReserve: InsufficientRewardReserveError,
+  Staking__InvalidAmount: InvalidAmountError,
+  Staking__InvalidDuration: InvalidDurationError,
+  Staking__InvalidMultiplier: InvalidMultiplierError,
+  Staking__InvalidPosition: InvalidPositionError,
+  Staking__InvalidRewardToken: InvalidRewardTokenError,
+  Staking__InvalidTier: InvalidTierError,
+  Staking__InvalidUnbondingRequest: InvalidUnbondingRequestError,
+  Staking__NotEnoughTokens: NotEnoughTokensError,
+  Staking__NotOperator: NotOperatorError,
+  Staking__NotReceipt: NotReceiptError,
+  Staking__NoStakedAmount: NoStakedAmountError,
+  Staking__NoPendingRewards: NoPendingRewardsError,
+  Staking__NothingToWithdraw: NothingToWithdrawError,
+  Staking__PositionLocked: PositionLockedError,
+  Staking__RewardsNotUpdated: RewardsNotUpdatedError,
+  Staking__RewardRateZero: RewardRateZeroError,
+  Staking__RestakeNotAllowed: RestakeNotAllowedError,
+  Staking__RestakeUnsupported: RestakeUnsupportedError,
+  Staking__TooManyRewardTokens: TooManyRewardTokensError,
+  Staking__TransferNotAccepted: TransferNotAcceptedError,
+  Staking__UnbondingRequired: UnbondingRequiredError,
+  Staking__UnstakeNotAllowed: UnstakeNotAllowedError,
+  Staking__UpdateNotEligible: UpdateNotEligibleError,
+  Staking__TransferFailed: TransferFailedError,
+};
+
+// Finds the revert data in the nested errors thrown by ethers and the JSON-RPC providers
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (typeof error !== "object" || error === null || depth > 5) {
+    return undefined;
+  }
+  const {
+    data,
+    error: nested,
+    body,
+  } = error as {
+    data?: unknown;
+    error?: unknown;
+    body?: unknown;
+  };
+  if (typeof data === "string" && /^0x[0-9a-fA-F]{8}/.test(data)) {
+    return data;
+  }
+  if (typeof body === "string") {
+    try {
+      const fromBody = findRevertData(JSON.parse(body).error, depth + 1);
+      if (fromBody) {
+        return fromBody;
+      }
+    } catch {
+      // not a JSON-RPC response body
+    }
+  }
+  return findRevertData(data, depth + 1) ?? findRevertData(nested, depth + 1);
+}
+
+/**
+ * Maps an error thrown by a Staking call to its typed StakingError,
+ * other errors are returned unchanged
+ */
+export function toStakingError(error: unknown): unknown {
+  const data = findRevertData(error);
+  if (!data) {
+    return error;
+  }
+  try {
+    const { name } = stakingInterface.parseError(data);
+    const StakingErrorClass = STAKING_ERRORS[name];
+    return StakingErrorClass ? new StakingErrorClass() : error;
+  } catch {
+    return error;
+  }
+}
@@ -0,0 +1,8 @@
+export { StakerStatus, StakingClient } from "./client";
+export * from "./errors";
+export {
+  CREATE_POOL_GAS_LIMIT,
+  PoolInfo,
+  PoolParams,
+  StakingRegistry,
+} from "./registry";
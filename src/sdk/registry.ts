@@ -0,0 +1,139 @@
+import { BigNumberish, ContractReceipt, Signer } from "ethers";
+
+import {
+  StakingFactory,
+  StakingFactory__factory,
+  Staking__factory,
+} from "../../typechain-types";
+import { StakingClient } from "./client";
+import { toStakingError } from "./errors";
+
+/**
+ * Gas limit of createPool, a pool deployment uses about 7.6M gas. The estimate of the Hardhat
+ * network overshoots the 16,777,216 transaction gas cap for it, because of its large calldata
+ */
+export const CREATE_POOL_GAS_LIMIT = 10_000_000;
+
+/**
+ * A pool of the StakingFactory registry
+ */
+export interface PoolInfo {
+  poolId: number;
+  address: string;
+  stakedToken: string;
+  rewardToken: string;
+  creator: string;
+  // unix timestamp in seconds
+  createdAt: number;
+  metadata: string;
+}
+
+function toPoolInfo(
+  pool: StakingFactory.PoolStructOutput,
+  poolId: number
+): PoolInfo {
+  return {
+    poolId,
+    address: pool.pool,
+    stakedToken: pool.stakedToken,
+    rewardToken: pool.rewardToken,
+    creator: pool.creator,
+    createdAt: pool.createdAt.toNumber(),
+    metadata: pool.metadata,
+  };
+}
+
+/**
+ * Parameters of a new pool, passed to the Staking constructor
+ */
+export interface PoolParams {
+  stakedToken: string;
+  // the staked token by default
+  rewardToken?: string;
+  rewardRate: BigNumberish;
+  // in seconds
+  lockPeriod: BigNumberish;
+  epochLength: BigNumberish;
+}
+
+/**
+ * Discovers the Staking pools through the StakingFactory registry and creates new ones,
+ * sending the transactions from the signer
+ */
+export class StakingRegistry {
+  constructor(readonly factory: StakingFactory, readonly signer: Signer) {}
+
+  /**
+   * Creates a registry for the StakingFactory at the given address
+   */
+  static connect(factoryAddress: string, signer: Signer): StakingRegistry {
+    return new StakingRegistry(
+      StakingFactory__factory.connect(factoryAddress, signer),
+      signer
+    );
+  }
+
+  /**
+   * Returns every pool of the registry, by pool id
+   */
+  async getPools(): Promise<PoolInfo[]> {
+    const pools = await this.factory.getPools();
+    return pools.map(toPoolInfo);
+  }
+
+  /**
+   * Returns the pools of a staked token, by pool id
+   */
+  async getPoolsOf(stakedToken: string): Promise<PoolInfo[]> {
+    const poolIds = (await this.factory.getPoolIds(stakedToken)).map((poolId) =>
+      poolId.toNumber()
+    );
+    const pools = await this.getPools();
+    return poolIds.map((poolId) => pools[poolId]);
+  }
+
+  /**
+   * Creates a client for a pool of the registry
+   */
+  async connectPool(poolId: number): Promise<StakingClient> {
+    const pool = await this.factory.getPool(poolId);
+    return StakingClient.connect(pool.pool, this.signer);
+  }
+
+  /**
+   * Deploys a pool with the Staking creation code of the SDK's contract types, the signer
+   * needs POOL_CREATOR_ROLE and receives the pool's roles
+   */
+  async createPool(params: PoolParams, metadata: string): Promise<PoolInfo> {
+    let receipt: ContractReceipt;
+    try {
+      const transaction = await this.factory.createPool(
+        Staking__factory.bytecode,
+        {
+          stakedToken: params.stakedToken,
+          rewardToken: params.rewardToken ?? params.stakedToken,
+          rewardRate: params.rewardRate,
+          lockPeriod: params.lockPeriod,
+          epochLength: params.epochLength,
+        },
+        metadata,
+        { gasLimit: CREATE_POOL_GAS_LIMIT }
+      );
+      receipt = await transaction.wait();
+    } catch (error) {
+      throw toStakingError(error);
+    }
+
+    const topic = this.factory.interface.getEventTopic("PoolCreated");
+    const log = receipt.logs.find(
+      (log) => log.address === this.factory.address && log.topics[0] === topic
+    );
+    if (log === undefined) {
+      throw new Error(
+        `createPool didn't emit PoolCreated in transaction ${receipt.transactionHash}`
+      );
+    }
+    const poolId = this.factory.interface.parseLog(log).args.poolId.toNumber();
+    return toPoolInfo(await this.factory.getPool(poolId), poolId);
+  }
+}
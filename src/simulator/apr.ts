@@ -0,0 +1,112 @@
+import { RewardSimulator, SimulatorConfig } from "./simulator";
+
+const DAY = 86400;
+const YEAR = 365 * DAY;
+// Arbitrary start of the simulated timelines, firstStakeTime 0 means "never staked"
+const START = 1_700_000_000;
+// Keeps the simulated reserve from limiting the rewards
+const UNLIMITED_RESERVE = 2n ** 128n;
+
+/**
+ * What a user staking `amount` earns in `days` days while `otherStaked` tokens are staked by others
+ */
+export interface RewardProjection {
+  amount: bigint;
+  otherStaked: bigint;
+  days: number;
+  // unclaimed rewards at the end, without restaking
+  rewards: bigint;
+  // rewards when restaking them every time the epoch and the lock period allow it
+  compoundedRewards: bigint;
+  // yearly rates in percent, the APY compounds like compoundedRewards
+  apr: number;
+  apy: number;
+}
+
+/**
+ * Simulates a user staking `amount` next to `otherStaked` tokens of other stakers, who
+ * don't restake, and returns his rewards after `days` days with and without restaking.
+ * Throws if `days` isn't a whole number greater than 0 or `amount` is 0, the rates would be undefined
+ */
+export function projectRewards(
+  config: SimulatorConfig,
+  amount: bigint,
+  otherStaked: bigint,
+  days: number
+): RewardProjection {
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(
+      `Invalid number of days ${days}, the projection must last at least one whole day`
+    );
+  }
+  if (amount <= 0n) {
+    throw new Error(
+      `Invalid amount ${amount}, the projected stake must be greater than 0`
+    );
+  }
+  const end = START + days * DAY;
+
+  const simple = newSimulation(config, otherStaked);
+  simple.stake("user", amount, START);
+  const rewards = simple.earned("user", end);
+
+  const compounding = newSimulation(config, otherStaked);
+  compounding.stake("user", amount, START);
+  for (
+    let timestamp = START + config.epochLength;
+    timestamp <= end;
+    timestamp += config.epochLength
+  ) {
+    compounding.updateReward("user", timestamp);
+    const staker = compounding.getStaker("user");
+    if (timestamp >= staker.lastStakeTime + config.lockPeriod) {
+      compounding.restake("user", timestamp);
+    }
+  }
+  const compoundedRewards =
+    compounding.getStaker("user").amountStaked +
+    compounding.earned("user", end) -
+    amount;
+
+  const apr =
+    Number((rewards * 10000n * BigInt(YEAR)) / (amount * BigInt(days * DAY))) /
+    100;
+  const growth =
+    Number(((amount + compoundedRewards) * 10n ** 12n) / amount) / 1e12;
+  const apy = (Math.pow(growth, 365 / days) - 1) * 100;
+
+  return {
+    amount,
+    otherStaked,
+    days,
+    rewards,
+    compoundedRewards,
+    apr,
+    apy,
+  };
+}
+
+/**
+ * Returns the projections of every combination of staked amount and total staked by others
+ */
+export function aprTable(
+  config: SimulatorConfig,
+  amounts: bigint[],
+  otherStakedValues: bigint[],
+  days: number
+): RewardProjection[] {
+  return amounts.flatMap((amount) =>
+    otherStakedValues.map((otherStaked) =>
+      projectRewards(config, amount, otherStaked, days)
+    )
+  );
+}
+
+function newSimulation(config: SimulatorConfig, otherStaked: bigint) {
+  const simulator = new RewardSimulator(config);
+  simulator.fundRewards(UNLIMITED_RESERVE, START);
+  if (otherStaked > 0n) {
+    simulator.stake("others", otherStaked, START);
+  }
+  return simulator;
+}
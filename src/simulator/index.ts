@@ -0,0 +1,7 @@
+export { RewardProjection, aprTable, projectRewards } from "./apr";
+export {
+  RewardSimulator,
+  SimulatedStaker,
+  SimulationError,
+  SimulatorConfig,
+} from "./simulator";
@@ -0,0 +1,287 @@
+// Scaling factor of the reward per token accumulator, Staking.PRECISION
+const PRECISION = 10n ** 18n;
+
+export interface SimulatorConfig {
+  // reward rate per epoch, every epoch the stakers share rewardRate * 1e18 tokens
+  rewardRate: bigint;
+  // in seconds, like the Staking constructor parameters
+  lockPeriod: number;
+  epochLength: number;
+}
+
+/**
+ * A staker's state, with the same fields as Staking.Staker for flexible stakes
+ */
+export interface SimulatedStaker {
+  amountStaked: bigint;
+  weightedAmount: bigint;
+  pendingRewards: bigint;
+  accruedRewards: bigint;
+  rewardPerTokenPaid: bigint;
+  lastReward: bigint;
+  firstStakeTime: number;
+  lastUpdateTime: number;
+  lastStakeTime: number;
+  rewardsUpdated: boolean;
+}
+
+/**
+ * Thrown when the simulated call would revert, with the name of the Staking custom error
+ */
+export class SimulationError extends Error {
+  constructor(readonly errorName: string) {
+    super(`The call reverts with ${errorName}`);
+    this.name = "SimulationError";
+  }
+}
+
+/**
+ * Replays Staking calls off-chain with the contract's integer math, so that its rewards
+ * match the contract's to the wei. Every call takes the timestamp of the block it is mined in,
+ * and the accumulator is brought up to date by the same calls as in the contract, since
+ * each update rounds down.
+ * Lock tiers, extra reward tokens and receipt transfers aren't simulated.
+ */
+export class RewardSimulator {
+  rewardRate: bigint;
+  readonly lockPeriod: number;
+  readonly epochLength: number;
+  totalStaked = 0n;
+  totalWeightedStake = 0n;
+  rewardReserve = 0n;
+  rewardPerTokenStored = 0n;
+  lastAccrualTime = 0;
+  private readonly stakers = new Map<string, SimulatedStaker>();
+  private lastTimestamp = 0;
+
+  constructor(config: SimulatorConfig) {
+    this.rewardRate = config.rewardRate;
+    this.lockPeriod = config.lockPeriod;
+    this.epochLength = config.epochLength;
+  }
+
+  /**
+   * Returns a copy of the staker's state
+   */
+  getStaker(address: string): SimulatedStaker {
+    return { ...this.staker(address) };
+  }
+
+  /**
+   * Returns the reward per token accumulator at the timestamp, see Staking.rewardPerToken
+   */
+  rewardPerToken(timestamp: number): bigint {
+    if (this.totalWeightedStake === 0n) {
+      return this.rewardPerTokenStored;
+    }
+    return (
+      this.rewardPerTokenStored +
+      (BigInt(timestamp - this.lastAccrualTime) *
+        this.rewardRate *
+        10n ** 18n *
+        PRECISION) /
+        (BigInt(this.epochLength) * this.totalWeightedStake)
+    );
+  }
+
+  /**
+   * Returns the staker's unclaimed rewards at the timestamp, see Staking.earned
+   */
+  earned(address: string, timestamp: number): bigint {
+    const staker = this.staker(address);
+    return (
+      staker.pendingRewards +
+      staker.accruedRewards +
+      (staker.weightedAmount *
+        (this.rewardPerToken(timestamp) - staker.rewardPerTokenPaid)) /
+        PRECISION
+    );
+  }
+
+  stake(address: string, amount: bigint, timestamp: number) {
+    this.advanceTo(timestamp);
+    if (amount === 0n) {
+      throw new SimulationError("Staking__InvalidAmount");
+    }
+    const staker = this.accrue(address, timestamp);
+    staker.amountStaked += amount;
+    staker.weightedAmount += amount;
+    staker.lastStakeTime = timestamp;
+    if (staker.firstStakeTime === 0) {
+      staker.firstStakeTime = timestamp;
+    }
+    this.totalStaked += amount;
+    this.totalWeightedStake += amount;
+  }
+
+  unstake(address: string, amount: bigint, timestamp: number) {
+    this.advanceTo(timestamp);
+    const current = this.staker(address);
+    if (current.amountStaked === 0n) {
+      throw new SimulationError("Staking__NoStakedAmount");
+    }
+    if (timestamp < current.lastStakeTime + this.lockPeriod) {
+      throw new SimulationError("Staking__UnstakeNotAllowed");
+    }
+    if (amount === 0n) {
+      throw new SimulationError("Staking__InvalidAmount");
+    }
+    if (amount > current.amountStaked) {
+      throw new SimulationError("Staking__AmountExceedsStake");
+    }
+
+    const staker = this.accrue(address, timestamp);
+    staker.amountStaked -= amount;
+    staker.weightedAmount -= amount;
+    this.totalStaked -= amount;
+    this.totalWeightedStake -= amount;
+  }
+
+  /**
+   * Moves the rewards accrued since the last update to the pending rewards
+   * @returns The rewards added to the pending rewards
+   */
+  updateReward(address: string, timestamp: number): bigint {
+    this.advanceTo(timestamp);
+    const current = this.staker(address);
+    if (current.amountStaked === 0n) {
+      throw new SimulationError("Staking__NoStakedAmount");
+    }
+    if (timestamp < current.firstStakeTime + this.epochLength) {
+      throw new SimulationError("Staking__UpdateNotEligible");
+    }
+    if (timestamp < current.lastUpdateTime + this.epochLength) {
+      throw new SimulationError("Staking__ClaimOncePerDay");
+    }
+
+    const staker = this.accrue(address, timestamp);
+    const rewards = staker.accruedRewards;
+    staker.accruedRewards = 0n;
+    staker.lastReward = rewards;
+    staker.pendingRewards += rewards;
+    staker.lastUpdateTime = timestamp;
+    staker.rewardsUpdated = true;
+    return rewards;
+  }
+
+  /**
+   * Pays the pending rewards from the reward reserve
+   * @returns The claimed rewards
+   */
+  claimReward(address: string, timestamp: number): bigint {
+    this.advanceTo(timestamp);
+    const current = this.staker(address);
+    if (!current.rewardsUpdated) {
+      throw new SimulationError("Staking__RewardsNotUpdated");
+    }
+    if (current.pendingRewards > this.rewardReserve) {
+      throw new SimulationError("Staking__InsufficientRewardReserve");
+    }
+
+    const staker = this.accrue(address, timestamp);
+    const rewards = staker.pendingRewards;
+    staker.pendingRewards = 0n;
+    staker.rewardsUpdated = false;
+    this.rewardReserve -= rewards;
+    return rewards;
+  }
+
+  /**
+   * Adds the pending rewards to the stake
+   * @returns The restaked rewards
+   */
+  restake(address: string, timestamp: number): bigint {
+    this.advanceTo(timestamp);
+    const current = this.staker(address);
+    if (current.amountStaked === 0n) {
+      throw new SimulationError("Staking__NoStakedAmount");
+    }
+    if (!current.rewardsUpdated) {
+      throw new SimulationError("Staking__RewardsNotUpdated");
+    }
+    if (timestamp < current.lastStakeTime + this.lockPeriod) {
+      throw new SimulationError("Staking__RestakeNotAllowed");
+    }
+    if (current.pendingRewards > this.rewardReserve) {
+      throw new SimulationError("Staking__InsufficientRewardReserve");
+    }
+
+    const staker = this.accrue(address, timestamp);
+    const rewards = staker.pendingRewards;
+    staker.amountStaked += rewards;
+    staker.weightedAmount += rewards;
+    staker.pendingRewards = 0n;
+    staker.rewardsUpdated = false;
+    staker.lastUpdateTime = timestamp;
+    staker.lastStakeTime = timestamp;
+    this.totalStaked += rewards;
+    this.totalWeightedStake += rewards;
+    this.rewardReserve -= rewards;
+    return rewards;
+  }
+
+  fundRewards(amount: bigint, timestamp: number) {
+    this.advanceTo(timestamp);
+    if (amount === 0n) {
+      throw new SimulationError("Staking__InvalidAmount");
+    }
+    this.rewardReserve += amount;
+  }
+
+  setRewardRate(rewardRate: bigint, timestamp: number) {
+    this.advanceTo(timestamp);
+    if (rewardRate === 0n) {
+      throw new SimulationError("Staking__RewardRateZero");
+    }
+    this.updateRewardPerToken(timestamp);
+    this.rewardRate = rewardRate;
+  }
+
+  private staker(address: string): SimulatedStaker {
+    let staker = this.stakers.get(address);
+    if (!staker) {
+      staker = {
+        amountStaked: 0n,
+        weightedAmount: 0n,
+        pendingRewards: 0n,
+        accruedRewards: 0n,
+        rewardPerTokenPaid: 0n,
+        lastReward: 0n,
+        firstStakeTime: 0,
+        lastUpdateTime: 0,
+        lastStakeTime: 0,
+        rewardsUpdated: false,
+      };
+      this.stakers.set(address, staker);
+    }
+    return staker;
+  }
+
+  // Blocks can't go back in time
+  private advanceTo(timestamp: number) {
+    if (timestamp < this.lastTimestamp) {
+      throw new Error(
+        `Timestamp ${timestamp} is before the last simulated call at ${this.lastTimestamp}`
+      );
+    }
+    this.lastTimestamp = timestamp;
+  }
+
+  // Staking._updateRewardPerToken
+  private updateRewardPerToken(timestamp: number): bigint {
+    this.rewardPerTokenStored = this.rewardPerToken(timestamp);
+    this.lastAccrualTime = timestamp;
+    return this.rewardPerTokenStored;
+  }
+
+  // Staking._accrueRewards
+  private accrue(address: string, timestamp: number): SimulatedStaker {
+    const rewardPerToken = this.updateRewardPerToken(timestamp);
+    const staker = this.staker(address);
+    staker.accruedRewards +=
+      (staker.weightedAmount * (rewardPerToken - staker.rewardPerTokenPaid)) /
+      PRECISION;
+    staker.rewardPerTokenPaid = rewardPerToken;
+    return staker;
+  }
+}
@@ -0,0 +1,3 @@
+import "./merkle";
+import "./staking";
+import "./token";
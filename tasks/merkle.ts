@@ -0,0 +1,35 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { utils } from "ethers";
+
+import { output } from "./utils";
+
+task(
+  "merkle:build",
+  "Builds the Merkle tree of a bonus campaign from a CSV of address,amount lines and writes the proofs JSON"
+)
+  .addParam("csv", "Path of the CSV file, the amounts in whole tokens")
+  .addParam("out", "Path of the proofs JSON file written")
+  .addOptionalParam("decimals", "Decimals of the token", "18")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ csv, out, decimals, json }) => {
+    const { buildMerkleTree, parseBalancesCsv } = await import(
+      "../scripts/lib/merkle"
+    );
+    const distribution = buildMerkleTree(
+      parseBalancesCsv(fs.readFileSync(csv, "utf8"), Number(decimals))
+    );
+
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(distribution, null, 2) + "\n");
+    return output(
+      {
+        merkleRoot: distribution.merkleRoot,
+        claims: Object.keys(distribution.claims).length,
+        total: utils.formatUnits(distribution.total, Number(decimals)),
+        out,
+      },
+      json
+    );
+  });
@@ -0,0 +1,187 @@
+import { task } from "hardhat/config";
+
+import {
+  formatAmount,
+  getMyToken1,
+  getStaking,
+  getStakingFactory,
+  output,
+  parseAmount,
+} from "./utils";
+
+const YEAR = 365 * 24 * 60 * 60;
+
+task("staking:status", "Prints a staker's stake, rewards and eligibility")
+  .addOptionalParam("address", "Address of the staker, the signer by default")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ address, json }, hre) => {
+    const { StakingClient } = await import("../src/sdk");
+    const [signer] = await hre.ethers.getSigners();
+    const staking = await getStaking(hre);
+    const token = await getMyToken1(hre);
+    const stakerAddress: string = address ?? signer.address;
+
+    const status = await new StakingClient(staking, token, signer).getStatus(
+      stakerAddress
+    );
+    return output(
+      {
+        address: stakerAddress,
+        amountStaked: await formatAmount(token, status.amountStaked),
+        lockedAmount: await formatAmount(token, status.lockedAmount),
+        pendingRewards: await formatAmount(token, status.pendingRewards),
+        earned: await formatAmount(token, status.earned),
+        unbondingAmount: await formatAmount(token, status.unbondingAmount),
+        withdrawableAmount: await formatAmount(
+          token,
+          status.withdrawableAmount
+        ),
+        unlockTime: status.unlockTime,
+        nextUpdateTime: status.nextUpdateTime,
+        canUnstake: status.canUnstake,
+        canRestake: status.canRestake,
+        canUpdateReward: status.canUpdateReward,
+        canClaim: status.canClaim,
+      },
+      json
+    );
+  });
+
+task("staking:stake", "Stakes the signer's tokens, approving them first")
+  .addParam("amount", "Amount of tokens to stake, in whole tokens")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ amount, json }, hre) => {
+    const { StakingClient } = await import("../src/sdk");
+    const [signer] = await hre.ethers.getSigners();
+    const staking = await getStaking(hre);
+    const token = await getMyToken1(hre);
+
+    const receipt = await new StakingClient(staking, token, signer).stake(
+      await parseAmount(token, amount)
+    );
+    return output(
+      {
+        staker: signer.address,
+        amount,
+        transactionHash: receipt.transactionHash,
+      },
+      json
+    );
+  });
+
+task(
+  "staking:claim",
+  "Claims the signer's rewards, updating them first when eligible"
+)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ json }, hre) => {
+    const { StakingClient } = await import("../src/sdk");
+    const [signer] = await hre.ethers.getSigners();
+    const staking = await getStaking(hre);
+    const token = await getMyToken1(hre);
+
+    const receipt = await new StakingClient(staking, token, signer).claim();
+    const claimed = receipt.logs
+      .filter((log) => log.address === staking.address)
+      .map((log) => staking.interface.parseLog(log))
+      .find((event) => event.name === "RewardClaimed");
+    return output(
+      {
+        staker: signer.address,
+        claimed: claimed
+          ? await formatAmount(token, claimed.args.rewards)
+          : "0",
+        transactionHash: receipt.transactionHash,
+      },
+      json
+    );
+  });
+
+task("staking:fund-rewards", "Adds the signer's tokens to the reward reserve")
+  .addParam("amount", "Amount of tokens to add, in whole tokens")
+  .addFlag("mint", "Mint the tokens to the signer first")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ amount, mint, json }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const staking = await getStaking(hre);
+    const token = await getMyToken1(hre);
+    const parsedAmount = await parseAmount(token, amount);
+
+    if (mint) {
+      await (await token.mint(signer.address, parsedAmount)).wait();
+    }
+    await (await token.approve(staking.address, parsedAmount)).wait();
+    const receipt = await (await staking.fundRewards(parsedAmount)).wait();
+    return output(
+      {
+        funder: signer.address,
+        amount,
+        rewardReserve: await formatAmount(token, await staking.rewardReserve()),
+        transactionHash: receipt.transactionHash,
+      },
+      json
+    );
+  });
+
+task(
+  "staking:stats",
+  "Prints the total staked, the reward reserve, the staker count and the APR"
+)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ json }, hre) => {
+    const staking = await getStaking(hre);
+    const token = await getMyToken1(hre);
+    const [
+      totalStaked,
+      rewardReserve,
+      reserveDays,
+      rewardRate,
+      epochLength,
+      stakerCount,
+    ] = await Promise.all([
+      staking.totalStaked(),
+      staking.rewardReserve(),
+      staking.getRewardReserveDays(),
+      staking.getRewardRate(),
+      staking.getEpochLength(),
+      staking.stakerCount(),
+    ]);
+
+    // Every epoch the stakers share rewardRate * 1e18 tokens, see Staking.rewardPerToken
+    const yearlyRewards = rewardRate
+      .mul(hre.ethers.constants.WeiPerEther)
+      .mul(YEAR)
+      .div(epochLength);
+    const apr = totalStaked.isZero()
+      ? null
+      : `${hre.ethers.utils.formatUnits(
+          yearlyRewards.mul(10000).div(totalStaked),
+          2
+        )}%`;
+
+    return output(
+      {
+        totalStaked: await formatAmount(token, totalStaked),
+        rewardReserve: await formatAmount(token, rewardReserve),
+        rewardReserveDays: reserveDays.toNumber(),
+        rewardRate: rewardRate.toString(),
+        stakerCount: stakerCount.toNumber(),
+        apr,
+      },
+      json
+    );
+  });
+
+task("staking:pools", "Lists the Staking pools of the StakingFactory registry")
+  .addOptionalParam("token", "Only list the pools of this staked token")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ token, json }, hre) => {
+    const { StakingRegistry } = await import("../src/sdk");
+    const [signer] = await hre.ethers.getSigners();
+    const registry = new StakingRegistry(await getStakingFactory(hre), signer);
+
+    const pools = token
+      ? await registry.getPoolsOf(token)
+      : await registry.getPools();
+    return output({ poolCount: pools.length, pools }, json);
+  });
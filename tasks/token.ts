@@ -0,0 +1,57 @@
+import { task } from "hardhat/config";
+
+import { formatAmount, getMyToken1, output, parseAmount } from "./utils";
+
+task("token:mint", "Mints MyToken1 tokens, the signer needs MINTER_ROLE")
+  .addParam("to", "Address receiving the tokens")
+  .addParam("amount", "Amount of tokens to mint, in whole tokens")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ to, amount, json }, hre) => {
+    const token = await getMyToken1(hre);
+
+    const receipt = await (
+      await token.mint(to, await parseAmount(token, amount))
+    ).wait();
+    return output(
+      {
+        to,
+        amount,
+        balance: await formatAmount(token, await token.balanceOf(to)),
+        transactionHash: receipt.transactionHash,
+      },
+      json
+    );
+  });
+
+task("token:pause", "Pauses MyToken1 transfers, the signer needs PAUSER_ROLE")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ json }, hre) => {
+    const token = await getMyToken1(hre);
+
+    const receipt = await (await token.pause()).wait();
+    return output(
+      {
+        paused: await token.paused(),
+        transactionHash: receipt.transactionHash,
+      },
+      json
+    );
+  });
+
+task(
+  "token:unpause",
+  "Unpauses MyToken1 transfers, the signer needs PAUSER_ROLE"
+)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ json }, hre) => {
+    const token = await getMyToken1(hre);
+
+    const receipt = await (await token.unpause()).wait();
+    return output(
+      {
+        paused: await token.paused(),
+        transactionHash: receipt.transactionHash,
+      },
+      json
+    );
+  });
@@ -0,0 +1,84 @@
+import { BigNumber, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { MyToken1 } from "../typechain-types";
+import { readDeployments } from "../scripts/lib/deployments";
+
+/**
+ * Returns the contract recorded in deployments/<network>.json for the connected network,
+ * connected to the first signer through its typechain factory
+ */
+export async function getDeployedContract<T>(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  factory: { connect(address: string, signer: Signer): T }
+): Promise<T> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const record = readDeployments(hre.network.name, chainId);
+  const deployment = record.contracts[name];
+  if (!deployment) {
+    throw new Error(
+      `${name} isn't deployed on network "${hre.network.name}", run scripts/deploy.ts first`
+    );
+  }
+  const [signer] = await hre.ethers.getSigners();
+  return factory.connect(deployment.address, signer);
+}
+
+// The contract types are imported when the tasks run, since they are generated by the compilation
+
+export async function getStaking(hre: HardhatRuntimeEnvironment) {
+  const { Staking__factory } = await import("../typechain-types");
+  return getDeployedContract(hre, "Staking", Staking__factory);
+}
+
+export async function getStakingFactory(hre: HardhatRuntimeEnvironment) {
+  const { StakingFactory__factory } = await import("../typechain-types");
+  return getDeployedContract(hre, "StakingFactory", StakingFactory__factory);
+}
+
+export async function getMyToken1(hre: HardhatRuntimeEnvironment) {
+  const { MyToken1__factory } = await import("../typechain-types");
+  return getDeployedContract(hre, "MyToken1", MyToken1__factory);
+}
+
+/**
+ * Parses an amount in whole tokens, e.g. "1.5", into the token's smallest unit
+ */
+export async function parseAmount(
+  token: MyToken1,
+  amount: string
+): Promise<BigNumber> {
+  return utils.parseUnits(amount, await token.decimals());
+}
+
+/**
+ * Formats an amount in the token's smallest unit as whole tokens
+ */
+export async function formatAmount(
+  token: MyToken1,
+  amount: BigNumber
+): Promise<string> {
+  return utils.formatUnits(amount, await token.decimals());
+}
+
+/**
+ * Prints the task result, as JSON for the ops tooling or as one "key: value" line per field,
+ * arrays and objects in JSON, and returns it
+ */
+export function output<T extends object>(result: T, json: boolean): T {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    for (const [key, value] of Object.entries(result)) {
+      console.log(
+        `${key}: ${
+          value !== null && typeof value === "object"
+            ? JSON.stringify(value)
+            : value
+        }`
+      );
+    }
+  }
+  return result;
+}
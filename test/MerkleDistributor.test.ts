@@ -0,0 +1,397 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { BigNumber } from "ethers";
+import { ethers } from "hardhat";
+
+import {
+  MerkleDistribution,
+  buildMerkleTree,
+  hashLeaf,
+  parseBalancesCsv,
+  verifyProof,
+} from "../scripts/lib/merkle";
+import { MerkleDistributor, MyToken1, Staking } from "../typechain-types";
+
+const DAY = 86400;
+
+describe("MerkleDistributor", function () {
+  let staking: Staking;
+  let distributor: MerkleDistributor;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let users: SignerWithAddress[];
+  let distribution: MerkleDistribution;
+
+  beforeEach(async function () {
+    let user1, user2, user3, user4;
+    [owner, user1, user2, user3, user4] = await ethers.getSigners();
+    users = [user1, user2, user3, user4];
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    await staking.deployed();
+
+    const distributorFactory = await ethers.getContractFactory(
+      "MerkleDistributor"
+    );
+    distributor = (await distributorFactory.deploy(
+      staking.address
+    )) as MerkleDistributor;
+    await distributor.deployed();
+
+    distribution = buildMerkleTree(
+      parseBalancesCsv(
+        [
+          "address,amount",
+          `${user1.address},100`,
+          `${user2.address},250.5`,
+          `${user3.address},0.000000000000000001`,
+        ].join("\n")
+      )
+    );
+    await myToken1.mint(owner.address, ethers.utils.parseUnits("10000", 18));
+    await myToken1.approve(distributor.address, ethers.constants.MaxUint256);
+  });
+
+  // Creates a campaign of the distribution and funds it with the given amount, all of it by default
+  async function createCampaign(
+    funding: BigNumber = BigNumber.from(distribution.total)
+  ) {
+    const campaignId = await distributor.campaignCount();
+    await distributor.createCampaign(distribution.merkleRoot);
+    await distributor.fundCampaign(campaignId, funding);
+    return campaignId;
+  }
+
+  // Claims the user's bonus with his proof from the distribution
+  function claim(
+    campaignId: BigNumber,
+    user: SignerWithAddress,
+    stake = false,
+    caller = user
+  ) {
+    const { amount, proof } = distribution.claims[user.address];
+    return distributor
+      .connect(caller)
+      .claim(campaignId, user.address, amount, proof, stake);
+  }
+
+  it("Builds the tree and the proofs of a CSV", async () => {
+    const [user1, user2, user3] = users;
+    expect(Object.keys(distribution.claims)).to.have.members([
+      user1.address,
+      user2.address,
+      user3.address,
+    ]);
+    expect(distribution.claims[user2.address].amount).to.equal(
+      ethers.utils.parseUnits("250.5", 18).toString()
+    );
+    expect(distribution.total).to.equal(
+      ethers.utils.parseUnits("350.5", 18).add(1).toString()
+    );
+    for (const [address, { amount, proof }] of Object.entries(
+      distribution.claims
+    )) {
+      expect(
+        verifyProof(
+          proof,
+          distribution.merkleRoot,
+          hashLeaf(address, BigNumber.from(amount))
+        )
+      ).to.be.true;
+    }
+
+    // the order of the lines doesn't change the root
+    const reversed = buildMerkleTree(
+      parseBalancesCsv(
+        [
+          `${user3.address.toLowerCase()}, 0.000000000000000001`,
+          `${user2.address},250.5`,
+          `${user1.address},100`,
+        ].join("\n")
+      )
+    );
+    expect(reversed.merkleRoot).to.equal(distribution.merkleRoot);
+  });
+
+  it("Rejects invalid CSV lines", async () => {
+    const [user1] = users;
+    expect(() =>
+      parseBalancesCsv(`${user1.address},1\n${user1.address},2`)
+    ).to.throw(`Duplicate address ${user1.address} on line 2`);
+    expect(() => parseBalancesCsv(`${user1.address},1\n0x1234,2`)).to.throw(
+      "Invalid line 2"
+    );
+    expect(() => parseBalancesCsv(`${user1.address},0`)).to.throw(
+      "Invalid amount 0 on line 1"
+    );
+    expect(() => buildMerkleTree(parseBalancesCsv("address,amount"))).to.throw(
+      "No claims to build the tree from"
+    );
+  });
+
+  it("Only lets campaign managers create and close campaigns", async () => {
+    const [user1] = users;
+    const role = await distributor.CAMPAIGN_MANAGER_ROLE();
+    await expect(
+      distributor.connect(user1).createCampaign(distribution.merkleRoot)
+    ).to.be.revertedWith(
+      `AccessControl: account ${user1.address.toLowerCase()} is missing role ${role}`
+    );
+
+    await expect(distributor.createCampaign(distribution.merkleRoot))
+      .to.emit(distributor, "CampaignCreated")
+      .withArgs(0, distribution.merkleRoot);
+    await expect(
+      distributor.connect(user1).closeCampaign(0, user1.address)
+    ).to.be.revertedWith(
+      `AccessControl: account ${user1.address.toLowerCase()} is missing role ${role}`
+    );
+  });
+
+  it("Pays the claims of a funded campaign", async () => {
+    const [user1, user2, user3] = users;
+    const campaignId = await createCampaign();
+    const campaign = await distributor.getCampaign(campaignId);
+    expect(campaign.merkleRoot).to.equal(distribution.merkleRoot);
+    expect(campaign.funded).to.equal(distribution.total);
+
+    const amount = distribution.claims[user2.address].amount;
+    await expect(claim(campaignId, user2))
+      .to.emit(distributor, "Claimed")
+      .withArgs(campaignId, user2.address, amount, false);
+    expect(await myToken1.balanceOf(user2.address)).to.equal(amount);
+    expect(await distributor.isClaimed(campaignId, user2.address)).to.be.true;
+    expect(await distributor.isClaimed(campaignId, user1.address)).to.be.false;
+
+    // anyone can claim for an account, the bonus is paid to the account
+    await claim(campaignId, user3, false, user1);
+    expect(await myToken1.balanceOf(user3.address)).to.equal(1);
+    expect(await myToken1.balanceOf(user1.address)).to.equal(0);
+    expect((await distributor.getCampaign(campaignId)).claimed).to.equal(
+      BigNumber.from(amount).add(1)
+    );
+  });
+
+  it("Reverts double claims", async () => {
+    const [user1] = users;
+    const campaignId = await createCampaign();
+    await claim(campaignId, user1);
+
+    await expect(claim(campaignId, user1)).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__AlreadyClaimed"
+    );
+    await expect(
+      claim(campaignId, user1, false, users[1])
+    ).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__AlreadyClaimed"
+    );
+    expect(await myToken1.balanceOf(user1.address)).to.equal(
+      distribution.claims[user1.address].amount
+    );
+  });
+
+  it("Reverts invalid proofs", async () => {
+    const [user1, user2, , user4] = users;
+    const campaignId = await createCampaign();
+    const { amount, proof } = distribution.claims[user1.address];
+
+    const invalidClaims = [
+      // another amount
+      [user1.address, BigNumber.from(amount).add(1), proof],
+      // another account's proof
+      [user1.address, amount, distribution.claims[user2.address].proof],
+      // an account that isn't in the tree
+      [user4.address, amount, proof],
+      // a truncated proof
+      [user1.address, amount, proof.slice(1)],
+    ] as const;
+    for (const [account, claimAmount, claimProof] of invalidClaims) {
+      await expect(
+        distributor.claim(campaignId, account, claimAmount, claimProof, false)
+      ).to.be.revertedWithCustomError(
+        distributor,
+        "MerkleDistributor__InvalidProof"
+      );
+    }
+  });
+
+  it("Keeps the claims of every campaign apart", async () => {
+    const [user1] = users;
+    const first = await createCampaign();
+    const second = await createCampaign();
+    await claim(first, user1);
+    await claim(second, user1);
+    expect(await myToken1.balanceOf(user1.address)).to.equal(
+      ethers.utils.parseUnits("200", 18)
+    );
+
+    // the proof of another tree is rejected
+    const other = buildMerkleTree(
+      parseBalancesCsv(`${user1.address},1000`)
+    ).merkleRoot;
+    await distributor.createCampaign(other);
+    await distributor.fundCampaign(2, ethers.utils.parseUnits("1000", 18));
+    await expect(claim(BigNumber.from(2), user1)).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InvalidProof"
+    );
+  });
+
+  it("Limits the claims to the campaign's funding", async () => {
+    const [user1, user2] = users;
+    const campaignId = await createCampaign(ethers.utils.parseUnits("200", 18));
+
+    await claim(campaignId, user1);
+    await expect(claim(campaignId, user2)).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InsufficientFunding"
+    );
+
+    await expect(
+      distributor.fundCampaign(campaignId, 0)
+    ).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InvalidAmount"
+    );
+    await expect(
+      distributor.fundCampaign(campaignId, ethers.utils.parseUnits("150.5", 18))
+    )
+      .to.emit(distributor, "CampaignFunded")
+      .withArgs(
+        campaignId,
+        owner.address,
+        ethers.utils.parseUnits("150.5", 18)
+      );
+    await claim(campaignId, user2);
+  });
+
+  it("Returns the unclaimed tokens when a campaign is closed", async () => {
+    const [user1, user2] = users;
+    const campaignId = await createCampaign();
+    await claim(campaignId, user1);
+
+    const unclaimed = BigNumber.from(distribution.total).sub(
+      distribution.claims[user1.address].amount
+    );
+    await expect(distributor.closeCampaign(campaignId, owner.address))
+      .to.emit(distributor, "CampaignClosed")
+      .withArgs(campaignId, owner.address, unclaimed);
+    expect(await myToken1.balanceOf(distributor.address)).to.equal(0);
+
+    await expect(claim(campaignId, user2)).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InvalidCampaign"
+    );
+    await expect(
+      distributor.fundCampaign(campaignId, 1)
+    ).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InvalidCampaign"
+    );
+    await expect(
+      distributor.closeCampaign(campaignId, owner.address)
+    ).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InvalidCampaign"
+    );
+    await expect(
+      distributor.getCampaign(campaignId.add(1))
+    ).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__InvalidCampaign"
+    );
+  });
+
+  it("Stakes the claims of the accounts that approved the distributor as operator", async () => {
+    const [user1, user2] = users;
+    const campaignId = await createCampaign();
+    const amount = distribution.claims[user1.address].amount;
+
+    await expect(claim(campaignId, user1, true)).to.be.revertedWithCustomError(
+      staking,
+      "Staking__NotOperator"
+    );
+    await staking.connect(user1).setOperator(distributor.address, true);
+    // only the account can have his bonus staked, since staking restarts his lock period
+    await expect(
+      claim(campaignId, user1, true, user2)
+    ).to.be.revertedWithCustomError(
+      distributor,
+      "MerkleDistributor__NotClaimant"
+    );
+
+    await expect(claim(campaignId, user1, true))
+      .to.emit(distributor, "Claimed")
+      .withArgs(campaignId, user1.address, amount, true)
+      .and.to.emit(staking, "Staked")
+      .withArgs(user1.address, amount, amount, amount, anyValue)
+      .and.to.emit(staking, "OperatorAction")
+      .withArgs(
+        distributor.address,
+        user1.address,
+        staking.interface.getSighash("stakeFor")
+      );
+    expect((await staking.getStaker(user1.address)).amountStaked).to.equal(
+      amount
+    );
+    expect(await myToken1.balanceOf(user1.address)).to.equal(0);
+    expect(await myToken1.balanceOf(distributor.address)).to.equal(
+      BigNumber.from(distribution.total).sub(amount)
+    );
+  });
+
+  it("Only uses the operator approval to stake the claims", async () => {
+    const [user1] = users;
+    const campaignId = await createCampaign();
+    await staking.connect(user1).setOperator(distributor.address, true);
+    // an existing stake, whose rewards the distributor can't claim or restake
+    await myToken1.mint(user1.address, 1000);
+    await myToken1
+      .connect(user1)
+      .approve(staking.address, ethers.constants.MaxUint256);
+    await staking.connect(user1).stake(1000);
+    await myToken1.approve(staking.address, ethers.constants.MaxUint256);
+    await staking.fundRewards(ethers.utils.parseUnits("1000", 18));
+    await time.increase(DAY);
+
+    const receipt = await (await claim(campaignId, user1, true)).wait();
+    const stakingEvents = receipt.logs
+      .filter((log) => log.address === staking.address)
+      .map((log) => staking.interface.parseLog(log));
+    const operatorActions = stakingEvents.filter(
+      (event) => event.name === "OperatorAction"
+    );
+    expect(operatorActions).to.have.lengthOf(1);
+    expect(operatorActions[0].args.action).to.equal(
+      staking.interface.getSighash("stakeFor")
+    );
+    const names = stakingEvents.map((event) => event.name);
+    expect(names).to.not.include("RewardClaimed");
+    expect(names).to.not.include("Restaked");
+    expect(await myToken1.balanceOf(user1.address)).to.equal(0);
+    expect(await staking.earned(user1.address)).to.be.gt(0);
+
+    // none of the other operator functions is called anywhere in the distributor's code
+    const code = await ethers.provider.getCode(distributor.address);
+    expect(code).to.include(staking.interface.getSighash("stakeFor").slice(2));
+    for (const name of ["updateRewardFor", "claimRewardFor", "restakeFor"]) {
+      expect(code).to.not.include(staking.interface.getSighash(name).slice(2));
+    }
+  });
+});
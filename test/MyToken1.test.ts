@@ -3,6 +3,7 @@ import chai, { expect } from "chai";
 import chaiAsPromised from "chai-as-promised";
 import { ethers } from "hardhat";
 
+import { signPermit } from "../scripts/lib/permit";
 import { MyToken1 } from "../typechain-types";
 import { utils } from "../typechain-types/factories/@openzeppelin/contracts";
 
@@ -107,4 +108,19 @@ describe("Contract", function () {
     const addr2Balance = await myToken1.balanceOf(user2.address);
     expect(addr2Balance).to.equal(50);
   });
+
+  it("Should set the allowance from a signed permit", async () => {
+    const deadline = (await ethers.provider.getBlock("latest")).timestamp + 60;
+    const { v, r, s } = await signPermit(
+      myToken1,
+      user,
+      user2.address,
+      50,
+      deadline
+    );
+    await myToken1.permit(user.address, user2.address, 50, deadline, v, r, s);
+
+    expect(await myToken1.allowance(user.address, user2.address)).to.equal(50);
+    expect(await myToken1.nonces(user.address)).to.equal(1);
+  });
 });
@@ -0,0 +1,299 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { BigNumber, ContractTransaction } from "ethers";
+import { ethers } from "hardhat";
+
+import {
+  RewardSimulator,
+  SimulationError,
+  aprTable,
+  projectRewards,
+} from "../src/simulator";
+import { StakingError, toStakingError } from "../src/sdk";
+import { MyToken1, Staking } from "../typechain-types";
+
+const DAY = 86400;
+
+type Step =
+  | { at: number; user: number; call: "stake" | "unstake"; amount: bigint }
+  | {
+      at: number;
+      user: number;
+      call: "updateReward" | "claimReward" | "restake";
+    }
+  | { at: number; call: "fundRewards" | "setRewardRate"; amount: bigint };
+
+// Amounts that don't divide evenly, so that every rounding of the contract shows up
+const ODD = 333_333_333_333_333_333_333n;
+const TINY = 7n;
+
+// Steps at random times with random users and amounts, from a linear congruential generator
+function randomSteps(seed: number, count: number, period: number): Step[] {
+  let state = seed;
+  const random = (max: number) => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state % max;
+  };
+  const calls = [
+    "stake",
+    "unstake",
+    "updateReward",
+    "claimReward",
+    "restake",
+  ] as const;
+
+  const steps: Step[] = [];
+  let at = 0;
+  for (let i = 0; i < count; i++) {
+    at += 1 + random(period);
+    const user = random(3);
+    const call = calls[random(calls.length)];
+    if (call === "stake" || call === "unstake") {
+      const amount = BigInt(1 + random(1000)) * ODD + BigInt(random(1000));
+      steps.push({ at, user, call, amount: amount / BigInt(1 + random(4)) });
+    } else {
+      steps.push({ at, user, call });
+    }
+  }
+  return steps;
+}
+
+describe("RewardSimulator", function () {
+  for (const period of [DAY, 7 * DAY]) {
+    describe(`Same results as Staking (${
+      period / DAY
+    } day lock period and epoch)`, function () {
+      let staking: Staking;
+      let myToken1: MyToken1;
+      let owner: SignerWithAddress;
+      let users: SignerWithAddress[];
+
+      beforeEach(async function () {
+        let user1, user2, user3;
+        [owner, user1, user2, user3] = await ethers.getSigners();
+        users = [user1, user2, user3];
+
+        const myToken1Factory = await ethers.getContractFactory("MyToken1");
+        myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+        await myToken1.deployed();
+
+        const stakingFactory = await ethers.getContractFactory("Staking");
+        staking = (await stakingFactory.deploy(
+          myToken1.address,
+          myToken1.address,
+          100,
+          period,
+          period,
+          ethers.constants.AddressZero
+        )) as Staking;
+        await staking.deployed();
+
+        await myToken1.mint(owner.address, ethers.utils.parseUnits("1", 30));
+        await myToken1.approve(staking.address, ethers.constants.MaxUint256);
+        for (const user of users) {
+          await myToken1.mint(user.address, ethers.utils.parseUnits("1", 30));
+          await myToken1
+            .connect(user)
+            .approve(staking.address, ethers.constants.MaxUint256);
+        }
+      });
+
+      // Runs the steps on-chain and in the simulator, at the same timestamps,
+      // and compares the outcome and the state after every step
+      async function expectSameResults(steps: Step[]) {
+        const simulator = new RewardSimulator({
+          rewardRate: 100n,
+          lockPeriod: period,
+          epochLength: period,
+        });
+        const start = (await time.latest()) + 100;
+
+        for (const step of steps) {
+          const timestamp = start + step.at;
+          let transaction: () => Promise<ContractTransaction>;
+          let simulate: () => unknown;
+          if (!("user" in step)) {
+            const call = step.call;
+            transaction = () => staking[call](step.amount);
+            simulate = () => simulator[call](step.amount, timestamp);
+          } else {
+            const user = users[step.user];
+            if (step.call === "stake" || step.call === "unstake") {
+              const call = step.call;
+              transaction = () => staking.connect(user)[call](step.amount);
+              simulate = () =>
+                simulator[call](user.address, step.amount, timestamp);
+            } else {
+              const call = step.call;
+              transaction = () => staking.connect(user)[call]();
+              simulate = () => simulator[call](user.address, timestamp);
+            }
+          }
+
+          await time.setNextBlockTimestamp(timestamp);
+          const chainError = await transaction()
+            .then((tx) => tx.wait())
+            .then(() => undefined)
+            .catch((error) => toStakingError(error));
+          let simulatorError: SimulationError | undefined;
+          try {
+            simulate();
+          } catch (error) {
+            simulatorError = error as SimulationError;
+          }
+          const description = `${step.call} at +${step.at}s`;
+          expect(chainError, description).to.satisfy(
+            (error: unknown) =>
+              error === undefined || error instanceof StakingError
+          );
+          expect(
+            (chainError as StakingError | undefined)?.errorName,
+            description
+          ).to.equal(simulatorError?.errorName);
+
+          expect(await staking.rewardPerTokenStored()).to.equal(
+            simulator.rewardPerTokenStored
+          );
+          expect(await staking.totalStaked()).to.equal(simulator.totalStaked);
+          expect(await staking.rewardReserve()).to.equal(
+            simulator.rewardReserve
+          );
+          for (const user of users) {
+            const staker = await staking.getStaker(user.address);
+            const simulated = simulator.getStaker(user.address);
+            expect(staker.amountStaked, description).to.equal(
+              simulated.amountStaked
+            );
+            expect(staker.pendingRewards, description).to.equal(
+              simulated.pendingRewards
+            );
+            expect(staker.accruedRewards, description).to.equal(
+              simulated.accruedRewards
+            );
+            expect(staker.rewardsUpdated).to.equal(simulated.rewardsUpdated);
+            expect(staker.lastUpdateTime).to.equal(simulated.lastUpdateTime);
+            expect(await staking.earned(user.address), description).to.equal(
+              simulator.earned(user.address, timestamp)
+            );
+          }
+        }
+        return simulator;
+      }
+
+      it("Matches a scripted multi-user timeline to the wei", async () => {
+        const simulator = await expectSameResults([
+          { at: 0, call: "fundRewards", amount: ODD * 3n },
+          { at: 1, user: 0, call: "stake", amount: ODD },
+          { at: 17, user: 1, call: "stake", amount: TINY },
+          { at: period / 3, user: 2, call: "stake", amount: ODD * 2n + 1n },
+          { at: period, user: 0, call: "updateReward" },
+          { at: period + 1, user: 0, call: "claimReward" },
+          { at: period + 17, user: 1, call: "updateReward" },
+          { at: period + 18, user: 1, call: "restake" },
+          { at: period + period / 3, user: 2, call: "updateReward" },
+          { at: 2 * period, user: 0, call: "unstake", amount: ODD / 3n },
+          { at: 2 * period + 5, call: "setRewardRate", amount: 37n },
+          { at: 3 * period, user: 0, call: "updateReward" },
+          { at: 3 * period + 1, user: 2, call: "restake" },
+          { at: 4 * period, user: 1, call: "unstake", amount: TINY },
+          { at: 5 * period, user: 0, call: "claimReward" },
+        ]);
+        expect(simulator.getStaker(users[0].address).pendingRewards).to.equal(
+          0n
+        );
+      });
+
+      it("Reverts with the same errors", async () => {
+        await expectSameResults([
+          { at: 0, user: 0, call: "unstake", amount: 1n },
+          { at: 1, user: 0, call: "stake", amount: 0n },
+          { at: 2, user: 0, call: "stake", amount: ODD },
+          { at: 3, user: 0, call: "updateReward" },
+          { at: 4, user: 0, call: "unstake", amount: ODD },
+          { at: 5, user: 0, call: "claimReward" },
+          { at: period + 2, user: 0, call: "updateReward" },
+          { at: period + 3, user: 0, call: "updateReward" },
+          { at: period + 4, user: 0, call: "unstake", amount: ODD + 1n },
+          // the reserve is empty
+          { at: period + 5, user: 0, call: "claimReward" },
+          { at: period + 6, user: 0, call: "restake" },
+          { at: period + 7, call: "setRewardRate", amount: 0n },
+        ]);
+      });
+
+      for (const seed of [1, 2, 3]) {
+        it(`Matches a random timeline (seed ${seed})`, async () => {
+          await expectSameResults([
+            { at: 0, call: "fundRewards", amount: ODD * 1000n },
+            ...randomSteps(seed, 40, period),
+          ]);
+        });
+      }
+    });
+  }
+
+  it("Projects the rewards of a single staker", async () => {
+    const config = { rewardRate: 100n, lockPeriod: DAY, epochLength: DAY };
+    const amount = ethers.utils.parseUnits("1000", 18).toBigInt();
+
+    // alone in the pool, he receives the whole 100 tokens a day, minus the accumulator's rounding
+    const alone = projectRewards(config, amount, 0n, 30);
+    expect(BigNumber.from(alone.rewards)).to.be.closeTo(
+      ethers.utils.parseUnits("3000", 18),
+      1_000_000
+    );
+    expect(alone.apr).to.be.closeTo(3650, 0.01);
+    // restaking doesn't change his share of the pool
+    expect(BigNumber.from(alone.compoundedRewards)).to.be.closeTo(
+      alone.rewards,
+      1_000_000
+    );
+
+    // with 3000 tokens staked by others, he receives a quarter of them
+    const shared = projectRewards(config, amount, amount * 3n, 30);
+    expect(BigNumber.from(shared.rewards)).to.be.closeTo(
+      ethers.utils.parseUnits("750", 18),
+      1_000_000
+    );
+    expect(shared.apr).to.be.closeTo(912.5, 0.01);
+    expect(shared.compoundedRewards > shared.rewards).to.be.true;
+    expect(shared.apy).to.be.gt(shared.apr);
+  });
+
+  it("Rejects projections without days or without a stake", async () => {
+    const config = { rewardRate: 100n, lockPeriod: DAY, epochLength: DAY };
+    const amount = ethers.utils.parseUnits("1000", 18).toBigInt();
+
+    for (const days of [0, -1, 0.5, NaN]) {
+      expect(() => projectRewards(config, amount, 0n, days)).to.throw(
+        `Invalid number of days ${days}, the projection must last at least one whole day`
+      );
+    }
+    expect(() => aprTable(config, [amount], [0n], 0)).to.throw(
+      "Invalid number of days 0"
+    );
+    expect(() => projectRewards(config, 0n, amount, 30)).to.throw(
+      "Invalid amount 0, the projected stake must be greater than 0"
+    );
+  });
+
+  it("Builds an APR table for every amount and total staked", async () => {
+    const config = { rewardRate: 100n, lockPeriod: DAY, epochLength: DAY };
+    const amounts = [100n, 1000n].map((amount) =>
+      ethers.utils.parseUnits(`${amount}`, 18).toBigInt()
+    );
+    const otherStaked = [0n, 9000n, 99000n].map((amount) =>
+      ethers.utils.parseUnits(`${amount}`, 18).toBigInt()
+    );
+
+    const table = aprTable(config, amounts, otherStaked, 365);
+    expect(table).to.have.length(6);
+    expect(table.map((row) => [row.amount, row.otherStaked])).to.deep.equal(
+      amounts.flatMap((amount) => otherStaked.map((other) => [amount, other]))
+    );
+    // a larger share of the pool earns more but at a lower rate
+    expect(table[4].rewards > table[1].rewards).to.be.true;
+    expect(table[4].apr).to.be.lt(table[1].apr);
+  });
+});
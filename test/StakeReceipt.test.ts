@@ -0,0 +1,277 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+
+import { MyToken1, StakeReceipt, Staking } from "../typechain-types";
+
+const DAY = 86400;
+
+describe("StakeReceipt", function () {
+  let staking: Staking;
+  let receipt: StakeReceipt;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+  const amount = ethers.utils.parseUnits("1000", 18);
+
+  beforeEach(async function () {
+    [owner, user1, user2, user3] = await ethers.getSigners();
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    await staking.deployed();
+    receipt = (await ethers.getContractAt(
+      "StakeReceipt",
+      await staking.receipt()
+    )) as StakeReceipt;
+
+    const reserve = ethers.utils.parseUnits("100000", 18);
+    await myToken1.mint(owner.address, reserve);
+    await myToken1.approve(staking.address, reserve);
+    await staking.fundRewards(reserve);
+
+    for (const user of [user1, user2, user3]) {
+      await myToken1.mint(user.address, amount);
+      await myToken1
+        .connect(user)
+        .approve(staking.address, ethers.constants.MaxUint256);
+    }
+  });
+
+  // Checks that every user holds as many receipts as he has staked
+  async function expectReceiptsMatchStakes() {
+    for (const user of [user1, user2, user3]) {
+      expect(await receipt.balanceOf(user.address)).to.equal(
+        (await staking.getStaker(user.address)).amountStaked
+      );
+    }
+    expect(await receipt.totalSupply()).to.equal(await staking.totalStaked());
+  }
+
+  it("Is deployed by Staking and named after the staked token", async () => {
+    expect(await receipt.staking()).to.equal(staking.address);
+    expect(await receipt.name()).to.equal("Staked MyToken1");
+    expect(await receipt.symbol()).to.equal("stMTK1");
+    expect(await receipt.decimals()).to.equal(18);
+  });
+
+  it("Mints the receipts on stake and burns them on unstake", async () => {
+    await staking.addTier(2 * DAY, 20000);
+    await staking.connect(user1).stake(amount.div(2));
+    await staking.connect(user1).stakeInTier(amount.div(4), 1);
+    await staking.connect(user2).stake(amount.div(2));
+    expect(await receipt.balanceOf(user1.address)).to.equal(
+      amount.mul(3).div(4)
+    );
+    await expectReceiptsMatchStakes();
+
+    await time.increase(DAY);
+    await staking.connect(user1).updateReward();
+    await staking.connect(user1).restake();
+    await staking.connect(user2).unstake(amount.div(4));
+    await expectReceiptsMatchStakes();
+
+    await time.increase(2 * DAY);
+    await staking.connect(user1).unstakePosition(0);
+    await staking.connect(user2).unstake(amount.div(4));
+    expect(await receipt.balanceOf(user2.address)).to.equal(0);
+    await expectReceiptsMatchStakes();
+  });
+
+  it("Burns the receipts of the unbonding and emergency withdrawn tokens", async () => {
+    await staking.setUnbondingPeriod(DAY);
+    await staking.connect(user1).stake(amount);
+    await time.increase(DAY);
+
+    await staking.connect(user1).requestUnstake(amount.div(4));
+    expect(await receipt.balanceOf(user1.address)).to.equal(
+      amount.mul(3).div(4)
+    );
+    await staking.connect(user1).cancelUnstake(0);
+    expect(await receipt.balanceOf(user1.address)).to.equal(amount);
+
+    await staking.pause();
+    await staking.connect(user1).emergencyWithdraw();
+    expect(await receipt.balanceOf(user1.address)).to.equal(0);
+    await expectReceiptsMatchStakes();
+  });
+
+  it("Only lets Staking mint and burn, and only the receipt move stakes", async () => {
+    await staking.connect(user1).stake(amount);
+
+    await expect(
+      receipt.connect(user1).sync(user1.address, 0)
+    ).to.be.revertedWithCustomError(receipt, "StakeReceipt__NotStaking");
+    await expect(
+      staking.connect(user1).transferStake(user1.address, user2.address, 1)
+    ).to.be.revertedWithCustomError(staking, "Staking__NotReceipt");
+  });
+
+  it("Moves the stake with the receipts, mid-lock", async () => {
+    await staking.connect(user2).stake(100);
+    await time.increase(2 * DAY);
+    await staking.connect(user1).stake(500);
+    const { lastStakeTime } = await staking.getStaker(user1.address);
+    await time.increase(DAY / 2);
+
+    // the received stake would extend the lock of the recipient's own stake
+    await expect(
+      receipt.connect(user1).transfer(user2.address, 200)
+    ).to.be.revertedWithCustomError(staking, "Staking__TransferNotAccepted");
+    await expect(staking.connect(user2).setAcceptStakeTransfers(true))
+      .to.emit(staking, "StakeTransfersAccepted")
+      .withArgs(user2.address, true);
+    expect(await staking.acceptsStakeTransfers(user2.address)).to.be.true;
+
+    await expect(receipt.connect(user1).transfer(user2.address, 200))
+      .to.emit(staking, "StakeTransferred")
+      .withArgs(user1.address, user2.address, 200, anyValue)
+      .and.to.emit(receipt, "Transfer")
+      .withArgs(user1.address, user2.address, 200);
+
+    const sender = await staking.getStaker(user1.address);
+    const recipient = await staking.getStaker(user2.address);
+    expect(sender.amountStaked).to.equal(300);
+    expect(sender.weightedAmount).to.equal(300);
+    expect(recipient.amountStaked).to.equal(300);
+    expect(recipient.weightedAmount).to.equal(300);
+    expect(await staking.totalStaked()).to.equal(600);
+    await expectReceiptsMatchStakes();
+
+    // the received stake keeps its lock, which now applies to the recipient's whole stake
+    expect(recipient.lastStakeTime).to.equal(lastStakeTime);
+    await expect(
+      staking.connect(user2).unstake(100)
+    ).to.be.revertedWithCustomError(staking, "Staking__UnstakeNotAllowed");
+    await expect(
+      staking.connect(user1).unstake(100)
+    ).to.be.revertedWithCustomError(staking, "Staking__UnstakeNotAllowed");
+
+    await time.increaseTo(lastStakeTime + DAY);
+    await staking.connect(user2).unstake(300);
+    expect(await myToken1.balanceOf(user2.address)).to.equal(amount.add(200));
+    await expectReceiptsMatchStakes();
+  });
+
+  it("Doesn't let a third party delay another staker's unlock", async () => {
+    await staking.connect(user1).stake(500);
+    const { lastStakeTime } = await staking.getStaker(user1.address);
+    await time.increaseTo(lastStakeTime + DAY - 60);
+
+    // a fresh stake of 1 wei sent right before the unlock would lock user1 for another day
+    await staking.connect(user3).stake(1);
+    await expect(
+      receipt.connect(user3).transfer(user1.address, 1)
+    ).to.be.revertedWithCustomError(staking, "Staking__TransferNotAccepted");
+    const [, , unlockTime] = await staking.canUnstake(user1.address);
+    expect(unlockTime).to.equal(lastStakeTime + DAY);
+
+    // once the sender's lock has passed, the transfer doesn't delay anything and needs no consent
+    await time.increaseTo(lastStakeTime + DAY);
+    await staking.connect(user1).unstake(100);
+    await time.increase(DAY);
+    await receipt.connect(user3).transfer(user1.address, 1);
+    const recipient = await staking.getStaker(user1.address);
+    expect(recipient.amountStaked).to.equal(401);
+    expect(recipient.lastStakeTime).to.equal(lastStakeTime);
+    await staking.connect(user1).unstake(401);
+    await expectReceiptsMatchStakes();
+  });
+
+  it("Moves the accrued rewards along with the stake", async () => {
+    await staking.connect(user1).stake(amount);
+    const { firstStakeTime } = await staking.getStaker(user1.address);
+
+    await time.setNextBlockTimestamp(firstStakeTime + DAY / 2);
+    await receipt.connect(user1).transfer(user2.address, amount);
+    const recipient = await staking.getStaker(user2.address);
+    expect(recipient.accruedRewards).to.be.closeTo(
+      ethers.utils.parseUnits("50", 18),
+      ethers.utils.parseUnits("1", 15)
+    );
+    expect(recipient.firstStakeTime).to.equal(firstStakeTime);
+    expect((await staking.getStaker(user1.address)).accruedRewards).to.equal(0);
+    expect(await staking.stakerCount()).to.equal(1);
+
+    // the recipient can update the rewards of the whole epoch once it has passed since the first stake
+    await time.setNextBlockTimestamp(firstStakeTime + DAY);
+    await staking.connect(user2).updateReward();
+    expect(
+      (await staking.getStaker(user2.address)).pendingRewards
+    ).to.be.closeTo(
+      ethers.utils.parseUnits("100", 18),
+      ethers.utils.parseUnits("1", 15)
+    );
+    expect(await staking.earned(user1.address)).to.equal(0);
+  });
+
+  it("Moves the accrued rewards pro rata of the transferred amount", async () => {
+    await staking.connect(user1).stake(amount);
+    await time.increase(DAY / 2);
+
+    const transfer = await receipt
+      .connect(user1)
+      .transfer(user3.address, amount.div(4));
+    const event = (await transfer.wait()).events?.find(
+      (log) => log.address === staking.address
+    );
+    const rewards = staking.interface.parseLog(event!).args.rewards;
+    const { accruedRewards } = await staking.getStaker(user1.address);
+    expect(rewards).to.be.gt(0);
+    expect(rewards).to.equal(accruedRewards.add(rewards).div(4));
+    expect((await staking.getStaker(user3.address)).accruedRewards).to.equal(
+      rewards
+    );
+
+    // from now on each of them earns his share of the pool
+    const [earned1, earned3] = await Promise.all([
+      staking.earned(user1.address),
+      staking.earned(user3.address),
+    ]);
+    await time.increase(DAY);
+    expect((await staking.earned(user1.address)).sub(earned1)).to.be.closeTo(
+      ethers.utils.parseUnits("75", 18),
+      ethers.utils.parseUnits("1", 15)
+    );
+    expect((await staking.earned(user3.address)).sub(earned3)).to.be.closeTo(
+      ethers.utils.parseUnits("25", 18),
+      ethers.utils.parseUnits("1", 15)
+    );
+  });
+
+  it("Can be moved with an allowance, but not the stake locked in positions", async () => {
+    await staking.addTier(2 * DAY, 20000);
+    await staking.connect(user1).stake(200);
+    await staking.connect(user1).stakeInTier(300, 1);
+
+    await receipt.connect(user1).approve(user2.address, 500);
+    await expect(
+      receipt.connect(user2).transferFrom(user1.address, user3.address, 201)
+    ).to.be.revertedWithCustomError(staking, "Staking__AmountExceedsStake");
+    await receipt
+      .connect(user2)
+      .transferFrom(user1.address, user3.address, 200);
+
+    expect((await staking.getStaker(user3.address)).amountStaked).to.equal(200);
+    const sender = await staking.getStaker(user1.address);
+    expect(sender.amountStaked).to.equal(300);
+    expect(sender.lockedAmount).to.equal(300);
+    expect(await receipt.allowance(user1.address, user2.address)).to.equal(300);
+    await expectReceiptsMatchStakes();
+  });
+});
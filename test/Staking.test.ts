@@ -1,1190 +1,3284 @@
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import chai, { expect } from "chai";
 import chaiAsPromised from "chai-as-promised";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  BigNumber,
+  BigNumberish,
+  CallOverrides,
+  ContractTransaction,
+  Wallet,
+} from "ethers";
 import { ethers } from "hardhat";
 
+import { signPermit } from "../scripts/lib/permit";
 import { MyToken1, Staking } from "../typechain-types";
 
 chai.use(chaiAsPromised);
 
-describe("Contract", function () {
-  let staking: Staking;
-  let myToken1: MyToken1;
-  let owner: SignerWithAddress;
-  let user1: SignerWithAddress;
-  let user2: SignerWithAddress;
-  let user3: SignerWithAddress;
-
-  beforeEach(async function () {
-    [owner, user1, user2, user3] = await ethers.getSigners();
-
-    const myToken1Factory = await ethers.getContractFactory("MyToken1");
-    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
-    await myToken1.deployed();
-
-    const stakingFactory = await ethers.getContractFactory("Staking");
-    staking = (await stakingFactory.deploy(myToken1.address, 100)) as Staking;
-    await staking.deployed();
-  });
-
-  it("Initializes contract with correct staked token and daily reward rate", async () => {
-    const stakedTokenAddress = await staking.stakedToken();
-    expect(stakedTokenAddress).to.equal(myToken1.address);
-
-    const dailyReward = await staking.getRewardRate();
-    expect(dailyReward).to.equal(100);
-  });
-
-  it("Reverts if the staked token is initialized with address 0", async () => {
-    const stakingFactory = await ethers.getContractFactory("Staking");
-    await expect(
-      stakingFactory.deploy(ethers.constants.AddressZero, 100)
-    ).to.be.revertedWithCustomError(staking, "Staking__AddressZero");
-  });
-
-  it("Reverts if the daily reward is initialized with 0", async () => {
-    const stakingFactory = await ethers.getContractFactory("Staking");
-    await expect(
-      stakingFactory.deploy(staking.address, 0)
-    ).to.be.revertedWithCustomError(staking, "Staking__RewardRateZero");
-  });
-
-  it("Reverts if a user tries to stake 0 tokens", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await expect(staking.connect(user1).stake(0)).to.be.revertedWithCustomError(
-      staking,
-      "Staking__InvalidAmount"
-    );
-  });
-
-  // -----------------------
-  /* STAKE FUNCTION TESTS */
-  // ------------------------
-  it("Reverts if a user has insufficient token balance", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await expect(
-      staking.connect(user1).stake(1200)
-    ).to.be.revertedWithCustomError(staking, "Staking__NotEnoughTokens");
-  });
-
-  it("Initializes the struct correctly when staking for the first time", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(100);
-    const staker = await staking.getStaker(user1.address);
-
-    expect(staker.amountStaked).to.equal(100);
-    expect(staker.pendingRewards).to.equal(0);
-    expect(staker.lastReward).to.equal(0);
-    expect(staker.firstStakeTime).to.equal(
-      (await ethers.provider.getBlock("latest")).timestamp
-    );
-    expect(staker.lastUpdateTime).to.equal(0);
-    expect(staker.lastStakeTime).to.equal(
-      (await ethers.provider.getBlock("latest")).timestamp
-    );
-    expect(staker.rewardsUpdated).to.equal(false);
-  });
-
-  it("Updates Staker struct and totalStaked correctly", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    // Stake
-    await staking.connect(user1).stake(200);
-
-    // Check Staker struct
-    const staker = await staking.getStaker(user1.address);
-    expect(staker.amountStaked).to.equal(200);
-
-    // Check totalStaked
-    const totalStaked = await staking.totalStaked();
-    expect(totalStaked).to.equal(200);
-  });
-
-  it("Updates the user's total staked amount correctly after multiple stakes", async () => {
-    await myToken1.mint(user1.address, 1000);
-
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(100);
-    await staking.connect(user1).stake(200);
-    const staker = await staking.getStaker(user1.address);
-
-    expect(staker.amountStaked).to.equal(300);
-  });
-
-  it("Updates the total staked amount correctly after multiple users stake", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await myToken1.mint(user2.address, 1000);
-    await myToken1.connect(user2).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(100);
-    await staking.connect(user2).stake(200);
-    const totalStakedAmount = await staking.totalStaked();
-
-    expect(totalStakedAmount).to.equal(300);
-  });
-
-  it("Emits Staked event", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    // Stake and check event
-    await expect(staking.connect(user1).stake(200))
-      .to.emit(staking, "Staked")
-      .withArgs(user1.address, 200);
-  });
-
-  it("Transfers tokens from the staker's address to the staking contract", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(400);
-    const user1Balance = await myToken1.balanceOf(user1.address);
-    const stakingContractBalance = await myToken1.balanceOf(staking.address);
-
-    expect(user1Balance).to.equal(600);
-    expect(stakingContractBalance).to.equal(400);
-  });
-
-  // -----------------------
-  /* UNSTAKE FUNCTION TESTS */
-  // ------------------------
-  it("Unstakes and sets to 0 user's amount staked", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).unstake();
-
-    const staker = await staking.getStaker(user1.address);
-    expect(staker.amountStaked).to.equal(0);
-  });
-
-  it("Unstakes and updates user's token balance", async () => {
-    await myToken1.mint(user1.address, 600);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).unstake();
-
-    const userBalance = await myToken1.balanceOf(user1.address);
-    expect(userBalance).to.equal(600);
-  });
-
-  it("Reverts when a user tries to unstake without having any staked tokens", async () => {
-    await expect(
-      staking.connect(user1).unstake()
-    ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
-  });
-
-  it("Updates the total staked amount correctly after a user unstakes", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).unstake();
-
-    const totalStaked = await staking.getTotalStaked();
-    expect(totalStaked).to.equal(0);
-  });
-
-  it("Updates the total staked amount correctly after multiple users unstake", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-    await myToken1.mint(user2.address, 500);
-    await myToken1.connect(user2).approve(staking.address, 500);
-    await myToken1.mint(user3.address, 500);
-    await myToken1.connect(user3).approve(staking.address, 500);
-
-    await staking.connect(user1).stake(300);
-    await staking.connect(user2).stake(250);
-    await staking.connect(user3).stake(400);
-
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).unstake();
-
-    const totalStaked = await staking.getTotalStaked();
-    expect(totalStaked).to.equal(650);
-  });
-
-  it("Emits the Unstaked event with the correct values", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    await staking.connect(user1).stake(240);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-
-    await expect(staking.connect(user1).unstake())
-      .to.emit(staking, "Unstaked")
-      .withArgs(user1.address, 240);
-  });
-
-  it("Should not allow unstaking before 24 hours", async () => {
-    await myToken1.mint(user1.address, 600);
-    await myToken1.connect(user1).approve(staking.address, 600);
-
-    await staking.connect(user1).stake(500);
-    await expect(
-      staking.connect(user1).unstake()
-    ).to.be.revertedWithCustomError(staking, "Staking__UnstakeNotAllowed");
-  });
-
-  it("Should allow unstaking after 24 hours", async () => {
-    await myToken1.mint(user1.address, 600);
-    await myToken1.connect(user1).approve(staking.address, 600);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-
-    await expect(staking.connect(user1).unstake())
-      .to.emit(staking, "Unstaked")
-      .withArgs(user1.address, 500);
-  });
-
-  // -----------------------
-  /* UPDATEREWARD FUNCTION TESTS */
-  // ------------------------
-  it("Doesn't allow updating rewards if the user hasn't staked (V1)", async () => {
-    await myToken1.mint(user1.address, 500);
-    await myToken1.connect(user1).approve(staking.address, 500);
-
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
-  });
-
-  it("Doesn't allow updating rewards if the user hasn't staked (V2)", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(staking.address, 100000);
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).unstake();
-
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
-  });
-
-  it("Successfully updates rewards after staking (one staker)", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(600);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-
-    const stakerInfo = await staking.getStaker(user1.address);
-    // Check if the update was successful
-    expect(stakerInfo.rewardsUpdated).to.be.equal(true);
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerInfo.pendingRewards,
-      18
-    );
-    // since the user is the only staker he will get 100% of the reward rate
-    expect(Number(rewardsInDecimal)).to.be.equal(await staking.getRewardRate());
-  });
-
-  it("Successfully updates rewards after staking (two stakers V1)", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-    await myToken1.mint(user2.address, 600);
-    await myToken1.connect(user2).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(400);
-    await staking.connect(user2).stake(400);
-
-    // User1 will update his rewards, should have 50% of the reward rate
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const staker1Info = await staking.getStaker(user1.address);
-    expect(staker1Info.rewardsUpdated).to.be.equal(true);
-    const rewards1InDecimal = ethers.utils.formatUnits(
-      staker1Info.pendingRewards,
-      18
-    );
-    // User2 should have the same amount, 50%
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user2).updateReward();
-    const staker2Info = await staking.getStaker(user1.address);
-    expect(staker2Info.rewardsUpdated).to.be.equal(true);
-    const rewards2InDecimal = ethers.utils.formatUnits(
-      staker2Info.pendingRewards,
-      18
-    );
-
-    expect(Number(rewards1InDecimal)).to.be.equal(50);
-    expect(Number(rewards2InDecimal)).to.be.equal(50);
-  });
-
-  it("Successfully updates rewards after staking (two stakers V2)", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-    await myToken1.mint(user2.address, 600);
-    await myToken1.connect(user2).approve(staking.address, 800);
-
-    // User1 will then update this rewards, should have 100% of the reward rate
-    await staking.connect(user1).stake(400);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const staker1Info = await staking.getStaker(user1.address);
-    expect(staker1Info.rewardsUpdated).to.be.equal(true);
-    const rewards1InDecimal = ethers.utils.formatUnits(
-      staker1Info.pendingRewards,
-      18
-    );
-    const lastReward1InDecimal = ethers.utils.formatUnits(
-      staker1Info.lastReward,
-      18
-    );
-    expect(Number(rewards1InDecimal)).to.be.equal(
-      await staking.getRewardRate()
-    );
-
-    // User2 will now stake and then update his rewards
-    // He should receive approx. 55.55% of the reward rate
-    await staking.connect(user2).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user2).updateReward();
-    const staker2Info = await staking.getStaker(user2.address);
-    expect(staker2Info.rewardsUpdated).to.be.equal(true);
-    const rewards2InDecimal = ethers.utils.formatUnits(
-      staker2Info.pendingRewards,
-      18
-    );
-    expect(Number(rewards2InDecimal)).to.be.closeTo(55.55, 0.01);
-
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    // Now when User1 will update his rewards again he should receive
-    // Approx. 44.44% of the reward rate
-    await staking.connect(user1).updateReward();
-    const staker1Updated = await staking.getStaker(user1.address);
-    const rewards3InDecimal = ethers.utils.formatUnits(
-      staker1Updated.pendingRewards,
-      18
-    );
-    const lastReward3InDecimal = ethers.utils.formatUnits(
-      staker1Updated.lastReward,
-      18
-    );
-    // 100% of the reward rate + 44.44% of the reward rate
-    expect(Number(rewards3InDecimal)).to.be.equal(
-      Number(lastReward1InDecimal) + Number(lastReward3InDecimal)
-    );
-  });
-
-  it("Updates rewards after unstaking and staking again", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(600);
-    await ethers.provider.send("evm_increaseTime", [86460]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward(); // should have 100% of reward rate
-    const stakerInfo1 = await staking.getStaker(user1.address);
-    const rewardsInDecimal1 = ethers.utils.formatUnits(
-      stakerInfo1.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal1)).to.be.equal(100);
-
-    await staking.connect(user1).unstake();
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
-
-    await myToken1.connect(user1).approve(staking.address, 800); // approve tokens again before staking
-    await staking.connect(user1).stake(450);
-    await staking.connect(user1).updateReward(); // still receives 100% of reward rate
-
-    const stakerInfo2 = await staking.getStaker(user1.address);
-    const rewardsInDecimal2 = ethers.utils.formatUnits(
-      stakerInfo2.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal2)).to.be.equal(200);
-  });
-
-  it("Should not be able to call updateReward before 24 hours since first stake", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(600);
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__UpdateNotEligible");
-  });
-
-  it("Should be able to call updateReward after 24 hours since first stake", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(600);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await expect(staking.connect(user1).updateReward())
-      .to.emit(staking, "RewardUpdated")
-      .withArgs(user1.address, true);
-  });
-
-  it("Should be able to call updateReward every 24 hours", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(600);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await expect(staking.connect(user1).updateReward())
-      .to.emit(staking, "RewardUpdated")
-      .withArgs(user1.address, true);
-
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__ClaimOncePerDay");
-
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await expect(staking.connect(user1).updateReward())
-      .to.emit(staking, "RewardUpdated")
-      .withArgs(user1.address, true);
-  });
-
-  it("User receives rewards from previous days if he updates rewards after more days (V1)", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.connect(user1).approve(staking.address, 800);
-
-    await staking.connect(user1).stake(600);
-    await ethers.provider.send("evm_increaseTime", [172800]);
-    await ethers.provider.send("evm_mine", []);
-
-    await staking.connect(user1).updateReward();
-    const stakerInfo = await staking.getStaker(user1.address);
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerInfo.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal)).to.be.equal(200);
-  });
-
-  it("User receives rewards from previous days if he updates rewards after more days (V2)", async () => {
-    await myToken1.mint(user1.address, 800);
-    await myToken1.mint(user2.address, 1000);
-    await myToken1.connect(user1).approve(staking.address, 800);
-    await myToken1.connect(user2).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(600);
-    await staking.connect(user2).stake(900);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await staking.connect(user1).updateReward();
-
-    const staker1Info = await staking.getStaker(user1.address);
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      staker1Info.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal)).to.be.equal(40);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await staking.connect(user2).updateReward();
-    const staker2Info = await staking.getStaker(user2.address);
-    const rewardsInDecimal2 = ethers.utils.formatUnits(
-      staker2Info.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal2)).to.be.equal(120);
-  });
-
-  // -----------------------
-  /* CLAIMREWARD FUNCTION TESTS */
-  // ------------------------
-
-  it("Allows users to claim their rewards after updating rewards", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-
-    const stakerBeforeClaim = await staking.getStaker(user1.address);
-    expect(stakerBeforeClaim.rewardsUpdated).to.be.true;
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerBeforeClaim.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal)).to.equal(100);
-
-    await expect(staking.connect(user1).claimReward()).to.not.be.reverted;
-  });
-
-  it("Updates staker's Struct correctly after claiming rewards", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-
-    await staking.connect(user1).updateReward();
-
-    const stakerBeforeClaim = await staking.getStaker(user1.address);
-    expect(stakerBeforeClaim.rewardsUpdated).to.be.true;
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerBeforeClaim.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal)).to.equal(100);
-
-    await staking.connect(user1).claimReward();
-    const stakerAfterClaim = await staking.getStaker(user1.address);
-
-    expect(stakerAfterClaim.pendingRewards).to.equal(0);
-    expect(stakerAfterClaim.rewardsUpdated).to.be.false;
-    expect(await myToken1.balanceOf(user1.address)).to.be.above(
-      stakerBeforeClaim.pendingRewards
-    );
-  });
-
-  it("Revers if user claims rewards without updating the rewards first", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(700);
-    await expect(
-      staking.connect(user1).claimReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
-
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    await expect(staking.connect(user1).claimReward()).to.not.be.reverted;
-  });
-
-  it("Reverts if user claims rewards if he has already claimed them", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    await staking.connect(user1).claimReward();
-
-    await expect(
-      staking.connect(user1).claimReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
-  });
-
-  it("Allows user to claim rewards if he has any pending rewards", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    await staking.connect(user1).unstake();
-
-    expect(await staking.connect(user1).claimReward()).to.not.be.reverted;
-  });
-
-  it("Emits RewardClaimed event after the user claims his rewards", async () => {
-    await myToken1.mint(user1.address, 1000);
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1.connect(user1).approve(staking.address, 1000);
-
-    await staking.connect(user1).stake(500);
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const stakerInfo = await staking.getStaker(user1.address);
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerInfo.pendingRewards,
-      18
-    );
-
-    expect(Number(rewardsInDecimal)).to.equal(await staking.getRewardRate());
-
-    await expect(staking.connect(user1).claimReward())
-      .to.emit(staking, "RewardClaimed")
-      .withArgs(user1.address, 100000000000000000000n); // 100 with 18 decimals
-  });
-
-  it("Transfers rewards to the user's account after claiming", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1
-      .connect(user2)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    await staking.connect(user2).stake(ethers.utils.parseUnits("500", 18));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-
-    await staking.connect(user1).claimReward();
-    const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
-
-    const balanceInDecimal = ethers.utils.formatUnits(
-      user1BalanceAfterClaim,
-      18
-    );
-    expect(Number(balanceInDecimal)).to.be.equal(550);
-  });
-
-  it("Updates user's balance correctly after claiming rewards and unstaking", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1
-      .connect(user2)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    const user1BalanceInitial = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalInitial = ethers.utils.formatUnits(
-      user1BalanceInitial,
-      18
-    ); // 1000
-    //console.log(Number(balanceInDecimalInitial));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    await staking.connect(user2).stake(ethers.utils.parseUnits("500", 18));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterStake = ethers.utils.formatUnits(
-      user1BalanceAfterStake,
-      18
-    ); // 500
-    //console.log(Number(balanceInDecimalAfterStake));
-
-    await staking.connect(user1).claimReward();
-    const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterClaim = ethers.utils.formatUnits(
-      user1BalanceAfterClaim,
-      18
-    ); // 550
-    //console.log(Number(balanceInDecimalAfterClaim));
-
-    await staking.connect(user1).unstake();
-    const user1BalanceAfterUnstake = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterUnstake = ethers.utils.formatUnits(
-      user1BalanceAfterUnstake,
-      18
-    ); // 500
-    expect(Number(balanceInDecimalAfterUnstake)).to.equal(500 + 550);
-  });
-
-  it("Users claim the correct when they update after a couple of days (V1)", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("800", 18));
-
-    await myToken1.mint(staking.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("800", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("600", 18));
-    const userBalanceAfterStake = await myToken1.balanceOf(user1.address);
-    expect(
-      Number(ethers.utils.formatUnits(userBalanceAfterStake, 18))
-    ).to.equal(200);
-    await ethers.provider.send("evm_increaseTime", [172800]);
-    await ethers.provider.send("evm_mine", []);
-
-    await staking.connect(user1).updateReward();
-    let stakerInfo = await staking.getStaker(user1.address);
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerInfo.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal)).to.be.equal(200);
-    await staking.connect(user1).claimReward();
-    const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
-    const balanceAfterClaim = ethers.utils.formatUnits(
-      user1BalanceAfterClaim,
-      18
-    );
-    expect(Number(balanceAfterClaim)).to.equal(400);
-  });
-
-  it("Users claim the correct when they update after a couple of days (V2)", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("800", 18));
-
-    await myToken1.mint(staking.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("800", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("600", 18));
-    const userBalanceAfterStake = await myToken1.balanceOf(user1.address);
-    expect(
-      Number(ethers.utils.formatUnits(userBalanceAfterStake, 18))
-    ).to.equal(200);
-    await ethers.provider.send("evm_increaseTime", [172800]);
-    await ethers.provider.send("evm_mine", []);
-
-    await staking.connect(user1).updateReward();
-    let stakerInfo = await staking.getStaker(user1.address);
-    const rewardsInDecimal = ethers.utils.formatUnits(
-      stakerInfo.pendingRewards,
-      18
-    );
-    expect(Number(rewardsInDecimal)).to.be.equal(200);
-    await staking.connect(user1).claimReward();
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    await staking.connect(user1).claimReward();
-    const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
-    const balanceAfterClaim = ethers.utils.formatUnits(
-      user1BalanceAfterClaim,
-      18
-    );
-    expect(Number(balanceAfterClaim)).to.equal(500);
-  });
-  // -----------------------
-  /* RESTAKE FUNCTION TESTS */
-  // ------------------------
-  it("Updates correctly user's amount staked when restaking", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    // User stakes
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterStake = ethers.utils.formatUnits(
-      user1BalanceAfterStake,
-      18
-    );
-    //console.log(Number(balanceInDecimalAfterStake)); // 500
-
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const stakerAfterUpdate = await staking.getStaker(user1.address);
-    const rewardPending = await stakerAfterUpdate.pendingRewards;
-    const rewardPendingInDecimal = ethers.utils.formatUnits(rewardPending, 18);
-    //console.log(Number(rewardPendingInDecimal)); // 100
-
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await staking.connect(user1).restake();
-    const stakerAfterRestake = await staking.getStaker(user1.address);
-    const amountRestaked = ethers.utils.formatUnits(
-      stakerAfterRestake.amountStaked,
-      18
-    );
-
-    expect(Number(amountRestaked)).to.be.equal(600);
-  });
-
-  it("Resets pending rewards to zero when restaking", async () => {
-    // because the user restaked, he claimed his rewards
-    // so his pending rewards should be set to 0
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    // User stakes
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterStake = ethers.utils.formatUnits(
-      user1BalanceAfterStake,
-      18
-    );
-    //console.log(Number(balanceInDecimalAfterStake)); // 500
-
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const stakerAfterUpdate = await staking.getStaker(user1.address);
-    const rewardPending = await stakerAfterUpdate.pendingRewards;
-    const rewardPendingInDecimal = ethers.utils.formatUnits(rewardPending, 18);
-    //console.log(Number(rewardPendingInDecimal)); // 100
-
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await staking.connect(user1).restake();
-    const stakerAfterRestake = await staking.getStaker(user1.address);
-    const amountRestaked = ethers.utils.formatUnits(
-      stakerAfterRestake.amountStaked,
-      18
-    );
-
-    expect(stakerAfterRestake.pendingRewards).to.equal(0);
-  });
-
-  it("Sets to false if the user updated his rewards", async () => {
-    // if the user stakes also his pending rewards, that means he already claimed them
-    // therefore now his pending rewards are 0, so if he wants to calculate his rewards again
-    // he should call the updateReward() function again
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    // User stakes
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterStake = ethers.utils.formatUnits(
-      user1BalanceAfterStake,
-      18
-    );
-    //console.log(Number(balanceInDecimalAfterStake)); // 500
-
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    const stakerAfterUpdate = await staking.getStaker(user1.address);
-    const rewardPending = await stakerAfterUpdate.pendingRewards;
-    const rewardPendingInDecimal = ethers.utils.formatUnits(rewardPending, 18);
-    //console.log(Number(rewardPendingInDecimal)); // 100
-
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await staking.connect(user1).restake();
-    const stakerAfterRestake = await staking.getStaker(user1.address);
-
-    expect(stakerAfterRestake.rewardsUpdated).to.equal(false);
-  });
-
-  it("Reverts if the user has no staked amount", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await expect(
-      staking.connect(user1).restake()
-    ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
-  });
-
-  it("Reverts when the user has not updated his rewards (V1)", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await expect(
-      staking.connect(user1).restake()
-    ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
-  });
-
-  it("Reverts when the user has not updated his rewards (V2)", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    await staking.connect(user1).claimReward();
-
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await expect(
-      staking.connect(user1).restake()
-    ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
-    await expect(
-      staking.connect(user1).updateReward()
-    ).to.be.revertedWithCustomError(staking, "Staking__ClaimOncePerDay");
-  });
-
-  it("Updates the totalStaked correctly after restaking", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(
-      staking.address,
-      ethers.utils.parseUnits("1000000", 18)
-    );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-
-    // const totalStakedBeforeRestake = await staking.totalStaked();
-    // const totalStakedBeforeRestakeInDecimal = ethers.utils.formatUnits(
-    //   totalStakedBeforeRestake,
-    //   18
-    // );
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).restake();
-
-    const totalStakedAfterRestake = await staking.totalStaked();
-    const totalStakedAfterRestakeInDecimal = ethers.utils.formatUnits(
-      totalStakedAfterRestake,
-      18
-    );
-
-    // new amount will be user's total staked amount + his total rewards
-    // in this case 500 + 100
-    expect(Number(totalStakedAfterRestakeInDecimal)).to.be.equal(600);
-  });
-
-  it("Updates token balances correctly after restaking", async () => {
-    /* let's assume that we only have one staker, his balance is 1000 and the contract's balance is 10000
+// Every scenario runs with the lock period and the reward epoch set to each of these durations
+const DURATIONS = [
+  { name: "1 day", period: 86400 },
+  { name: "7 days", period: 7 * 86400 },
+  { name: "30 days", period: 30 * 86400 },
+];
+
+for (const { name, period } of DURATIONS) {
+  describe(`Contract (${name} lock period and epoch)`, function () {
+    let staking: Staking;
+    let myToken1: MyToken1;
+    let owner: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let user2: SignerWithAddress;
+    let user3: SignerWithAddress;
+
+    beforeEach(async function () {
+      [owner, user1, user2, user3] = await ethers.getSigners();
+
+      const myToken1Factory = await ethers.getContractFactory("MyToken1");
+      myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+      await myToken1.deployed();
+
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      staking = (await stakingFactory.deploy(
+        myToken1.address,
+        myToken1.address,
+        100,
+        period,
+        period,
+        ethers.constants.AddressZero
+      )) as Staking;
+      await staking.deployed();
+    });
+
+    // Mints tokens to the owner and moves them into the reward reserve
+    async function fundRewards(amount: BigNumberish) {
+      await myToken1.mint(owner.address, amount);
+      await myToken1.approve(staking.address, amount);
+      await staking.fundRewards(amount);
+    }
+
+    // Mines the next transaction exactly `seconds` after the latest block,
+    // so that the rewards accrued in between can be checked exactly
+    async function afterSeconds(seconds: number) {
+      await time.setNextBlockTimestamp((await time.latest()) + seconds);
+    }
+
+    // Evaluates an eligibility view at the timestamp of the next block and checks that
+    // the call mined in that block agrees with it: it succeeds when the view allows it,
+    // and otherwise reverts with the expected custom error the view reports
+    async function expectSameOutcome(
+      view: (overrides: CallOverrides) => Promise<[boolean, string, BigNumber]>,
+      call: () => Promise<ContractTransaction>,
+      expectedError?: string
+    ) {
+      await time.setNextBlockTimestamp((await time.latest()) + 1);
+      const [allowed, reason] = await view({ blockTag: "pending" });
+
+      if (expectedError === undefined) {
+        expect(allowed).to.be.true;
+        expect(reason).to.equal("0x00000000");
+        await expect(call()).to.not.be.reverted;
+      } else {
+        expect(allowed).to.be.false;
+        expect(staking.interface.getError(reason).name).to.equal(expectedError);
+        await expect(call()).to.be.revertedWithCustomError(
+          staking,
+          expectedError
+        );
+      }
+    }
+
+    // Mines all the given transactions in the same block
+    async function mineTogether(...transactions: (() => Promise<unknown>)[]) {
+      await ethers.provider.send("evm_setAutomine", [false]);
+      try {
+        for (const transaction of transactions) {
+          await transaction();
+        }
+        await ethers.provider.send("evm_mine", []);
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+    }
+
+    it("Initializes contract with correct staked token and daily reward rate", async () => {
+      const stakedTokenAddress = await staking.stakedToken();
+      expect(stakedTokenAddress).to.equal(myToken1.address);
+
+      const dailyReward = await staking.getRewardRate();
+      expect(dailyReward).to.equal(100);
+    });
+
+    it("Reverts if the staked token is initialized with address 0", async () => {
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      await expect(
+        stakingFactory.deploy(
+          ethers.constants.AddressZero,
+          myToken1.address,
+          100,
+          period,
+          period,
+          ethers.constants.AddressZero
+        )
+      ).to.be.revertedWithCustomError(staking, "Staking__AddressZero");
+    });
+
+    it("Reverts if the reward token is initialized with address 0", async () => {
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      await expect(
+        stakingFactory.deploy(
+          myToken1.address,
+          ethers.constants.AddressZero,
+          100,
+          period,
+          period,
+          ethers.constants.AddressZero
+        )
+      ).to.be.revertedWithCustomError(staking, "Staking__AddressZero");
+    });
+
+    it("Reverts if the daily reward is initialized with 0", async () => {
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      await expect(
+        stakingFactory.deploy(
+          staking.address,
+          staking.address,
+          0,
+          period,
+          period,
+          ethers.constants.AddressZero
+        )
+      ).to.be.revertedWithCustomError(staking, "Staking__RewardRateZero");
+    });
+
+    it("Initializes the lock period and the epoch length", async () => {
+      expect(await staking.getLockPeriod()).to.equal(period);
+      expect(await staking.getEpochLength()).to.equal(period);
+    });
+
+    it("Reverts if the lock period or the epoch length is 0 or longer than a year", async () => {
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      const year = 365 * 86400;
+      for (const [lockPeriod, epochLength] of [
+        [0, period],
+        [period, 0],
+        [year + 1, period],
+        [period, year + 1],
+      ]) {
+        await expect(
+          stakingFactory.deploy(
+            myToken1.address,
+            myToken1.address,
+            100,
+            lockPeriod,
+            epochLength,
+            ethers.constants.AddressZero
+          )
+        ).to.be.revertedWithCustomError(staking, "Staking__InvalidDuration");
+      }
+    });
+
+    it("Allows updating rewards every epoch but unstaking only after the lock period", async () => {
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      const lockedStaking = (await stakingFactory.deploy(
+        myToken1.address,
+        myToken1.address,
+        100,
+        3 * period,
+        period,
+        ethers.constants.AddressZero
+      )) as Staking;
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(lockedStaking.address, 1000);
+
+      await lockedStaking.connect(user1).stake(500);
+      const stakeTime = await time.latest();
+
+      for (let epoch = 1; epoch <= 2; epoch++) {
+        await time.setNextBlockTimestamp(stakeTime + epoch * period);
+        await lockedStaking.connect(user1).updateReward();
+        await expect(
+          lockedStaking.connect(user1).unstake(500)
+        ).to.be.revertedWithCustomError(
+          lockedStaking,
+          "Staking__UnstakeNotAllowed"
+        );
+      }
+      const staker = await lockedStaking.getStaker(user1.address);
+      expect(staker.lastReward).to.equal(ethers.utils.parseUnits("100", 18));
+
+      await time.setNextBlockTimestamp(stakeTime + 3 * period);
+      await expect(lockedStaking.connect(user1).unstake(500)).to.not.be
+        .reverted;
+    });
+
+    it("Reverts if a user tries to stake 0 tokens", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await expect(
+        staking.connect(user1).stake(0)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidAmount");
+    });
+
+    // -----------------------
+    /* STAKE FUNCTION TESTS */
+    // ------------------------
+    it("Reverts if a user has insufficient token balance", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await expect(
+        staking.connect(user1).stake(1200)
+      ).to.be.revertedWithCustomError(staking, "Staking__NotEnoughTokens");
+    });
+
+    it("Initializes the struct correctly when staking for the first time", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(100);
+      const staker = await staking.getStaker(user1.address);
+
+      expect(staker.amountStaked).to.equal(100);
+      expect(staker.pendingRewards).to.equal(0);
+      expect(staker.lastReward).to.equal(0);
+      expect(staker.firstStakeTime).to.equal(
+        (await ethers.provider.getBlock("latest")).timestamp
+      );
+      expect(staker.lastUpdateTime).to.equal(0);
+      expect(staker.lastStakeTime).to.equal(
+        (await ethers.provider.getBlock("latest")).timestamp
+      );
+      expect(staker.rewardsUpdated).to.equal(false);
+    });
+
+    it("Updates Staker struct and totalStaked correctly", async () => {
+      await myToken1.mint(user1.address, 500);
+      await myToken1.connect(user1).approve(staking.address, 500);
+
+      // Stake
+      await staking.connect(user1).stake(200);
+
+      // Check Staker struct
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(200);
+
+      // Check totalStaked
+      const totalStaked = await staking.totalStaked();
+      expect(totalStaked).to.equal(200);
+    });
+
+    it("Updates the user's total staked amount correctly after multiple stakes", async () => {
+      await myToken1.mint(user1.address, 1000);
+
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(100);
+      await staking.connect(user1).stake(200);
+      const staker = await staking.getStaker(user1.address);
+
+      expect(staker.amountStaked).to.equal(300);
+    });
+
+    it("Updates the total staked amount correctly after multiple users stake", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(100);
+      await staking.connect(user2).stake(200);
+      const totalStakedAmount = await staking.totalStaked();
+
+      expect(totalStakedAmount).to.equal(300);
+    });
+
+    it("Emits Staked event", async () => {
+      for (const user of [user1, user2]) {
+        await myToken1.mint(user.address, 500);
+        await myToken1.connect(user).approve(staking.address, 500);
+      }
+
+      await staking.connect(user2).stake(50);
+
+      // Stake and check event
+      const timestamp = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(timestamp);
+      await expect(staking.connect(user1).stake(200))
+        .to.emit(staking, "Staked")
+        .withArgs(user1.address, 200, 200, 250, timestamp);
+      await time.setNextBlockTimestamp(timestamp + 1);
+      await expect(staking.connect(user1).stake(100))
+        .to.emit(staking, "Staked")
+        .withArgs(user1.address, 100, 300, 350, timestamp + 1);
+    });
+
+    it("Transfers tokens from the staker's address to the staking contract", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(400);
+      const user1Balance = await myToken1.balanceOf(user1.address);
+      const stakingContractBalance = await myToken1.balanceOf(staking.address);
+
+      expect(user1Balance).to.equal(600);
+      expect(stakingContractBalance).to.equal(400);
+    });
+
+    // -----------------------
+    /* STAKE WITH PERMIT TESTS */
+    // ------------------------
+    it("Stakes with a permit instead of an approve", async () => {
+      await myToken1.mint(user1.address, 1000);
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(
+        myToken1,
+        user1,
+        staking.address,
+        400,
+        deadline
+      );
+
+      await time.setNextBlockTimestamp(deadline - 60);
+      await expect(
+        staking.connect(user1).stakeWithPermit(400, deadline, v, r, s)
+      )
+        .to.emit(staking, "Staked")
+        .withArgs(user1.address, 400, 400, 400, deadline - 60);
+      expect((await staking.getStaker(user1.address)).amountStaked).to.equal(
+        400
+      );
+      expect(await myToken1.balanceOf(staking.address)).to.equal(400);
+      expect(await myToken1.nonces(user1.address)).to.equal(1);
+    });
+
+    it("Reverts staking with a permit past its deadline", async () => {
+      await myToken1.mint(user1.address, 1000);
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(
+        myToken1,
+        user1,
+        staking.address,
+        400,
+        deadline
+      );
+
+      await time.setNextBlockTimestamp(deadline + 1);
+      await expect(
+        staking.connect(user1).stakeWithPermit(400, deadline, v, r, s)
+      ).to.be.revertedWith("ERC20Permit: expired deadline");
+    });
+
+    it("Reverts staking with a permit that has already been used", async () => {
+      await myToken1.mint(user1.address, 1000);
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(
+        myToken1,
+        user1,
+        staking.address,
+        400,
+        deadline
+      );
+
+      await staking.connect(user1).stakeWithPermit(400, deadline, v, r, s);
+      await expect(
+        staking.connect(user1).stakeWithPermit(400, deadline, v, r, s)
+      ).to.be.revertedWith("ERC20Permit: invalid signature");
+    });
+
+    it("Stakes when someone else submitted the permit first", async () => {
+      await myToken1.mint(user1.address, 1000);
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(
+        myToken1,
+        user1,
+        staking.address,
+        400,
+        deadline
+      );
+
+      // the permit is taken from the mempool and submitted before the stake
+      await myToken1
+        .connect(user2)
+        .permit(user1.address, staking.address, 400, deadline, v, r, s);
+      await expect(
+        staking.connect(user1).stakeWithPermit(400, deadline, v, r, s)
+      )
+        .to.emit(staking, "Staked")
+        .withArgs(user1.address, 400, 400, 400, anyValue);
+      expect(await myToken1.balanceOf(staking.address)).to.equal(400);
+      expect(await myToken1.allowance(user1.address, staking.address)).to.equal(
+        0
+      );
+    });
+
+    it("Reverts staking with a permit signed by another account", async () => {
+      await myToken1.mint(user1.address, 1000);
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(
+        myToken1,
+        user2,
+        staking.address,
+        400,
+        deadline
+      );
+
+      await expect(
+        staking.connect(user1).stakeWithPermit(400, deadline, v, r, s)
+      ).to.be.revertedWith("ERC20Permit: invalid signature");
+      expect(await staking.totalStaked()).to.equal(0);
+    });
+
+    // -----------------------
+    /* UNSTAKE FUNCTION TESTS */
+    // ------------------------
+    it("Unstakes and sets to 0 user's amount staked", async () => {
+      await myToken1.mint(user1.address, 500);
+      await myToken1.connect(user1).approve(staking.address, 500);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).unstake(500);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(0);
+    });
+
+    it("Unstakes and updates user's token balance", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 500);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).unstake(500);
+
+      const userBalance = await myToken1.balanceOf(user1.address);
+      expect(userBalance).to.equal(600);
+    });
+
+    it("Reverts when a user tries to unstake without having any staked tokens", async () => {
+      await expect(
+        staking.connect(user1).unstake(100)
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+    });
+
+    it("Updates the total staked amount correctly after a user unstakes", async () => {
+      await myToken1.mint(user1.address, 500);
+      await myToken1.connect(user1).approve(staking.address, 500);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).unstake(500);
+
+      const totalStaked = await staking.getTotalStaked();
+      expect(totalStaked).to.equal(0);
+    });
+
+    it("Updates the total staked amount correctly after multiple users unstake", async () => {
+      await myToken1.mint(user1.address, 500);
+      await myToken1.connect(user1).approve(staking.address, 500);
+      await myToken1.mint(user2.address, 500);
+      await myToken1.connect(user2).approve(staking.address, 500);
+      await myToken1.mint(user3.address, 500);
+      await myToken1.connect(user3).approve(staking.address, 500);
+
+      await staking.connect(user1).stake(300);
+      await staking.connect(user2).stake(250);
+      await staking.connect(user3).stake(400);
+
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).unstake(300);
+
+      const totalStaked = await staking.getTotalStaked();
+      expect(totalStaked).to.equal(650);
+    });
+
+    it("Emits the Unstaked event with the correct values", async () => {
+      await myToken1.mint(user1.address, 500);
+      await myToken1.connect(user1).approve(staking.address, 500);
+
+      await staking.connect(user1).stake(240);
+      const timestamp = (await time.latest()) + period + 60;
+      await time.setNextBlockTimestamp(timestamp);
+
+      await expect(staking.connect(user1).unstake(100))
+        .to.emit(staking, "Unstaked")
+        .withArgs(user1.address, 100, 140, 140, timestamp);
+      await expect(staking.connect(user1).unstake(140))
+        .to.emit(staking, "Unstaked")
+        .withArgs(user1.address, 140, 0, 0, timestamp + 1);
+    });
+
+    it("Should not allow unstaking before 24 hours", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 600);
+
+      await staking.connect(user1).stake(500);
+      await expect(
+        staking.connect(user1).unstake(500)
+      ).to.be.revertedWithCustomError(staking, "Staking__UnstakeNotAllowed");
+    });
+
+    it("Should allow unstaking after 24 hours", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 600);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(staking.connect(user1).unstake(500))
+        .to.emit(staking, "Unstaked")
+        .withArgs(user1.address, 500, 0, 0, anyValue);
+    });
+
+    it("Unstakes part of the staked amount", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 600);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(staking.connect(user1).unstake(200))
+        .to.emit(staking, "Unstaked")
+        .withArgs(user1.address, 200, 300, 300, anyValue);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(300);
+      expect(await staking.totalStaked()).to.equal(300);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(300);
+    });
+
+    it("Doesn't reset the lock when unstaking part of the stake", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 600);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).unstake(200);
+      await staking.connect(user1).unstake(300);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(0);
+    });
+
+    it("Reverts when unstaking more than the staked amount", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 600);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        staking.connect(user1).unstake(501)
+      ).to.be.revertedWithCustomError(staking, "Staking__AmountExceedsStake");
+    });
+
+    it("Reverts when unstaking 0 tokens", async () => {
+      await myToken1.mint(user1.address, 600);
+      await myToken1.connect(user1).approve(staking.address, 600);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        staking.connect(user1).unstake(0)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidAmount");
+    });
+
+    it("Settles the rewards of the unstaked part when unstaking part of the stake", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+
+      await mineTogether(
+        () => staking.connect(user1).stake(1000),
+        () => staking.connect(user2).stake(1000)
+      );
+      const stakeTime = await time.latest();
+
+      // user1 keeps the rewards earned by the whole stake during the first day
+      await time.setNextBlockTimestamp(stakeTime + period);
+      await staking.connect(user1).unstake(500);
+
+      // during the second day user1 has 1/3 of the stake, user2 2/3
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+      await mineTogether(
+        () => staking.connect(user1).updateReward(),
+        () => staking.connect(user2).updateReward()
+      );
+
+      const staker1 = await staking.getStaker(user1.address);
+      const staker2 = await staking.getStaker(user2.address);
+      expect(staker1.pendingRewards).to.equal(
+        ethers.utils.parseUnits("83.333333333333333333", 18)
+      );
+      expect(staker2.pendingRewards).to.equal(
+        ethers.utils.parseUnits("116.666666666666666666", 18)
+      );
+    });
+
+    // -----------------------
+    /* UPDATEREWARD FUNCTION TESTS */
+    // ------------------------
+    it("Doesn't allow updating rewards if the user hasn't staked (V1)", async () => {
+      await myToken1.mint(user1.address, 500);
+      await myToken1.connect(user1).approve(staking.address, 500);
+
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+    });
+
+    it("Doesn't allow updating rewards if the user hasn't staked (V2)", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(100000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period + 60]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).unstake(500);
+
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+    });
+
+    it("Successfully updates rewards after staking (one staker)", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+
+      await staking.connect(user1).stake(600);
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+
+      const stakerInfo = await staking.getStaker(user1.address);
+      // Check if the update was successful
+      expect(stakerInfo.rewardsUpdated).to.be.equal(true);
+      const rewardsInDecimal = ethers.utils.formatUnits(
+        stakerInfo.pendingRewards,
+        18
+      );
+      // since the user is the only staker he will get 100% of the reward rate
+      expect(Number(rewardsInDecimal)).to.be.equal(
+        await staking.getRewardRate()
+      );
+    });
+
+    it("Successfully updates rewards after staking (two stakers V1)", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+      await myToken1.mint(user2.address, 600);
+      await myToken1.connect(user2).approve(staking.address, 800);
+
+      await mineTogether(
+        () => staking.connect(user1).stake(400),
+        () => staking.connect(user2).stake(400)
+      );
+      const stakeTime = await time.latest();
+
+      // User1 will update his rewards, should have 50% of the reward rate
+      await time.setNextBlockTimestamp(stakeTime + period);
+      await staking.connect(user1).updateReward();
+      const staker1Info = await staking.getStaker(user1.address);
+      expect(staker1Info.rewardsUpdated).to.be.equal(true);
+
+      // User2 updates one day later, he gets 50% of the reward rate for both days
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+      await staking.connect(user2).updateReward();
+      const staker2Info = await staking.getStaker(user2.address);
+      expect(staker2Info.rewardsUpdated).to.be.equal(true);
+
+      expect(staker1Info.pendingRewards).to.be.equal(
+        ethers.utils.parseUnits("50", 18)
+      );
+      expect(staker2Info.pendingRewards).to.be.equal(
+        ethers.utils.parseUnits("100", 18)
+      );
+    });
+
+    it("Successfully updates rewards after staking (two stakers V2)", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+      await myToken1.mint(user2.address, 600);
+      await myToken1.connect(user2).approve(staking.address, 800);
+
+      // User1 will then update this rewards, should have 100% of the reward rate
+      await staking.connect(user1).stake(400);
+      const stakeTime = await time.latest();
+
+      // User2 stakes in the same block in which User1 updates his rewards
+      await time.setNextBlockTimestamp(stakeTime + period);
+      await mineTogether(
+        () => staking.connect(user1).updateReward(),
+        () => staking.connect(user2).stake(500)
+      );
+      const staker1Info = await staking.getStaker(user1.address);
+      expect(staker1Info.rewardsUpdated).to.be.equal(true);
+      expect(staker1Info.pendingRewards).to.be.equal(
+        ethers.utils.parseUnits("100", 18)
+      );
+
+      // Both update one day later
+      // User2 should receive 5/9 of the reward rate and User1 4/9,
+      // rounded down by the reward per token accumulator
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+      await mineTogether(
+        () => staking.connect(user2).updateReward(),
+        () => staking.connect(user1).updateReward()
+      );
+      const staker2Info = await staking.getStaker(user2.address);
+      expect(staker2Info.rewardsUpdated).to.be.equal(true);
+      expect(staker2Info.pendingRewards).to.be.equal(
+        ethers.utils.parseUnits("55.555555555555555555", 18)
+      );
+
+      const staker1Updated = await staking.getStaker(user1.address);
+      expect(staker1Updated.lastReward).to.be.equal(
+        ethers.utils.parseUnits("44.444444444444444444", 18)
+      );
+      // 100% of the reward rate + 44.44% of the reward rate
+      expect(staker1Updated.pendingRewards).to.be.equal(
+        staker1Info.lastReward.add(staker1Updated.lastReward)
+      );
+    });
+
+    it("Updates rewards after unstaking and staking again", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+
+      await staking.connect(user1).stake(600);
+      await afterSeconds(period);
+      await mineTogether(
+        () => staking.connect(user1).updateReward(), // should have 100% of reward rate
+        () => staking.connect(user1).unstake(600)
+      );
+      const stakerInfo1 = await staking.getStaker(user1.address);
+      const rewardsInDecimal1 = ethers.utils.formatUnits(
+        stakerInfo1.pendingRewards,
+        18
+      );
+      expect(Number(rewardsInDecimal1)).to.be.equal(100);
+
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+
+      await myToken1.connect(user1).approve(staking.address, 800); // approve tokens again before staking
+      await mineTogether(
+        () => staking.connect(user1).stake(450),
+        () => staking.connect(user1).updateReward()
+      );
+
+      // nothing accrues while the user has nothing staked
+      const stakerInfo2 = await staking.getStaker(user1.address);
+      expect(stakerInfo2.rewardsUpdated).to.be.equal(true);
+      expect(stakerInfo2.pendingRewards).to.be.equal(
+        stakerInfo1.pendingRewards
+      );
+    });
+
+    it("Should not be able to call updateReward before 24 hours since first stake", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+
+      await staking.connect(user1).stake(600);
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__UpdateNotEligible");
+    });
+
+    it("Should be able to call updateReward after 24 hours since first stake", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+
+      await staking.connect(user1).stake(600);
+      await afterSeconds(period);
+
+      const tx = await staking.connect(user1).updateReward();
+      const staker = await staking.getStaker(user1.address);
+      await expect(tx)
+        .to.emit(staking, "RewardUpdated")
+        .withArgs(
+          user1.address,
+          staker.pendingRewards,
+          1,
+          ethers.utils.parseUnits("1", 18),
+          staker.pendingRewards,
+          staker.lastUpdateTime
+        );
+    });
+
+    it("Emits the rewards, the epochs accrued and the user's share of the stake on updateReward", async () => {
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      for (const user of [user1, user2]) {
+        await myToken1.mint(user.address, 800);
+        await myToken1.connect(user).approve(staking.address, 800);
+      }
+      await mineTogether(
+        () => staking.connect(user1).stake(600),
+        () => staking.connect(user2).stake(200)
+      );
+      const stakeTime = await time.latest();
+
+      // 3/4 of the stake, so 3/4 of the rewards
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+      await expect(staking.connect(user1).updateReward())
+        .to.emit(staking, "RewardUpdated")
+        .withArgs(
+          user1.address,
+          ethers.utils.parseUnits("150", 18),
+          2,
+          ethers.utils.parseUnits("0.75", 18),
+          ethers.utils.parseUnits("150", 18),
+          stakeTime + 2 * period
+        );
+
+      // the rewards stay pending until they are claimed
+      await time.setNextBlockTimestamp(stakeTime + 3 * period);
+      await expect(staking.connect(user1).updateReward())
+        .to.emit(staking, "RewardUpdated")
+        .withArgs(
+          user1.address,
+          ethers.utils.parseUnits("75", 18),
+          1,
+          ethers.utils.parseUnits("0.75", 18),
+          ethers.utils.parseUnits("225", 18),
+          stakeTime + 3 * period
+        );
+    });
+
+    it("Should be able to call updateReward every 24 hours", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+
+      await staking.connect(user1).stake(600);
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(staking.connect(user1).updateReward()).to.emit(
+        staking,
+        "RewardUpdated"
+      );
+      const pendingRewards = (await staking.getStaker(user1.address))
+        .pendingRewards;
+
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__ClaimOncePerDay");
+
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+
+      const tx = await staking.connect(user1).updateReward();
+      const staker = await staking.getStaker(user1.address);
+      await expect(tx)
+        .to.emit(staking, "RewardUpdated")
+        .withArgs(
+          user1.address,
+          staker.pendingRewards.sub(pendingRewards),
+          1,
+          ethers.utils.parseUnits("1", 18),
+          staker.pendingRewards,
+          staker.lastUpdateTime
+        );
+    });
+
+    it("User receives rewards from previous days if he updates rewards after more days (V1)", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.connect(user1).approve(staking.address, 800);
+
+      await staking.connect(user1).stake(600);
+      await afterSeconds(2 * period);
+
+      await staking.connect(user1).updateReward();
+      const stakerInfo = await staking.getStaker(user1.address);
+      const rewardsInDecimal = ethers.utils.formatUnits(
+        stakerInfo.pendingRewards,
+        18
+      );
+      expect(Number(rewardsInDecimal)).to.be.equal(200);
+    });
+
+    it("User receives rewards from previous days if he updates rewards after more days (V2)", async () => {
+      await myToken1.mint(user1.address, 800);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 800);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+
+      await mineTogether(
+        () => staking.connect(user1).stake(600),
+        () => staking.connect(user2).stake(900)
+      );
+      const stakeTime = await time.latest();
+      await time.setNextBlockTimestamp(stakeTime + period);
+
+      await staking.connect(user1).updateReward();
+
+      const staker1Info = await staking.getStaker(user1.address);
+      const rewardsInDecimal = ethers.utils.formatUnits(
+        staker1Info.pendingRewards,
+        18
+      );
+      expect(Number(rewardsInDecimal)).to.be.equal(40);
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+
+      await staking.connect(user2).updateReward();
+      const staker2Info = await staking.getStaker(user2.address);
+      const rewardsInDecimal2 = ethers.utils.formatUnits(
+        staker2Info.pendingRewards,
+        18
+      );
+      expect(Number(rewardsInDecimal2)).to.be.equal(120);
+    });
+
+    // -----------------------
+    /* CLAIMREWARD FUNCTION TESTS */
+    // ------------------------
+
+    it("Allows users to claim their rewards after updating rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+
+      const stakerBeforeClaim = await staking.getStaker(user1.address);
+      expect(stakerBeforeClaim.rewardsUpdated).to.be.true;
+      const rewardsInDecimal = ethers.utils.formatUnits(
+        stakerBeforeClaim.pendingRewards,
+        18
+      );
+      expect(Number(rewardsInDecimal)).to.equal(100);
+
+      await expect(staking.connect(user1).claimReward()).to.not.be.reverted;
+    });
+
+    it("Updates staker's Struct correctly after claiming rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await afterSeconds(period);
+
+      await staking.connect(user1).updateReward();
+
+      const stakerBeforeClaim = await staking.getStaker(user1.address);
+      expect(stakerBeforeClaim.rewardsUpdated).to.be.true;
+      const rewardsInDecimal = ethers.utils.formatUnits(
+        stakerBeforeClaim.pendingRewards,
+        18
+      );
+      expect(Number(rewardsInDecimal)).to.equal(100);
+
+      await staking.connect(user1).claimReward();
+      const stakerAfterClaim = await staking.getStaker(user1.address);
+
+      expect(stakerAfterClaim.pendingRewards).to.equal(0);
+      expect(stakerAfterClaim.rewardsUpdated).to.be.false;
+      expect(await myToken1.balanceOf(user1.address)).to.be.above(
+        stakerBeforeClaim.pendingRewards
+      );
+    });
+
+    it("Revers if user claims rewards without updating the rewards first", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(700);
+      await expect(
+        staking.connect(user1).claimReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
+
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      await expect(staking.connect(user1).claimReward()).to.not.be.reverted;
+    });
+
+    it("Reverts if user claims rewards if he has already claimed them", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      await staking.connect(user1).claimReward();
+
+      await expect(
+        staking.connect(user1).claimReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
+    });
+
+    it("Allows user to claim rewards if he has any pending rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      await staking.connect(user1).unstake(500);
+
+      expect(await staking.connect(user1).claimReward()).to.not.be.reverted;
+    });
+
+    it("Emits RewardClaimed event after the user claims his rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      const stakerInfo = await staking.getStaker(user1.address);
+      const rewardsInDecimal = ethers.utils.formatUnits(
+        stakerInfo.pendingRewards,
+        18
+      );
+
+      expect(Number(rewardsInDecimal)).to.equal(await staking.getRewardRate());
+
+      const timestamp = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(timestamp);
+      await expect(staking.connect(user1).claimReward())
+        .to.emit(staking, "RewardClaimed")
+        .withArgs(
+          user1.address,
+          100000000000000000000n, // 100 with 18 decimals
+          ethers.utils.parseUnits("999900", 18),
+          timestamp
+        );
+    });
+
+    it("Transfers rewards to the user's account after claiming", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user2)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await mineTogether(
+        () => staking.connect(user1).stake(ethers.utils.parseUnits("500", 18)),
+        () => staking.connect(user2).stake(ethers.utils.parseUnits("500", 18))
+      );
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+
+      await staking.connect(user1).claimReward();
+      const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
+
+      const balanceInDecimal = ethers.utils.formatUnits(
+        user1BalanceAfterClaim,
+        18
+      );
+      expect(Number(balanceInDecimal)).to.be.equal(550);
+    });
+
+    it("Updates user's balance correctly after claiming rewards and unstaking", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user2)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      const user1BalanceInitial = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalInitial = ethers.utils.formatUnits(
+        user1BalanceInitial,
+        18
+      ); // 1000
+      //console.log(Number(balanceInDecimalInitial));
+
+      await mineTogether(
+        () => staking.connect(user1).stake(ethers.utils.parseUnits("500", 18)),
+        () => staking.connect(user2).stake(ethers.utils.parseUnits("500", 18))
+      );
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterStake = ethers.utils.formatUnits(
+        user1BalanceAfterStake,
+        18
+      ); // 500
+      //console.log(Number(balanceInDecimalAfterStake));
+
+      await staking.connect(user1).claimReward();
+      const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterClaim = ethers.utils.formatUnits(
+        user1BalanceAfterClaim,
+        18
+      ); // 550
+      //console.log(Number(balanceInDecimalAfterClaim));
+
+      await staking.connect(user1).unstake(ethers.utils.parseUnits("500", 18));
+      const user1BalanceAfterUnstake = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterUnstake = ethers.utils.formatUnits(
+        user1BalanceAfterUnstake,
+        18
+      ); // 500
+      expect(Number(balanceInDecimalAfterUnstake)).to.equal(500 + 550);
+    });
+
+    it("Users claim the correct when they update after a couple of days (V1)", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("800", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("800", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("600", 18));
+      const userBalanceAfterStake = await myToken1.balanceOf(user1.address);
+      expect(
+        Number(ethers.utils.formatUnits(userBalanceAfterStake, 18))
+      ).to.equal(200);
+      await afterSeconds(2 * period);
+
+      await staking.connect(user1).updateReward();
+      let stakerInfo = await staking.getStaker(user1.address);
+      // 2 days of rewards, the reward per token (200 / 600) is rounded down
+      // to 18 decimals before being multiplied by the staked amount
+      expect(stakerInfo.pendingRewards).to.be.equal(
+        ethers.utils.parseUnits("199.9999999999999998", 18)
+      );
+      await staking.connect(user1).claimReward();
+      const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
+      expect(user1BalanceAfterClaim).to.equal(
+        ethers.utils.parseUnits("399.9999999999999998", 18)
+      );
+    });
+
+    it("Users claim the correct when they update after a couple of days (V2)", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("800", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("800", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("600", 18));
+      const stakeTime = await time.latest();
+      const userBalanceAfterStake = await myToken1.balanceOf(user1.address);
+      expect(
+        Number(ethers.utils.formatUnits(userBalanceAfterStake, 18))
+      ).to.equal(200);
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+
+      await mineTogether(
+        () => staking.connect(user1).updateReward(),
+        () => staking.connect(user1).claimReward()
+      );
+      await time.setNextBlockTimestamp(stakeTime + 3 * period);
+      await staking.connect(user1).updateReward();
+      let stakerInfo = await staking.getStaker(user1.address);
+      // 1 more day of rewards, 100 / 600 per token rounded down to 18 decimals
+      expect(stakerInfo.pendingRewards).to.be.equal(
+        ethers.utils.parseUnits("99.9999999999999996", 18)
+      );
+      await staking.connect(user1).claimReward();
+      const user1BalanceAfterClaim = await myToken1.balanceOf(user1.address);
+      expect(user1BalanceAfterClaim).to.equal(
+        ethers.utils.parseUnits("499.9999999999999994", 18)
+      );
+    });
+    // -----------------------
+    /* RESTAKE FUNCTION TESTS */
+    // ------------------------
+    it("Updates correctly user's amount staked when restaking", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      // User stakes
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterStake = ethers.utils.formatUnits(
+        user1BalanceAfterStake,
+        18
+      );
+      //console.log(Number(balanceInDecimalAfterStake)); // 500
+
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      const stakerAfterUpdate = await staking.getStaker(user1.address);
+      const rewardPending = await stakerAfterUpdate.pendingRewards;
+      const rewardPendingInDecimal = ethers.utils.formatUnits(
+        rewardPending,
+        18
+      );
+      //console.log(Number(rewardPendingInDecimal)); // 100
+
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await staking.connect(user1).restake();
+      const stakerAfterRestake = await staking.getStaker(user1.address);
+      const amountRestaked = ethers.utils.formatUnits(
+        stakerAfterRestake.amountStaked,
+        18
+      );
+
+      expect(Number(amountRestaked)).to.be.equal(600);
+    });
+
+    it("Resets pending rewards to zero when restaking", async () => {
+      // because the user restaked, he claimed his rewards
+      // so his pending rewards should be set to 0
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      // User stakes
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterStake = ethers.utils.formatUnits(
+        user1BalanceAfterStake,
+        18
+      );
+      //console.log(Number(balanceInDecimalAfterStake)); // 500
+
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      const stakerAfterUpdate = await staking.getStaker(user1.address);
+      const rewardPending = await stakerAfterUpdate.pendingRewards;
+      const rewardPendingInDecimal = ethers.utils.formatUnits(
+        rewardPending,
+        18
+      );
+      //console.log(Number(rewardPendingInDecimal)); // 100
+
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await staking.connect(user1).restake();
+      const stakerAfterRestake = await staking.getStaker(user1.address);
+      const amountRestaked = ethers.utils.formatUnits(
+        stakerAfterRestake.amountStaked,
+        18
+      );
+
+      expect(stakerAfterRestake.pendingRewards).to.equal(0);
+    });
+
+    it("Sets to false if the user updated his rewards", async () => {
+      // if the user stakes also his pending rewards, that means he already claimed them
+      // therefore now his pending rewards are 0, so if he wants to calculate his rewards again
+      // he should call the updateReward() function again
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      // User stakes
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      const user1BalanceAfterStake = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterStake = ethers.utils.formatUnits(
+        user1BalanceAfterStake,
+        18
+      );
+      //console.log(Number(balanceInDecimalAfterStake)); // 500
+
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      const stakerAfterUpdate = await staking.getStaker(user1.address);
+      const rewardPending = await stakerAfterUpdate.pendingRewards;
+      const rewardPendingInDecimal = ethers.utils.formatUnits(
+        rewardPending,
+        18
+      );
+      //console.log(Number(rewardPendingInDecimal)); // 100
+
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await staking.connect(user1).restake();
+      const stakerAfterRestake = await staking.getStaker(user1.address);
+
+      expect(stakerAfterRestake.rewardsUpdated).to.equal(false);
+    });
+
+    it("Reverts if the user has no staked amount", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await expect(
+        staking.connect(user1).restake()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+    });
+
+    it("Reverts when the user has not updated his rewards (V1)", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await expect(
+        staking.connect(user1).restake()
+      ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
+    });
+
+    it("Reverts when the user has not updated his rewards (V2)", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      await staking.connect(user1).claimReward();
+
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await expect(
+        staking.connect(user1).restake()
+      ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
+      await expect(
+        staking.connect(user1).updateReward()
+      ).to.be.revertedWithCustomError(staking, "Staking__ClaimOncePerDay");
+    });
+
+    it("Updates the totalStaked correctly after restaking", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await fundRewards(ethers.utils.parseUnits("1000000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+
+      // const totalStakedBeforeRestake = await staking.totalStaked();
+      // const totalStakedBeforeRestakeInDecimal = ethers.utils.formatUnits(
+      //   totalStakedBeforeRestake,
+      //   18
+      // );
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).restake();
+
+      const totalStakedAfterRestake = await staking.totalStaked();
+      const totalStakedAfterRestakeInDecimal = ethers.utils.formatUnits(
+        totalStakedAfterRestake,
+        18
+      );
+
+      // new amount will be user's total staked amount + his total rewards
+      // in this case 500 + 100
+      expect(Number(totalStakedAfterRestakeInDecimal)).to.be.equal(600);
+    });
+
+    it("Updates token balances correctly after restaking", async () => {
+      /* let's assume that we only have one staker, his balance is 1000 and the contract's balance is 10000
     stakes 500 tokens => user balance 500, contract balance 10500
     updates his rewards: balances remain the same, user will have a pending reward of 100
     claims his rewards: user balance 600, contract balance 10400
     unstakes: user balance 1100 (600 + 500), contract balance: 9900
     restakes: user balance 500 (1100 - 500 - 100), contract balance: 9900 + 600 = 10500*/
 
-    // when restaking user stakes his previous amount of staked tokens + all of his rewards
-
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(staking.address, ethers.utils.parseUnits("10000", 18));
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await staking.connect(user1).restake();
-
-    const userBalanceAfterRestake = await myToken1.balanceOf(user1.address);
-    const balanceInDecimalAfterRestake = ethers.utils.formatUnits(
-      userBalanceAfterRestake,
-      18
-    );
-    expect(Number(balanceInDecimalAfterRestake)).to.equal(500);
-
-    const contractBalanceAfterRestake = await myToken1.balanceOf(
-      staking.address
-    );
-    const contractBalanceAfterRestakeInDecimal = ethers.utils.formatUnits(
-      contractBalanceAfterRestake,
-      18
-    );
-    expect(Number(contractBalanceAfterRestakeInDecimal)).to.equal(10500);
-    //console.log(Number(contractBalanceAfterRestakeInDecimal));
-  });
-
-  it("Updates token balances correctly after restaking (V2)", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(user3.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(staking.address, ethers.utils.parseUnits("10000", 18));
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1
-      .connect(user2)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1
-      .connect(user3)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("60", 18));
-    await staking.connect(user2).stake(ethers.utils.parseUnits("240", 18));
-    await staking.connect(user3).stake(ethers.utils.parseUnits("200", 18));
-
-    const contractBalanceAfterStake = await myToken1.balanceOf(staking.address);
-    const contractBalanceInDecimalAfterStake = ethers.utils.formatUnits(
-      contractBalanceAfterStake,
-      18
-    );
-    console.log(Number(contractBalanceInDecimalAfterStake));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-    await staking.connect(user2).updateReward();
-    await staking.connect(user3).updateReward();
-    await staking.connect(user1).restake();
-
-    const staker = await staking.getStaker(user1.address);
-    console.log(staker.amountStaked);
-
-    const contractBalanceAfterStake1 = await myToken1.balanceOf(
-      staking.address
-    );
-    const contractBalanceInDecimalAfterStake1 = ethers.utils.formatUnits(
-      contractBalanceAfterStake1,
-      18
-    );
-    console.log(Number(contractBalanceInDecimalAfterStake1));
-    await staking.connect(user2).restake();
-    await staking.connect(user3).restake();
-
-    const user1BalanceAfterRestake = await myToken1.balanceOf(user1.address);
-    const balance1InDecimalAfterRestake = ethers.utils.formatUnits(
-      user1BalanceAfterRestake,
-      18
-    );
-    expect(Number(balance1InDecimalAfterRestake)).to.equal(940);
-
-    const user2BalanceAfterRestake = await myToken1.balanceOf(user2.address);
-    const balance2InDecimalAfterRestake = ethers.utils.formatUnits(
-      user2BalanceAfterRestake,
-      18
-    );
-    expect(Number(balance2InDecimalAfterRestake)).to.equal(760);
-
-    const user3BalanceAfterRestake = await myToken1.balanceOf(user3.address);
-    const balance3InDecimalAfterRestake = ethers.utils.formatUnits(
-      user3BalanceAfterRestake,
-      18
-    );
-    expect(Number(balance3InDecimalAfterRestake)).to.equal(800);
-
-    const contractBalance = await myToken1.balanceOf(staking.address);
-    const contractBalanceInDecimal = ethers.utils.formatUnits(
-      contractBalance,
-      18
-    );
-    console.log(Number(contractBalanceInDecimal));
-  });
-
-  it("Should allow restaking after 24 hours since the last stake", async () => {
-    await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
-    await myToken1.mint(staking.address, ethers.utils.parseUnits("10000", 18));
-    await myToken1
-      .connect(user1)
-      .approve(staking.address, ethers.utils.parseUnits("1000", 18));
-
-    await staking.connect(user1).stake(ethers.utils.parseUnits("60", 18));
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
-    await staking.connect(user1).updateReward();
-
-    expect(await staking.connect(user1).restake())
-      .to.emit(staking, "Restaked")
-      .withArgs(user1.address, 160);
+      // when restaking user stakes his previous amount of staked tokens + all of his rewards
+
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await fundRewards(ethers.utils.parseUnits("10000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await staking.connect(user1).restake();
+
+      const userBalanceAfterRestake = await myToken1.balanceOf(user1.address);
+      const balanceInDecimalAfterRestake = ethers.utils.formatUnits(
+        userBalanceAfterRestake,
+        18
+      );
+      expect(Number(balanceInDecimalAfterRestake)).to.equal(500);
+
+      const contractBalanceAfterRestake = await myToken1.balanceOf(
+        staking.address
+      );
+      const contractBalanceAfterRestakeInDecimal = ethers.utils.formatUnits(
+        contractBalanceAfterRestake,
+        18
+      );
+      expect(Number(contractBalanceAfterRestakeInDecimal)).to.equal(10500);
+      //console.log(Number(contractBalanceAfterRestakeInDecimal));
+    });
+
+    it("Updates token balances correctly after restaking (V2)", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user3.address, ethers.utils.parseUnits("1000", 18));
+      await fundRewards(ethers.utils.parseUnits("10000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user2)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user3)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("60", 18));
+      await staking.connect(user2).stake(ethers.utils.parseUnits("240", 18));
+      await staking.connect(user3).stake(ethers.utils.parseUnits("200", 18));
+
+      const contractBalanceAfterStake = await myToken1.balanceOf(
+        staking.address
+      );
+      const contractBalanceInDecimalAfterStake = ethers.utils.formatUnits(
+        contractBalanceAfterStake,
+        18
+      );
+      console.log(Number(contractBalanceInDecimalAfterStake));
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+      await staking.connect(user2).updateReward();
+      await staking.connect(user3).updateReward();
+      await staking.connect(user1).restake();
+
+      const staker = await staking.getStaker(user1.address);
+      console.log(staker.amountStaked);
+
+      const contractBalanceAfterStake1 = await myToken1.balanceOf(
+        staking.address
+      );
+      const contractBalanceInDecimalAfterStake1 = ethers.utils.formatUnits(
+        contractBalanceAfterStake1,
+        18
+      );
+      console.log(Number(contractBalanceInDecimalAfterStake1));
+      await staking.connect(user2).restake();
+      await staking.connect(user3).restake();
+
+      const user1BalanceAfterRestake = await myToken1.balanceOf(user1.address);
+      const balance1InDecimalAfterRestake = ethers.utils.formatUnits(
+        user1BalanceAfterRestake,
+        18
+      );
+      expect(Number(balance1InDecimalAfterRestake)).to.equal(940);
+
+      const user2BalanceAfterRestake = await myToken1.balanceOf(user2.address);
+      const balance2InDecimalAfterRestake = ethers.utils.formatUnits(
+        user2BalanceAfterRestake,
+        18
+      );
+      expect(Number(balance2InDecimalAfterRestake)).to.equal(760);
+
+      const user3BalanceAfterRestake = await myToken1.balanceOf(user3.address);
+      const balance3InDecimalAfterRestake = ethers.utils.formatUnits(
+        user3BalanceAfterRestake,
+        18
+      );
+      expect(Number(balance3InDecimalAfterRestake)).to.equal(800);
+
+      const contractBalance = await myToken1.balanceOf(staking.address);
+      const contractBalanceInDecimal = ethers.utils.formatUnits(
+        contractBalance,
+        18
+      );
+      console.log(Number(contractBalanceInDecimal));
+    });
+
+    it("Should allow restaking after 24 hours since the last stake", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await fundRewards(ethers.utils.parseUnits("10000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("60", 18));
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      const pendingRewards = (await staking.getStaker(user1.address))
+        .pendingRewards;
+      const timestamp = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(timestamp);
+      await expect(staking.connect(user1).restake())
+        .to.emit(staking, "Restaked")
+        .withArgs(
+          user1.address,
+          pendingRewards.add(ethers.utils.parseUnits("60", 18)),
+          pendingRewards,
+          pendingRewards.add(ethers.utils.parseUnits("60", 18)),
+          timestamp
+        );
+    });
+
+    // -----------------------
+    /* REWARD RESERVE TESTS */
+    // ------------------------
+    it("Adds the funded amount to the reward reserve", async () => {
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+
+      expect(await staking.getRewardReserve()).to.equal(
+        ethers.utils.parseUnits("1000", 18)
+      );
+      expect(await myToken1.balanceOf(staking.address)).to.equal(
+        ethers.utils.parseUnits("1000", 18)
+      );
+    });
+
+    it("Emits RewardsFunded event", async () => {
+      await myToken1.mint(owner.address, 500);
+      await myToken1.approve(staking.address, 500);
+
+      await expect(staking.fundRewards(500))
+        .to.emit(staking, "RewardsFunded")
+        .withArgs(owner.address, 500);
+    });
+
+    it("Reverts if the reward reserve is funded with 0 tokens", async () => {
+      await expect(staking.fundRewards(0)).to.be.revertedWithCustomError(
+        staking,
+        "Staking__InvalidAmount"
+      );
+    });
+
+    it("Reverts claims when the reward reserve runs out", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user2.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user2)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await fundRewards(ethers.utils.parseUnits("50", 18));
+
+      await mineTogether(
+        () => staking.connect(user1).stake(ethers.utils.parseUnits("500", 18)),
+        () => staking.connect(user2).stake(ethers.utils.parseUnits("500", 18))
+      );
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      await staking.connect(user2).updateReward();
+
+      // user1 takes the whole reserve, user2 can't be paid from the principal
+      await staking.connect(user1).claimReward();
+      expect(await staking.getRewardReserve()).to.equal(0);
+      await expect(
+        staking.connect(user2).claimReward()
+      ).to.be.revertedWithCustomError(
+        staking,
+        "Staking__InsufficientRewardReserve"
+      );
+
+      // both users can still get their principal back
+      await staking.connect(user1).unstake(ethers.utils.parseUnits("500", 18));
+      await staking.connect(user2).unstake(ethers.utils.parseUnits("500", 18));
+      expect(await myToken1.balanceOf(user2.address)).to.equal(
+        ethers.utils.parseUnits("1000", 18)
+      );
+    });
+
+    it("Reverts restaking when the reward reserve runs out", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+
+      await expect(
+        staking.connect(user1).restake()
+      ).to.be.revertedWithCustomError(
+        staking,
+        "Staking__InsufficientRewardReserve"
+      );
+    });
+
+    it("Moves restaked rewards from the reserve to the staked amount", async () => {
+      await myToken1.mint(user1.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(ethers.utils.parseUnits("500", 18));
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.utils.parseUnits("1000", 18));
+      await staking.connect(user1).restake();
+
+      expect(await staking.getRewardReserve()).to.equal(
+        ethers.utils.parseUnits("900", 18)
+      );
+      expect(await staking.totalStaked()).to.equal(
+        ethers.utils.parseUnits("600", 18)
+      );
+    });
+
+    it("Returns the number of days covered by the reward reserve", async () => {
+      // the reward rate is 100 tokens per epoch
+      await fundRewards(ethers.utils.parseUnits("1050", 18));
+      expect(await staking.getRewardReserveDays()).to.equal(
+        Math.floor((10.5 * period) / 86400)
+      );
+    });
+
+    it("Keeps the principal and the reserve covered across random stake/claim/unstake sequences", async () => {
+      const users = [user1, user2, user3];
+      for (const user of users) {
+        await myToken1.mint(user.address, ethers.utils.parseUnits("1000", 18));
+        await myToken1
+          .connect(user)
+          .approve(staking.address, ethers.constants.MaxUint256);
+      }
+      await fundRewards(ethers.utils.parseUnits("300", 18));
+
+      // small deterministic PRNG so a failing sequence can be replayed
+      let seed = 0x5eed;
+      const random = (max: number) => {
+        seed = (seed * 1103515245 + 12345) % 2 ** 31;
+        return seed % max;
+      };
+
+      for (let step = 0; step < 60; step++) {
+        const user = users[random(users.length)];
+        const action = random(5);
+        try {
+          if (action === 0) {
+            await staking
+              .connect(user)
+              .stake(ethers.utils.parseUnits(String(1 + random(200)), 18));
+          } else if (action === 1) {
+            await staking.connect(user).updateReward();
+          } else if (action === 2) {
+            await staking.connect(user).claimReward();
+          } else if (action === 3) {
+            const { amountStaked } = await staking.getStaker(user.address);
+            await staking
+              .connect(user)
+              .unstake(amountStaked.div(1 + random(2)));
+          } else {
+            await ethers.provider.send("evm_increaseTime", [
+              (period / 24) * (1 + random(48)),
+            ]);
+            await ethers.provider.send("evm_mine", []);
+          }
+        } catch (error) {
+          // custom errors are expected, anything else is a failure
+          expect(String(error)).to.contain("Staking__");
+        }
+
+        const balance = await myToken1.balanceOf(staking.address);
+        const obligations = (await staking.totalStaked()).add(
+          await staking.getRewardReserve()
+        );
+        expect(balance.gte(obligations), `step ${step}`).to.be.true;
+      }
+    });
+
+    // -----------------------
+    /* REWARD PER TOKEN TESTS */
+    // ------------------------
+    it("Pays rewards for the share held over time, not the share at update time", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+
+      await mineTogether(
+        () => staking.connect(user1).stake(100),
+        () => staking.connect(user2).stake(900)
+      );
+      const stakeTime = await time.latest();
+
+      // the whale leaves after one day
+      await time.setNextBlockTimestamp(stakeTime + period);
+      await staking.connect(user2).unstake(900);
+
+      // user1 had 10% of the stake for one day and 100% for the next one
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+      await staking.connect(user1).updateReward();
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.pendingRewards).to.equal(
+        ethers.utils.parseUnits("110", 18)
+      );
+    });
+
+    it("Doesn't depend on how often the stakers update their rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+
+      await mineTogether(
+        () => staking.connect(user1).stake(500),
+        () => staking.connect(user2).stake(500)
+      );
+      const stakeTime = await time.latest();
+
+      // user1 updates every day, user2 only once after three days
+      for (let day = 1; day <= 2; day++) {
+        await time.setNextBlockTimestamp(stakeTime + day * period);
+        await staking.connect(user1).updateReward();
+      }
+      await time.setNextBlockTimestamp(stakeTime + 3 * period);
+      await mineTogether(
+        () => staking.connect(user1).updateReward(),
+        () => staking.connect(user2).updateReward()
+      );
+
+      const staker1 = await staking.getStaker(user1.address);
+      const staker2 = await staking.getStaker(user2.address);
+      expect(staker1.pendingRewards).to.equal(
+        ethers.utils.parseUnits("150", 18)
+      );
+      expect(staker2.pendingRewards).to.equal(staker1.pendingRewards);
+    });
+
+    it("Accrues rewards in earned() without updating the rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period / 2]);
+      await ethers.provider.send("evm_mine", []);
+
+      // half a day for the only staker
+      expect(await staking.earned(user1.address)).to.equal(
+        ethers.utils.parseUnits("50", 18)
+      );
+      expect((await staking.getStaker(user1.address)).pendingRewards).to.equal(
+        0
+      );
+    });
+
+    it("Includes the pending rewards in earned()", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.pendingRewards).to.equal(
+        ethers.utils.parseUnits("100", 18)
+      );
+      expect(await staking.earned(user1.address)).to.equal(
+        ethers.utils.parseUnits("200", 18)
+      );
+    });
+
+    it("Doesn't accrue rewards while nothing is staked", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await staking.rewardPerToken()).to.equal(0);
+
+      await staking.connect(user1).stake(500);
+      expect(await staking.earned(user1.address)).to.equal(0);
+    });
+
+    // -----------------------
+    /* ELIGIBILITY VIEW TESTS */
+    // ------------------------
+    it("Reports why unstaking isn't allowed, in agreement with unstake", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await expectSameOutcome(
+        (overrides) => staking.canUnstake(user1.address, overrides),
+        () => staking.connect(user1).unstake(100),
+        "Staking__NoStakedAmount"
+      );
+      expect((await staking.canUnstake(user1.address)).unlockTime).to.equal(0);
+
+      await staking.connect(user1).stake(500);
+      const stakeTime = await time.latest();
+      expect((await staking.canUnstake(user1.address)).unlockTime).to.equal(
+        stakeTime + period
+      );
+      await expectSameOutcome(
+        (overrides) => staking.canUnstake(user1.address, overrides),
+        () => staking.connect(user1).unstake(100),
+        "Staking__UnstakeNotAllowed"
+      );
+
+      await time.increaseTo(stakeTime + period - 1);
+      await expectSameOutcome(
+        (overrides) => staking.canUnstake(user1.address, overrides),
+        () => staking.connect(user1).unstake(100)
+      );
+    });
+
+    it("Reports that tokens locked in positions can't be unstaked", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stakeInTier(500, 0);
+      await time.increase(period);
+      await expectSameOutcome(
+        (overrides) => staking.canUnstake(user1.address, overrides),
+        () => staking.connect(user1).unstake(100),
+        "Staking__AmountExceedsStake"
+      );
+    });
+
+    it("Reports why restaking isn't allowed, in agreement with restake", async () => {
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      const lockedStaking = (await stakingFactory.deploy(
+        myToken1.address,
+        myToken1.address,
+        100,
+        3 * period,
+        period,
+        ethers.constants.AddressZero
+      )) as Staking;
+      await myToken1.mint(owner.address, ethers.utils.parseUnits("1000", 18));
+      await myToken1.approve(
+        lockedStaking.address,
+        ethers.utils.parseUnits("1000", 18)
+      );
+      await lockedStaking.fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user1.address, 1000);
+      await myToken1
+        .connect(user1)
+        .approve(lockedStaking.address, ethers.constants.MaxUint256);
+
+      await expectSameOutcome(
+        (overrides) => lockedStaking.canRestake(user1.address, overrides),
+        () => lockedStaking.connect(user1).restake(),
+        "Staking__NoStakedAmount"
+      );
+
+      await lockedStaking.connect(user1).stake(500);
+      const stakeTime = await time.latest();
+      await expectSameOutcome(
+        (overrides) => lockedStaking.canRestake(user1.address, overrides),
+        () => lockedStaking.connect(user1).restake(),
+        "Staking__RewardsNotUpdated"
+      );
+
+      await time.setNextBlockTimestamp(stakeTime + period);
+      await lockedStaking.connect(user1).updateReward();
+      expect(
+        (await lockedStaking.canRestake(user1.address)).unlockTime
+      ).to.equal(stakeTime + 3 * period);
+      await expectSameOutcome(
+        (overrides) => lockedStaking.canRestake(user1.address, overrides),
+        () => lockedStaking.connect(user1).restake(),
+        "Staking__RestakeNotAllowed"
+      );
+
+      await time.increaseTo(stakeTime + 3 * period - 1);
+      await expectSameOutcome(
+        (overrides) => lockedStaking.canRestake(user1.address, overrides),
+        () => lockedStaking.connect(user1).restake()
+      );
+    });
+
+    it("Reports that restaking needs the rewards in the staked token and a reserve covering them", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.constants.MaxUint256);
+
+      await staking.connect(user1).stake(500);
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      await expectSameOutcome(
+        (overrides) => staking.canRestake(user1.address, overrides),
+        () => staking.connect(user1).restake(),
+        "Staking__InsufficientRewardReserve"
+      );
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await expectSameOutcome(
+        (overrides) => staking.canRestake(user1.address, overrides),
+        () => staking.connect(user1).restake()
+      );
+
+      const myToken1Factory = await ethers.getContractFactory("MyToken1");
+      const rewardToken = await myToken1Factory.deploy();
+      const stakingFactory = await ethers.getContractFactory("Staking");
+      const rewardStaking = (await stakingFactory.deploy(
+        myToken1.address,
+        rewardToken.address,
+        100,
+        period,
+        period,
+        ethers.constants.AddressZero
+      )) as Staking;
+      await myToken1.connect(user1).approve(rewardStaking.address, 500);
+      await rewardStaking.connect(user1).stake(500);
+      await afterSeconds(period);
+      await rewardStaking.connect(user1).updateReward();
+      const [allowed, reason] = await rewardStaking.canRestake(user1.address);
+      expect(allowed).to.be.false;
+      expect(rewardStaking.interface.getError(reason).name).to.equal(
+        "Staking__RestakeUnsupported"
+      );
+      await expect(
+        rewardStaking.connect(user1).restake()
+      ).to.be.revertedWithCustomError(
+        rewardStaking,
+        "Staking__RestakeUnsupported"
+      );
+    });
+
+    it("Reports why updating the rewards isn't allowed, in agreement with updateReward", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await expectSameOutcome(
+        (overrides) => staking.canUpdateReward(user1.address, overrides),
+        () => staking.connect(user1).updateReward(),
+        "Staking__NoStakedAmount"
+      );
+
+      await staking.connect(user1).stake(500);
+      const stakeTime = await time.latest();
+      expect(
+        (await staking.canUpdateReward(user1.address)).unlockTime
+      ).to.equal(stakeTime + period);
+      await expectSameOutcome(
+        (overrides) => staking.canUpdateReward(user1.address, overrides),
+        () => staking.connect(user1).updateReward(),
+        "Staking__UpdateNotEligible"
+      );
+
+      await time.increaseTo(stakeTime + period - 1);
+      await expectSameOutcome(
+        (overrides) => staking.canUpdateReward(user1.address, overrides),
+        () => staking.connect(user1).updateReward()
+      );
+      const updateTime = await time.latest();
+
+      expect(
+        (await staking.canUpdateReward(user1.address)).unlockTime
+      ).to.equal(updateTime + period);
+      await expectSameOutcome(
+        (overrides) => staking.canUpdateReward(user1.address, overrides),
+        () => staking.connect(user1).updateReward(),
+        "Staking__ClaimOncePerDay"
+      );
+    });
+
+    it("Previews the rewards updateReward credits", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await staking.connect(user2).stake(300);
+      for (let epoch = 1; epoch <= 2; epoch++) {
+        await time.increase(period);
+        await time.setNextBlockTimestamp((await time.latest()) + 1);
+        const preview = await staking.previewReward(user1.address, {
+          blockTag: "pending",
+        });
+        const pendingRewards = (await staking.getStaker(user1.address))
+          .pendingRewards;
+
+        await staking.connect(user1).updateReward();
+        expect(preview).to.be.gt(0);
+        expect(
+          (await staking.getStaker(user1.address)).pendingRewards
+        ).to.equal(pendingRewards.add(preview));
+        expect(await staking.previewReward(user1.address)).to.equal(0);
+      }
+    });
+
+    // -----------------------
+    /* ADMIN TESTS */
+    // ------------------------
+    it("Grants the admin, rate manager and pauser roles to the deployer", async () => {
+      expect(
+        await staking.hasRole(await staking.DEFAULT_ADMIN_ROLE(), owner.address)
+      ).to.be.true;
+      expect(
+        await staking.hasRole(await staking.RATE_MANAGER_ROLE(), owner.address)
+      ).to.be.true;
+      expect(await staking.hasRole(await staking.PAUSER_ROLE(), owner.address))
+        .to.be.true;
+    });
+
+    it("Rate manager can change the reward rate", async () => {
+      await expect(staking.setRewardRate(200))
+        .to.emit(staking, "RewardRateUpdated")
+        .withArgs(100, 200);
+      expect(await staking.getRewardRate()).to.equal(200);
+    });
+
+    it("Non-rate manager can't change the reward rate", async () => {
+      await expect(
+        staking.connect(user1).setRewardRate(200)
+      ).to.be.revertedWith(
+        "AccessControl: account " +
+          ethers.utils.hexlify(user1.address) +
+          " is missing role " +
+          ethers.utils.hexlify(await staking.RATE_MANAGER_ROLE())
+      );
+    });
+
+    it("Reverts if the reward rate is changed to 0", async () => {
+      await expect(staking.setRewardRate(0)).to.be.revertedWithCustomError(
+        staking,
+        "Staking__RewardRateZero"
+      );
+    });
+
+    it("Keeps the rewards accrued at the old rate when changing the reward rate", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      const stakeTime = await time.latest();
+
+      await time.setNextBlockTimestamp(stakeTime + period);
+      await staking.setRewardRate(200);
+
+      // one day at 100 per day and one day at 200 per day
+      await time.setNextBlockTimestamp(stakeTime + 2 * period);
+      await staking.connect(user1).updateReward();
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.pendingRewards).to.equal(
+        ethers.utils.parseUnits("300", 18)
+      );
+    });
+
+    it("Non-pauser can't pause the contract", async () => {
+      await expect(staking.connect(user1).pause()).to.be.revertedWith(
+        "AccessControl: account " +
+          ethers.utils.hexlify(user1.address) +
+          " is missing role " +
+          ethers.utils.hexlify(await staking.PAUSER_ROLE())
+      );
+    });
+
+    it("Doesn't allow staking, claiming or restaking while paused", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(500);
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.connect(user1).updateReward();
+
+      await expect(staking.pause()).to.emit(staking, "Paused");
+      await expect(staking.connect(user1).stake(100)).to.be.revertedWith(
+        "Pausable: paused"
+      );
+      await expect(staking.connect(user1).claimReward()).to.be.revertedWith(
+        "Pausable: paused"
+      );
+      await expect(staking.connect(user1).restake()).to.be.revertedWith(
+        "Pausable: paused"
+      );
+
+      await expect(staking.unpause()).to.emit(staking, "Unpaused");
+      await expect(staking.connect(user1).claimReward()).to.not.be.reverted;
+      await expect(staking.connect(user1).stake(100)).to.not.be.reverted;
+    });
+
+    it("Allows emergency withdrawals only while paused", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stake(500);
+      await expect(
+        staking.connect(user1).emergencyWithdraw()
+      ).to.be.revertedWith("Pausable: not paused");
+    });
+
+    it("Returns the principal and forfeits the rewards on emergency withdrawals", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+
+      await staking.connect(user1).stake(500);
+      await afterSeconds(period);
+      await staking.connect(user1).updateReward();
+      // user2 is still inside the lock period
+      await staking.connect(user2).stake(500);
+
+      await staking.pause();
+      // the pending rewards plus the ones accrued since the update
+      await expect(staking.connect(user1).emergencyWithdraw())
+        .to.emit(staking, "EmergencyWithdrawn")
+        .withArgs(user1.address, 500, (rewardsForfeited: BigNumber) =>
+          rewardsForfeited.gt(ethers.utils.parseUnits("100", 18))
+        );
+      await staking.connect(user2).emergencyWithdraw();
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(0);
+      expect(staker.pendingRewards).to.equal(0);
+      expect(await staking.earned(user1.address)).to.equal(0);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+      expect(await myToken1.balanceOf(user2.address)).to.equal(1000);
+      expect(await staking.totalStaked()).to.equal(0);
+      expect(await staking.getRewardReserve()).to.equal(
+        ethers.utils.parseUnits("1000", 18)
+      );
+    });
+
+    it("Reverts emergency withdrawals without a staked amount", async () => {
+      await staking.pause();
+      await expect(
+        staking.connect(user1).emergencyWithdraw()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+    });
+
+    /* LOCK TIER POSITION TESTS */
+    // ------------------------
+    it("Creates the flexible tier on deployment", async () => {
+      const tiers = await staking.getTiers();
+      expect(tiers.length).to.equal(1);
+      expect(tiers[0].lockDuration).to.equal(period);
+      expect(tiers[0].multiplier).to.equal(10000);
+    });
+
+    it("Admin can add lock tiers", async () => {
+      await expect(staking.addTier(3 * period, 20000))
+        .to.emit(staking, "TierAdded")
+        .withArgs(1, 3 * period, 20000);
+      const tiers = await staking.getTiers();
+      expect(tiers[1].lockDuration).to.equal(3 * period);
+      expect(tiers[1].multiplier).to.equal(20000);
+    });
+
+    it("Non-admin can't add lock tiers", async () => {
+      await expect(
+        staking.connect(user1).addTier(3 * period, 20000)
+      ).to.be.revertedWith(
+        "AccessControl: account " +
+          ethers.utils.hexlify(user1.address) +
+          " is missing role " +
+          ethers.utils.hexlify(await staking.DEFAULT_ADMIN_ROLE())
+      );
+    });
+
+    it("Reverts if a tier's lock duration or multiplier is out of bounds", async () => {
+      await expect(
+        staking.addTier(period - 1, 20000)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidDuration");
+      await expect(
+        staking.addTier(365 * 86400 + 1, 20000)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidDuration");
+      await expect(
+        staking.addTier(3 * period, 9999)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidMultiplier");
+      await expect(
+        staking.addTier(3 * period, 50001)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidMultiplier");
+    });
+
+    it("Opens positions with increasing ids", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.addTier(3 * period, 20000);
+
+      await afterSeconds(1);
+      const firstUnlockTime = (await time.latest()) + 1 + period;
+      await expect(staking.connect(user1).stakeInTier(300, 0))
+        .to.emit(staking, "PositionOpened")
+        .withArgs(user1.address, 0, 0, 300, firstUnlockTime);
+      await afterSeconds(1);
+      const secondUnlockTime = (await time.latest()) + 1 + 3 * period;
+      await expect(staking.connect(user1).stakeInTier(200, 1))
+        .to.emit(staking, "PositionOpened")
+        .withArgs(user1.address, 1, 1, 200, secondUnlockTime);
+
+      const positions = await staking.getPositions(user1.address);
+      expect(positions.length).to.equal(2);
+      expect(positions[0].amount).to.equal(300);
+      expect(positions[0].tierId).to.equal(0);
+      expect(positions[0].unlockTime).to.equal(firstUnlockTime);
+      expect(positions[1].amount).to.equal(200);
+      expect(positions[1].tierId).to.equal(1);
+      expect(positions[1].unlockTime).to.equal(secondUnlockTime);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(500);
+      expect(staker.lockedAmount).to.equal(500);
+      expect(staker.weightedAmount).to.equal(700);
+      expect(await staking.totalStaked()).to.equal(500);
+      expect(await staking.totalWeightedStake()).to.equal(700);
+    });
+
+    it("Reverts if a position is opened in a tier that doesn't exist or with 0 tokens", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await expect(
+        staking.connect(user1).stakeInTier(500, 1)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidTier");
+      await expect(
+        staking.connect(user1).stakeInTier(0, 0)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidAmount");
+    });
+
+    it("Boosts the rewards of a position by its tier multiplier", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+      await staking.addTier(3 * period, 20000);
+
+      await mineTogether(
+        () => staking.connect(user1).stake(500),
+        () => staking.connect(user2).stakeInTier(500, 1)
+      );
+      await afterSeconds(period);
+      await mineTogether(
+        () => staking.connect(user1).updateReward(),
+        () => staking.connect(user2).updateReward()
+      );
+
+      // the epoch's 100 tokens are shared between 500 and 2 * 500 weighted tokens
+      const user1Staker = await staking.getStaker(user1.address);
+      const user2Staker = await staking.getStaker(user2.address);
+      expect(user1Staker.pendingRewards).to.equal(
+        ethers.utils.parseUnits("33.333333333333333333", 18)
+      );
+      expect(user2Staker.pendingRewards).to.equal(
+        ethers.utils.parseUnits("66.666666666666666666", 18)
+      );
+      // the share of the stake is weighted too
+      const [update] = await staking.queryFilter(
+        staking.filters.RewardUpdated(user2.address)
+      );
+      expect(update.args.stakeShare).to.equal(
+        ethers.utils.parseUnits("0.666666666666666666", 18)
+      );
+    });
+
+    it("Doesn't allow unstaking a position before its tier's lock duration", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.addTier(3 * period, 20000);
+
+      await staking.connect(user1).stakeInTier(500, 1);
+      const unlockTime = (await staking.getPositions(user1.address))[0]
+        .unlockTime;
+
+      await time.setNextBlockTimestamp(unlockTime - 1);
+      await expect(
+        staking.connect(user1).unstakePosition(0)
+      ).to.be.revertedWithCustomError(staking, "Staking__PositionLocked");
+
+      await expect(staking.connect(user1).unstakePosition(0))
+        .to.emit(staking, "PositionClosed")
+        .withArgs(user1.address, 0, 500)
+        .and.to.emit(staking, "Unstaked")
+        .withArgs(user1.address, 500, 0, 0, unlockTime);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(0);
+      expect(staker.lockedAmount).to.equal(0);
+      expect(staker.weightedAmount).to.equal(0);
+      expect((await staking.getPositions(user1.address))[0].closed).to.be.true;
+      expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+    });
+
+    it("Reverts if a position doesn't exist or has already been unstaked", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+
+      await staking.connect(user1).stakeInTier(500, 0);
+      await expect(
+        staking.connect(user1).unstakePosition(1)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidPosition");
+
+      await afterSeconds(period);
+      await staking.connect(user1).unstakePosition(0);
+      await expect(
+        staking.connect(user1).unstakePosition(0)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidPosition");
+    });
+
+    it("Doesn't allow unstaking tokens locked in positions with unstake", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.addTier(3 * period, 20000);
+
+      await staking.connect(user1).stake(300);
+      await staking.connect(user1).stakeInTier(500, 1);
+      await ethers.provider.send("evm_increaseTime", [period]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        staking.connect(user1).unstake(301)
+      ).to.be.revertedWithCustomError(staking, "Staking__AmountExceedsStake");
+      await staking.connect(user1).unstake(300);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(500);
+      expect(staker.lockedAmount).to.equal(500);
+      expect(staker.weightedAmount).to.equal(1000);
+    });
+
+    it("Closes all positions on emergency withdrawals", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.addTier(3 * period, 20000);
+
+      await staking.connect(user1).stake(300);
+      await staking.connect(user1).stakeInTier(500, 1);
+      await staking.pause();
+      await expect(staking.connect(user1).emergencyWithdraw())
+        .to.emit(staking, "EmergencyWithdrawn")
+        .withArgs(user1.address, 800, anyValue);
+
+      const positions = await staking.getPositions(user1.address);
+      expect(positions[0].closed).to.be.true;
+      expect(await staking.totalWeightedStake()).to.equal(0);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+    });
+
+    // -----------------------
+    /* STAKER REGISTRY TESTS */
+    // ------------------------
+    it("Adds stakers to the registry on their first stake only", async () => {
+      for (const user of [user1, user2]) {
+        await myToken1.mint(user.address, 1000);
+        await myToken1.connect(user).approve(staking.address, 1000);
+      }
+      await staking.addTier(2 * period, 20000);
+      expect(await staking.stakerCount()).to.equal(0);
+
+      await staking.connect(user1).stake(300);
+      await staking.connect(user1).stake(200);
+      await staking.connect(user2).stakeInTier(400, 1);
+      expect(await staking.stakerCount()).to.equal(2);
+
+      const entries = await staking.getStakers(0, 10);
+      expect(entries.map((entry) => entry.stakerAddress)).to.deep.equal([
+        user1.address,
+        user2.address,
+      ]);
+      expect(entries[0].staker.amountStaked).to.equal(500);
+      expect(entries[1].staker.lockedAmount).to.equal(400);
+    });
+
+    it("Removes stakers from the registry once they unstake everything", async () => {
+      for (const user of [user1, user2, user3]) {
+        await myToken1.mint(user.address, 1000);
+        await myToken1.connect(user).approve(staking.address, 1000);
+      }
+      await staking.addTier(2 * period, 20000);
+      await staking.connect(user1).stake(500);
+      await staking.connect(user2).stake(300);
+      await staking.connect(user2).stakeInTier(200, 1);
+      await staking.connect(user3).stake(500);
+      await time.increase(2 * period);
+
+      await staking.connect(user1).unstake(200);
+      expect(await staking.stakerCount()).to.equal(3);
+      await staking.connect(user1).unstake(300);
+      expect(await staking.stakerCount()).to.equal(2);
+
+      // the position is still staked
+      await staking.connect(user2).unstake(300);
+      expect(await staking.stakerCount()).to.equal(2);
+      await staking.connect(user2).unstakePosition(0);
+      expect(await staking.stakerCount()).to.equal(1);
+
+      await staking.pause();
+      await staking.connect(user3).emergencyWithdraw();
+      await staking.unpause();
+      expect(await staking.stakerCount()).to.equal(0);
+      expect(await staking.getStakers(0, 10)).to.be.empty;
+
+      // a staker who left can join again
+      await staking.connect(user1).stake(100);
+      const entries = await staking.getStakers(0, 10);
+      expect(entries.map((entry) => entry.stakerAddress)).to.deep.equal([
+        user1.address,
+      ]);
+    });
+
+    it("Keeps the registry in sync with the stakers through restakes", async () => {
+      await fundRewards(ethers.utils.parseUnits("100000", 18));
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.connect(user1).stake(500);
+      await time.increase(period);
+      await staking.connect(user1).updateReward();
+      const pendingRewards = (await staking.getStaker(user1.address))
+        .pendingRewards;
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, pendingRewards.add(500));
+      await staking.connect(user1).restake();
+
+      const [entry] = await staking.getStakers(0, 1);
+      expect(await staking.stakerCount()).to.equal(1);
+      expect(entry.stakerAddress).to.equal(user1.address);
+      expect(entry.staker.amountStaked).to.equal(pendingRewards.add(500));
+    });
+
+    it("Paginates the stakers", async () => {
+      const signers = (await ethers.getSigners()).slice(1, 8);
+      for (const signer of signers) {
+        await myToken1.mint(signer.address, 100);
+        await myToken1.connect(signer).approve(staking.address, 100);
+        await staking.connect(signer).stake(100);
+      }
+
+      const pages = [];
+      for (let offset = 0; offset < 7; offset += 3) {
+        pages.push(await staking.getStakers(offset, 3));
+      }
+      expect(pages.map((page) => page.length)).to.deep.equal([3, 3, 1]);
+      expect(pages.flat().map((entry) => entry.stakerAddress)).to.have.members(
+        signers.map((signer) => signer.address)
+      );
+      expect(await staking.getStakers(7, 3)).to.be.empty;
+      expect(await staking.getStakers(0, 0)).to.be.empty;
+    });
+
+    it("Caps the stakers page size", async () => {
+      const maxPageSize = (await staking.MAX_STAKERS_PAGE_SIZE()).toNumber();
+      for (let i = 0; i <= maxPageSize; i++) {
+        const wallet = Wallet.createRandom().connect(ethers.provider);
+        await setBalance(wallet.address, ethers.utils.parseEther("1"));
+        await myToken1.mint(wallet.address, 100);
+        await myToken1.connect(wallet).approve(staking.address, 100);
+        await staking.connect(wallet).stake(100);
+      }
+
+      expect(await staking.stakerCount()).to.equal(maxPageSize + 1);
+      expect(
+        await staking.getStakers(0, ethers.constants.MaxUint256)
+      ).to.have.length(maxPageSize);
+      expect(await staking.getStakers(maxPageSize, 10)).to.have.length(1);
+    });
+
+    /* UNBONDING QUEUE TESTS */
+    // ------------------------
+    it("Admin can set the unbonding period", async () => {
+      expect(await staking.unbondingPeriod()).to.equal(0);
+      await expect(staking.setUnbondingPeriod(2 * period))
+        .to.emit(staking, "UnbondingPeriodUpdated")
+        .withArgs(0, 2 * period);
+      expect(await staking.unbondingPeriod()).to.equal(2 * period);
+
+      await expect(
+        staking.setUnbondingPeriod(365 * 86400 + 1)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidDuration");
+      await expect(
+        staking.connect(user1).setUnbondingPeriod(period)
+      ).to.be.revertedWith(
+        "AccessControl: account " +
+          ethers.utils.hexlify(user1.address) +
+          " is missing role " +
+          ethers.utils.hexlify(await staking.DEFAULT_ADMIN_ROLE())
+      );
+    });
+
+    it("Reverts unstake while the unbonding queue is enabled", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.connect(user1).stake(500);
+      await staking.setUnbondingPeriod(period);
+      await time.increase(period);
+
+      await expectSameOutcome(
+        (overrides) => staking.canUnstake(user1.address, overrides),
+        () => staking.connect(user1).unstake(500),
+        "Staking__UnbondingRequired"
+      );
+
+      await staking.setUnbondingPeriod(0);
+      await expect(staking.connect(user1).unstake(500)).to.not.be.reverted;
+    });
+
+    it("Moves the requested tokens to the unbonding queue, where they stop earning rewards", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(2 * period);
+      await staking.connect(user1).stake(500);
+      await time.increase(period);
+
+      await afterSeconds(1);
+      const requestTime = (await time.latest()) + 1;
+      await expect(staking.connect(user1).requestUnstake(200))
+        .to.emit(staking, "Unstaked")
+        .withArgs(user1.address, 200, 300, 300, requestTime)
+        .and.to.emit(staking, "UnstakeRequested")
+        .withArgs(user1.address, 0, 200, requestTime + 2 * period);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(300);
+      expect(staker.weightedAmount).to.equal(300);
+      expect(await staking.totalStaked()).to.equal(300);
+      expect(await staking.totalUnbonding()).to.equal(200);
+      expect(await myToken1.balanceOf(staking.address)).to.equal(500);
+
+      const [request] = await staking.getUnbondingRequests(user1.address);
+      expect(request.amount).to.equal(200);
+      expect(request.requestedAt).to.equal(requestTime);
+      expect(request.unlockTime).to.equal(requestTime + 2 * period);
+      expect(request.closed).to.be.false;
+
+      // the remaining stake receives all the rewards
+      const earned = await staking.earned(user1.address);
+      await time.increase(period);
+      expect((await staking.earned(user1.address)).sub(earned)).to.be.closeTo(
+        ethers.utils.parseUnits("100", 18),
+        ethers.utils.parseUnits("1", 15)
+      );
+
+      // everything unstaked leaves the staker registry
+      await staking.connect(user1).requestUnstake(300);
+      expect(await staking.stakerCount()).to.equal(0);
+      const rewards = await staking.earned(user1.address);
+      await time.increase(period);
+      expect(await staking.earned(user1.address)).to.equal(rewards);
+    });
+
+    it("Checks the same conditions as unstake when requesting to unstake", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(period);
+      await staking.addTier(2 * period, 20000);
+
+      await expect(
+        staking.connect(user1).requestUnstake(100)
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+      await staking.connect(user1).stake(500);
+      await staking.connect(user1).stakeInTier(300, 1);
+      await expect(
+        staking.connect(user1).requestUnstake(100)
+      ).to.be.revertedWithCustomError(staking, "Staking__UnstakeNotAllowed");
+
+      await time.increase(period);
+      await expect(
+        staking.connect(user1).requestUnstake(0)
+      ).to.be.revertedWithCustomError(staking, "Staking__InvalidAmount");
+      await expect(
+        staking.connect(user1).requestUnstake(501)
+      ).to.be.revertedWithCustomError(staking, "Staking__AmountExceedsStake");
+    });
+
+    it("Withdraws the requests whose unbonding period has passed", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(2 * period);
+      await staking.connect(user1).stake(1000);
+      await time.increase(period);
+
+      await staking.connect(user1).requestUnstake(100);
+      const firstUnlockTime = (await time.latest()) + 2 * period;
+      await time.increase(period);
+      await staking.connect(user1).requestUnstake(200);
+      expect(await staking.getUnbondingAmounts(user1.address)).to.deep.equal([
+        BigNumber.from(300),
+        BigNumber.from(0),
+      ]);
+      await expect(
+        staking.connect(user1).withdraw()
+      ).to.be.revertedWithCustomError(staking, "Staking__NothingToWithdraw");
+
+      await time.setNextBlockTimestamp(firstUnlockTime);
+      await expect(staking.connect(user1).withdraw())
+        .to.emit(staking, "Withdrawn")
+        .withArgs(user1.address, 100, firstUnlockTime)
+        .and.to.changeTokenBalances(myToken1, [user1, staking], [100, -100]);
+      expect(await staking.totalUnbonding()).to.equal(200);
+      expect(await staking.getUnbondingAmounts(user1.address)).to.deep.equal([
+        BigNumber.from(200),
+        BigNumber.from(0),
+      ]);
+      await expect(
+        staking.connect(user1).withdraw()
+      ).to.be.revertedWithCustomError(staking, "Staking__NothingToWithdraw");
+
+      await time.increase(period);
+      expect(await staking.getUnbondingAmounts(user1.address)).to.deep.equal([
+        BigNumber.from(200),
+        BigNumber.from(200),
+      ]);
+      await staking.connect(user1).withdraw();
+      const requests = await staking.getUnbondingRequests(user1.address);
+      expect(requests.map((request) => request.closed)).to.deep.equal([
+        true,
+        true,
+      ]);
+      expect(await staking.totalUnbonding()).to.equal(0);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(300);
+    });
+
+    it("Moves the unlocked positions to the unbonding queue instead of returning them", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(2 * period);
+      await staking.connect(user1).stakeInTier(500, 0);
+      await time.increase(period);
+
+      const requestTime = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(requestTime);
+      await expect(staking.connect(user1).unstakePosition(0))
+        .to.emit(staking, "PositionClosed")
+        .withArgs(user1.address, 0, 500)
+        .and.to.emit(staking, "UnstakeRequested")
+        .withArgs(user1.address, 0, 500, requestTime + 2 * period);
+      expect((await staking.getStaker(user1.address)).amountStaked).to.equal(0);
+      expect(await staking.totalUnbonding()).to.equal(500);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(500);
+
+      // the position's tokens wait for the unbonding period like any request
+      await expect(
+        staking.connect(user1).withdraw()
+      ).to.be.revertedWithCustomError(staking, "Staking__NothingToWithdraw");
+      await time.setNextBlockTimestamp(requestTime + 2 * period);
+      await staking.connect(user1).withdraw();
+      expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+      expect(await staking.totalUnbonding()).to.equal(0);
+    });
+
+    it("Keeps the unlock time of the requests already made when the unbonding period changes", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(3 * period);
+      await staking.connect(user1).stake(500);
+      await time.increase(period);
+      await staking.connect(user1).requestUnstake(500);
+      const unlockTime = (await time.latest()) + 3 * period;
+
+      await staking.setUnbondingPeriod(period);
+      await time.increase(period);
+      await expect(
+        staking.connect(user1).withdraw()
+      ).to.be.revertedWithCustomError(staking, "Staking__NothingToWithdraw");
+      await time.setNextBlockTimestamp(unlockTime);
+      await expect(staking.connect(user1).withdraw()).to.not.be.reverted;
+    });
+
+    it("Stakes the tokens of a cancelled unstake request again", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(2 * period);
+      await staking.connect(user1).stake(500);
+      await time.increase(period);
+      await staking.connect(user1).requestUnstake(300);
+      await staking.connect(user1).requestUnstake(200);
+      expect(await staking.stakerCount()).to.equal(0);
+
+      await afterSeconds(1);
+      const cancelTime = (await time.latest()) + 1;
+      await expect(staking.connect(user1).cancelUnstake(0))
+        .to.emit(staking, "Staked")
+        .withArgs(user1.address, 300, 300, 300, cancelTime)
+        .and.to.emit(staking, "UnstakeCancelled")
+        .withArgs(user1.address, 0, 300);
+
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(300);
+      expect(staker.weightedAmount).to.equal(300);
+      expect(staker.lastStakeTime).to.equal(cancelTime);
+      expect(await staking.totalUnbonding()).to.equal(200);
+      expect(await staking.stakerCount()).to.equal(1);
+      expect(await myToken1.balanceOf(staking.address)).to.equal(500);
+
+      // the cancelled tokens earn rewards again, and are locked again
+      const earned = await staking.earned(user1.address);
+      await time.increase(period / 2);
+      expect(await staking.earned(user1.address)).to.be.gt(earned);
+      await expect(
+        staking.connect(user1).requestUnstake(300)
+      ).to.be.revertedWithCustomError(staking, "Staking__UnstakeNotAllowed");
+
+      for (const requestId of [0, 2]) {
+        await expect(
+          staking.connect(user1).cancelUnstake(requestId)
+        ).to.be.revertedWithCustomError(
+          staking,
+          "Staking__InvalidUnbondingRequest"
+        );
+      }
+      await time.increase(2 * period);
+      await staking.connect(user1).withdraw();
+      await expect(
+        staking.connect(user1).cancelUnstake(1)
+      ).to.be.revertedWithCustomError(
+        staking,
+        "Staking__InvalidUnbondingRequest"
+      );
+    });
+
+    it("Returns the unbonding tokens on emergency withdrawals", async () => {
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.setUnbondingPeriod(2 * period);
+      await staking.connect(user1).stake(500);
+      await time.increase(period);
+      await staking.connect(user1).requestUnstake(500);
+
+      await staking.pause();
+      await expect(staking.connect(user1).emergencyWithdraw())
+        .to.emit(staking, "EmergencyWithdrawn")
+        .withArgs(user1.address, 500, anyValue);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+      expect(await staking.totalUnbonding()).to.equal(0);
+      expect(await staking.totalStaked()).to.equal(0);
+      expect((await staking.getUnbondingRequests(user1.address))[0].closed).to
+        .be.true;
+      await expect(
+        staking.connect(user1).emergencyWithdraw()
+      ).to.be.revertedWithCustomError(staking, "Staking__NoStakedAmount");
+    });
+
+    /* OPERATOR TESTS */
+    // ------------------------
+    it("Stakers can approve and revoke operators", async () => {
+      expect(await staking.isOperator(user1.address, user1.address)).to.be.true;
+      expect(await staking.isOperator(user1.address, user2.address)).to.be
+        .false;
+
+      await expect(staking.connect(user1).setOperator(user2.address, true))
+        .to.emit(staking, "OperatorUpdated")
+        .withArgs(user1.address, user2.address, true);
+      expect(await staking.isOperator(user1.address, user2.address)).to.be.true;
+      // approvals aren't mutual
+      expect(await staking.isOperator(user2.address, user1.address)).to.be
+        .false;
+
+      await expect(staking.connect(user1).setOperator(user2.address, false))
+        .to.emit(staking, "OperatorUpdated")
+        .withArgs(user1.address, user2.address, false);
+      expect(await staking.isOperator(user1.address, user2.address)).to.be
+        .false;
+
+      await expect(
+        staking.connect(user1).setOperator(ethers.constants.AddressZero, true)
+      ).to.be.revertedWithCustomError(staking, "Staking__AddressZero");
+    });
+
+    it("Reverts when an unapproved operator acts for a staker", async () => {
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+      await staking.connect(user1).stake(500);
+      await time.increase(period);
+      await staking.connect(user1).updateReward();
+
+      const attempts = [
+        () => staking.connect(user2).stakeFor(user1.address, 100),
+        () => staking.connect(user2).updateRewardFor(user1.address),
+        () => staking.connect(user2).claimRewardFor(user1.address),
+        () => staking.connect(user2).restakeFor(user1.address),
+      ];
+      for (const attempt of attempts) {
+        await expect(attempt()).to.be.revertedWithCustomError(
+          staking,
+          "Staking__NotOperator"
+        );
+      }
+
+      // an operator of another staker has no rights over this one
+      await staking.connect(user3).setOperator(user2.address, true);
+      await expect(
+        staking.connect(user2).claimRewardFor(user1.address)
+      ).to.be.revertedWithCustomError(staking, "Staking__NotOperator");
+
+      // nor does a revoked operator
+      await staking.connect(user1).setOperator(user2.address, true);
+      await staking.connect(user1).setOperator(user2.address, false);
+      for (const attempt of attempts) {
+        await expect(attempt()).to.be.revertedWithCustomError(
+          staking,
+          "Staking__NotOperator"
+        );
+      }
+      expect((await staking.getStaker(user1.address)).amountStaked).to.equal(
+        500
+      );
+    });
+
+    it("Operators can stake their tokens for a staker", async () => {
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+      await staking.connect(user1).setOperator(user2.address, true);
+
+      await afterSeconds(1);
+      const stakeTime = (await time.latest()) + 1;
+      await expect(staking.connect(user2).stakeFor(user1.address, 400))
+        .to.emit(staking, "Staked")
+        .withArgs(user1.address, 400, 400, 400, stakeTime)
+        .and.to.emit(staking, "OperatorAction")
+        .withArgs(
+          user2.address,
+          user1.address,
+          staking.interface.getSighash("stakeFor")
+        );
+
+      expect(await myToken1.balanceOf(user2.address)).to.equal(600);
+      const staker = await staking.getStaker(user1.address);
+      expect(staker.amountStaked).to.equal(400);
+      expect(staker.lastStakeTime).to.equal(stakeTime);
+      expect((await staking.getStaker(user2.address)).amountStaked).to.equal(0);
+      const entries = await staking.getStakers(0, 10);
+      expect(entries.map((entry) => entry.stakerAddress)).to.deep.equal([
+        user1.address,
+      ]);
+
+      // the stake is the beneficiary's to unstake
+      await time.increase(period);
+      await staking.connect(user1).unstake(400);
+      expect(await myToken1.balanceOf(user1.address)).to.equal(400);
+    });
+
+    it("Operators can update and claim a staker's rewards, which are paid to the staker", async () => {
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.connect(user1).stake(1000);
+      await staking.connect(user1).setOperator(user2.address, true);
+      await time.increase(period);
+
+      await expect(staking.connect(user2).updateRewardFor(user1.address))
+        .to.emit(staking, "RewardUpdated")
+        .withArgs(
+          user1.address,
+          anyValue,
+          anyValue,
+          anyValue,
+          anyValue,
+          anyValue
+        )
+        .and.to.emit(staking, "OperatorAction")
+        .withArgs(
+          user2.address,
+          user1.address,
+          staking.interface.getSighash("updateRewardFor")
+        );
+      // the epoch applies to updates by operators too
+      await expect(
+        staking.connect(user2).updateRewardFor(user1.address)
+      ).to.be.revertedWithCustomError(staking, "Staking__ClaimOncePerDay");
+
+      const { pendingRewards } = await staking.getStaker(user1.address);
+      expect(pendingRewards).to.be.gt(0);
+      await expect(
+        staking.connect(user2).claimRewardFor(user1.address)
+      ).to.changeTokenBalances(myToken1, [user1, user2], [pendingRewards, 0]);
+      const { pendingRewards: leftover, rewardsUpdated } =
+        await staking.getStaker(user1.address);
+      expect(leftover).to.equal(0);
+      expect(rewardsUpdated).to.be.false;
+      await expect(
+        staking.connect(user2).claimRewardFor(user1.address)
+      ).to.be.revertedWithCustomError(staking, "Staking__RewardsNotUpdated");
+    });
+
+    it("Operators can restake a staker's rewards", async () => {
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user1.address, 1000);
+      await myToken1
+        .connect(user1)
+        .approve(staking.address, ethers.constants.MaxUint256);
+      await staking.connect(user1).stake(1000);
+      await staking.connect(user1).setOperator(user2.address, true);
+      await time.increase(period);
+      await staking.connect(user2).updateRewardFor(user1.address);
+
+      const { pendingRewards } = await staking.getStaker(user1.address);
+      await expect(staking.connect(user2).restakeFor(user1.address))
+        .to.emit(staking, "Restaked")
+        .withArgs(
+          user1.address,
+          pendingRewards.add(1000),
+          pendingRewards,
+          pendingRewards.add(1000),
+          anyValue
+        )
+        .and.to.emit(staking, "OperatorAction")
+        .withArgs(
+          user2.address,
+          user1.address,
+          staking.interface.getSighash("restakeFor")
+        );
+      expect((await staking.getStaker(user1.address)).amountStaked).to.equal(
+        pendingRewards.add(1000)
+      );
+      expect(await myToken1.balanceOf(user1.address)).to.equal(0);
+      expect(await myToken1.balanceOf(user2.address)).to.equal(0);
+    });
+
+    it("Stakers can claim their rewards to another address", async () => {
+      await fundRewards(ethers.utils.parseUnits("1000", 18));
+      await myToken1.mint(user1.address, 1000);
+      await myToken1.connect(user1).approve(staking.address, 1000);
+      await staking.connect(user1).stake(1000);
+      await time.increase(period);
+      await staking.connect(user1).updateReward();
+
+      await expect(
+        staking.connect(user1).claimTo(ethers.constants.AddressZero)
+      ).to.be.revertedWithCustomError(staking, "Staking__AddressZero");
+
+      const { pendingRewards } = await staking.getStaker(user1.address);
+      const claim = staking.connect(user1).claimTo(user3.address);
+      await expect(claim)
+        .to.emit(staking, "RewardClaimed")
+        .withArgs(user1.address, pendingRewards, anyValue, anyValue)
+        .and.to.emit(staking, "RewardClaimedTo")
+        .withArgs(user1.address, user3.address, pendingRewards);
+      await expect(claim).to.changeTokenBalances(
+        myToken1,
+        [user1, user3],
+        [0, pendingRewards]
+      );
+      expect((await staking.getStaker(user1.address)).pendingRewards).to.equal(
+        0
+      );
+    });
+
+    it("Reverts the operator calls while paused, except for updateRewardFor", async () => {
+      await myToken1.mint(user2.address, 1000);
+      await myToken1.connect(user2).approve(staking.address, 1000);
+      await staking.connect(user1).setOperator(user2.address, true);
+      await staking.connect(user2).stakeFor(user1.address, 500);
+      await time.increase(period);
+
+      await staking.pause();
+      await expect(
+        staking.connect(user2).stakeFor(user1.address, 500)
+      ).to.be.revertedWith("Pausable: paused");
+      await expect(
+        staking.connect(user2).claimRewardFor(user1.address)
+      ).to.be.revertedWith("Pausable: paused");
+      await expect(
+        staking.connect(user2).restakeFor(user1.address)
+      ).to.be.revertedWith("Pausable: paused");
+      await expect(
+        staking.connect(user1).claimTo(user3.address)
+      ).to.be.revertedWith("Pausable: paused");
+      await expect(staking.connect(user2).updateRewardFor(user1.address)).to.not
+        .be.reverted;
+    });
+
+    /* REWARD TOKEN TESTS */
+    // ------------------------
+    describe("Reward tokens", function () {
+      let myToken2: MyToken1;
+
+      beforeEach(async function () {
+        const myToken1Factory = await ethers.getContractFactory("MyToken1");
+        myToken2 = (await myToken1Factory.deploy()) as MyToken1;
+        await myToken2.deployed();
+
+        await myToken1.mint(user1.address, 1000);
+        await myToken1.connect(user1).approve(staking.address, 1000);
+        await myToken1.mint(user2.address, 1000);
+        await myToken1.connect(user2).approve(staking.address, 1000);
+      });
+
+      // Mints tokens of the second token to the owner and moves them into its reserve
+      async function fundRewardToken(amount: BigNumberish) {
+        await myToken2.mint(owner.address, amount);
+        await myToken2.approve(staking.address, amount);
+        await staking.fundRewardToken(myToken2.address, amount);
+      }
+
+      it("Pays the rewards in a reward token different from the staked token", async () => {
+        const stakingFactory = await ethers.getContractFactory("Staking");
+        const rewardStaking = (await stakingFactory.deploy(
+          myToken1.address,
+          myToken2.address,
+          100,
+          period,
+          period,
+          ethers.constants.AddressZero
+        )) as Staking;
+        await myToken1.connect(user1).approve(rewardStaking.address, 1000);
+        await myToken2.mint(owner.address, ethers.utils.parseUnits("1000", 18));
+        await myToken2.approve(
+          rewardStaking.address,
+          ethers.utils.parseUnits("1000", 18)
+        );
+        await rewardStaking.fundRewards(ethers.utils.parseUnits("1000", 18));
+
+        await rewardStaking.connect(user1).stake(500);
+        await afterSeconds(period);
+        await rewardStaking.connect(user1).updateReward();
+        await expect(
+          rewardStaking.connect(user1).restake()
+        ).to.be.revertedWithCustomError(
+          rewardStaking,
+          "Staking__RestakeUnsupported"
+        );
+        await rewardStaking.connect(user1).claimReward();
+
+        expect(await myToken2.balanceOf(user1.address)).to.equal(
+          ethers.utils.parseUnits("100", 18)
+        );
+        expect(await myToken1.balanceOf(user1.address)).to.equal(500);
+        expect(await myToken1.balanceOf(rewardStaking.address)).to.equal(500);
+      });
+
+      it("Admin can add extra reward tokens", async () => {
+        await expect(staking.addRewardToken(myToken2.address, 50))
+          .to.emit(staking, "RewardTokenAdded")
+          .withArgs(myToken2.address, 50);
+        expect(await staking.getRewardTokens()).to.deep.equal([
+          myToken2.address,
+        ]);
+        expect(
+          (await staking.getRewardTokenInfo(myToken2.address)).rewardRate
+        ).to.equal(50);
+      });
+
+      it("Non-admin can't add extra reward tokens", async () => {
+        await expect(
+          staking.connect(user1).addRewardToken(myToken2.address, 50)
+        ).to.be.revertedWith(
+          "AccessControl: account " +
+            ethers.utils.hexlify(user1.address) +
+            " is missing role " +
+            ethers.utils.hexlify(await staking.DEFAULT_ADMIN_ROLE())
+        );
+      });
+
+      it("Reverts if an extra reward token is invalid or has a 0 reward rate", async () => {
+        await expect(
+          staking.addRewardToken(myToken1.address, 50)
+        ).to.be.revertedWithCustomError(staking, "Staking__InvalidRewardToken");
+        await expect(
+          staking.addRewardToken(ethers.constants.AddressZero, 50)
+        ).to.be.revertedWithCustomError(staking, "Staking__AddressZero");
+        await expect(
+          staking.addRewardToken(myToken2.address, 0)
+        ).to.be.revertedWithCustomError(staking, "Staking__RewardRateZero");
+
+        await staking.addRewardToken(myToken2.address, 50);
+        await expect(
+          staking.addRewardToken(myToken2.address, 50)
+        ).to.be.revertedWithCustomError(staking, "Staking__InvalidRewardToken");
+        await expect(
+          staking.fundRewardToken(user3.address, 50)
+        ).to.be.revertedWithCustomError(staking, "Staking__InvalidRewardToken");
+      });
+
+      it("Streams each reward token at its own rate", async () => {
+        await staking.addRewardToken(myToken2.address, 50);
+
+        await mineTogether(
+          () => staking.connect(user1).stake(500),
+          () => staking.connect(user2).stake(500)
+        );
+        await time.increaseTo((await time.latest()) + period);
+
+        const [tokens, amounts] = await staking.getPendingRewards(
+          user1.address
+        );
+        expect(tokens).to.deep.equal([myToken1.address, myToken2.address]);
+        expect(amounts[0]).to.equal(ethers.utils.parseUnits("50", 18));
+        expect(amounts[1]).to.equal(ethers.utils.parseUnits("25", 18));
+        expect(
+          await staking.earnedRewardToken(user2.address, myToken2.address)
+        ).to.equal(ethers.utils.parseUnits("25", 18));
+      });
+
+      it("Allows claiming an extra reward token without updating the rewards", async () => {
+        await staking.addRewardToken(myToken2.address, 50);
+        await fundRewardToken(ethers.utils.parseUnits("1000", 18));
+
+        await staking.connect(user1).stake(500);
+        await afterSeconds(period);
+        await expect(staking.connect(user1).claimExtraReward(myToken2.address))
+          .to.emit(staking, "RewardTokenClaimed")
+          .withArgs(
+            user1.address,
+            myToken2.address,
+            ethers.utils.parseUnits("50", 18)
+          );
+
+        expect(await myToken2.balanceOf(user1.address)).to.equal(
+          ethers.utils.parseUnits("50", 18)
+        );
+        expect(
+          (await staking.getRewardTokenInfo(myToken2.address)).reserve
+        ).to.equal(ethers.utils.parseUnits("950", 18));
+        // the reward token rewards are untouched
+        expect(await staking.earned(user1.address)).to.equal(
+          ethers.utils.parseUnits("100", 18)
+        );
+      });
+
+      it("Reverts extra reward token claims for unknown tokens, without rewards or when the reserve runs out", async () => {
+        await staking.addRewardToken(myToken2.address, 50);
+
+        await expect(
+          staking.connect(user1).claimExtraReward(myToken1.address)
+        ).to.be.revertedWithCustomError(staking, "Staking__InvalidRewardToken");
+        await expect(
+          staking.connect(user1).claimExtraReward(myToken2.address)
+        ).to.be.revertedWithCustomError(staking, "Staking__NoPendingRewards");
+
+        await fundRewardToken(ethers.utils.parseUnits("10", 18));
+        await staking.connect(user1).stake(500);
+        await afterSeconds(period);
+        await expect(
+          staking.connect(user1).claimExtraReward(myToken2.address)
+        ).to.be.revertedWithCustomError(
+          staking,
+          "Staking__InsufficientRewardReserve"
+        );
+      });
+
+      it("Claims the pending rewards and every extra reward token with claimAll", async () => {
+        await staking.addRewardToken(myToken2.address, 50);
+        await fundRewardToken(ethers.utils.parseUnits("1000", 18));
+        await fundRewards(ethers.utils.parseUnits("1000", 18));
+
+        await expect(
+          staking.connect(user1).claimAll()
+        ).to.be.revertedWithCustomError(staking, "Staking__NoPendingRewards");
+        await staking.connect(user1).stake(500);
+
+        await afterSeconds(period);
+        await staking.connect(user1).updateReward();
+        await expect(staking.connect(user1).claimAll())
+          .to.emit(staking, "RewardClaimed")
+          .withArgs(
+            user1.address,
+            ethers.utils.parseUnits("100", 18),
+            ethers.utils.parseUnits("900", 18),
+            anyValue
+          )
+          .and.to.emit(staking, "RewardTokenClaimed")
+          .withArgs(
+            user1.address,
+            myToken2.address,
+            ethers.utils.parseUnits("50", 18).add(
+              // one more second of rewards accrued since the update
+              ethers.utils.parseUnits("50", 18).div(period)
+            )
+          );
+
+        expect(await myToken1.balanceOf(user1.address)).to.equal(
+          ethers.utils.parseUnits("100", 18).add(500)
+        );
+        expect(
+          (await staking.getStaker(user1.address)).pendingRewards
+        ).to.equal(0);
+      });
+
+      it("Keeps the extra reward token rewards accrued at the old rate when changing its rate", async () => {
+        await staking.addRewardToken(myToken2.address, 50);
+
+        await staking.connect(user1).stake(500);
+        await afterSeconds(period);
+        await expect(staking.setRewardTokenRate(myToken2.address, 100))
+          .to.emit(staking, "RewardTokenRateUpdated")
+          .withArgs(myToken2.address, 50, 100);
+        await time.increaseTo((await time.latest()) + period);
+
+        expect(
+          await staking.earnedRewardToken(user1.address, myToken2.address)
+        ).to.equal(ethers.utils.parseUnits("150", 18));
+      });
+
+      it("Forfeits the extra reward token rewards on emergency withdrawals", async () => {
+        await staking.addRewardToken(myToken2.address, 50);
+
+        await staking.connect(user1).stake(500);
+        await afterSeconds(period);
+        await staking.pause();
+        await staking.connect(user1).emergencyWithdraw();
+
+        expect(
+          await staking.earnedRewardToken(user1.address, myToken2.address)
+        ).to.equal(0);
+      });
+    });
   });
-});
+}
@@ -0,0 +1,268 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+
+import {
+  AmountExceedsStakeError,
+  InsufficientRewardReserveError,
+  InvalidRewardTokenError,
+  NoStakedAmountError,
+  NothingToWithdrawError,
+  RewardsNotUpdatedError,
+  STAKING_ERRORS,
+  StakingClient,
+  StakingError,
+  UnstakeNotAllowedError,
+  toStakingError,
+} from "../src/sdk";
+import { MyToken1, Staking, Staking__factory } from "../typechain-types";
+
+chai.use(chaiAsPromised);
+
+const DAY = 86400;
+
+describe("StakingClient", function () {
+  let staking: Staking;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let client: StakingClient;
+
+  beforeEach(async function () {
+    [owner, user] = await ethers.getSigners();
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    await staking.deployed();
+
+    await myToken1.mint(user.address, 1000);
+    client = await StakingClient.connect(staking.address, user);
+  });
+
+  // Mints tokens to the owner and moves them into the reward reserve
+  async function fundRewards(amount: string) {
+    const parsedAmount = ethers.utils.parseUnits(amount, 18);
+    await myToken1.mint(owner.address, parsedAmount);
+    await myToken1.approve(staking.address, parsedAmount);
+    await staking.fundRewards(parsedAmount);
+  }
+
+  it("Connects to the staking contract and its staked token", async () => {
+    expect(client.staking.address).to.equal(staking.address);
+    expect(client.token.address).to.equal(myToken1.address);
+  });
+
+  it("Approves the amount before staking when the allowance doesn't cover it", async () => {
+    await client.stake(400);
+    expect((await staking.getStaker(user.address)).amountStaked).to.equal(400);
+
+    // the remaining allowance is reused
+    await myToken1.connect(user).approve(staking.address, 1000);
+    await client.stake(100);
+    expect(await myToken1.allowance(user.address, staking.address)).to.equal(
+      900
+    );
+  });
+
+  it("Returns the staker's timestamps and eligibility flags", async () => {
+    await fundRewards("1000");
+    await client.stake(500);
+    const stakeTime = await time.latest();
+
+    let status = await client.getStatus(user.address);
+    expect(status.amountStaked).to.equal(500);
+    expect(status.firstStakeTime).to.equal(stakeTime);
+    expect(status.lastStakeTime).to.equal(stakeTime);
+    expect(status.unlockTime).to.equal(stakeTime + DAY);
+    expect(status.nextUpdateTime).to.equal(stakeTime + DAY);
+    expect(status.canUnstake).to.be.false;
+    expect(status.canUpdateReward).to.be.false;
+    expect(status.canRestake).to.be.false;
+    expect(status.canClaim).to.be.false;
+
+    await time.increaseTo(stakeTime + DAY);
+    status = await client.getStatus(user.address);
+    expect(status.canUnstake).to.be.true;
+    expect(status.canUpdateReward).to.be.true;
+    expect(status.canRestake).to.be.false;
+    expect(status.earned).to.equal(ethers.utils.parseUnits("100", 18));
+
+    await staking.connect(user).updateReward();
+    status = await client.getStatus(user.address);
+    expect(status.lastUpdateTime).to.equal(stakeTime + DAY + 1);
+    expect(status.nextUpdateTime).to.equal(stakeTime + 2 * DAY + 1);
+    expect(status.canUpdateReward).to.be.false;
+    expect(status.canRestake).to.be.true;
+    expect(status.canClaim).to.be.true;
+  });
+
+  it("Updates the rewards before claiming them when eligible", async () => {
+    await fundRewards("1000");
+    await client.stake(500);
+    await time.increase(DAY);
+
+    await client.claim();
+    expect(await myToken1.balanceOf(user.address)).to.be.gt(
+      ethers.utils.parseUnits("100", 18)
+    );
+    expect((await client.getStatus(user.address)).pendingRewards).to.equal(0);
+  });
+
+  it("Claims the rewards of an extra reward token", async () => {
+    const myToken2 = (await (
+      await ethers.getContractFactory("MyToken1")
+    ).deploy()) as MyToken1;
+    await expect(client.claimExtraReward(myToken2.address)).to.be.rejectedWith(
+      InvalidRewardTokenError
+    );
+
+    await staking.addRewardToken(myToken2.address, 50);
+    await myToken2.mint(owner.address, ethers.utils.parseUnits("1000", 18));
+    await myToken2.approve(staking.address, ethers.constants.MaxUint256);
+    await staking.fundRewardToken(
+      myToken2.address,
+      ethers.utils.parseUnits("1000", 18)
+    );
+    await client.stake(500);
+    await time.increase(DAY);
+
+    await client.claimExtraReward(myToken2.address);
+    expect(await myToken2.balanceOf(user.address)).to.be.gte(
+      ethers.utils.parseUnits("50", 18)
+    );
+  });
+
+  it("Restakes the rewards, approving the restaked amount", async () => {
+    await fundRewards("1000");
+    await client.stake(500);
+    await time.increase(DAY);
+
+    await client.restake();
+    expect((await client.getStatus(user.address)).amountStaked).to.be.gt(
+      ethers.utils.parseUnits("100", 18)
+    );
+  });
+
+  it("Claims and unstakes everything on exit", async () => {
+    await fundRewards("1000");
+    await client.stake(500);
+    await time.increase(DAY);
+
+    const receipts = await client.exit();
+    expect(receipts.length).to.equal(2);
+    const status = await client.getStatus(user.address);
+    expect(status.amountStaked).to.equal(0);
+    expect(status.pendingRewards).to.equal(0);
+    expect(await myToken1.balanceOf(user.address)).to.be.gt(
+      ethers.utils.parseUnits("100", 18).add(1000)
+    );
+  });
+
+  it("Only claims on exit when everything is locked in positions", async () => {
+    await fundRewards("1000");
+    await myToken1.connect(user).approve(staking.address, 500);
+    await staking.connect(user).stakeInTier(500, 0);
+    await time.increase(DAY);
+
+    const receipts = await client.exit();
+    expect(receipts.length).to.equal(1);
+    const status = await client.getStatus(user.address);
+    expect(status.amountStaked).to.equal(500);
+    expect(status.pendingRewards).to.equal(0);
+    expect(await myToken1.balanceOf(user.address)).to.be.gt(
+      ethers.utils.parseUnits("100", 18)
+    );
+
+    // with nothing left to claim, exit sends nothing
+    await staking.connect(user).unstakePosition(0);
+    const blockNumber = await ethers.provider.getBlockNumber();
+    await expect(client.exit()).to.be.rejectedWith(NoStakedAmountError);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+  });
+
+  it("Requests to unstake on exit while the unbonding queue is enabled, then withdraws", async () => {
+    await fundRewards("1000");
+    await staking.setUnbondingPeriod(2 * DAY);
+    await client.stake(500);
+    await time.increase(DAY);
+
+    await client.exit();
+    let status = await client.getStatus(user.address);
+    expect(status.amountStaked).to.equal(0);
+    expect(status.unbondingAmount).to.equal(500);
+    expect(status.withdrawableAmount).to.equal(0);
+    await expect(client.withdraw()).to.be.rejectedWith(NothingToWithdrawError);
+
+    await time.increase(2 * DAY);
+    expect((await client.getStatus(user.address)).withdrawableAmount).to.equal(
+      500
+    );
+    const balance = await myToken1.balanceOf(user.address);
+    await client.withdraw();
+    status = await client.getStatus(user.address);
+    expect(status.unbondingAmount).to.equal(0);
+    expect(await myToken1.balanceOf(user.address)).to.equal(balance.add(500));
+  });
+
+  it("Throws typed errors for the Staking custom errors", async () => {
+    await expect(client.exit()).to.be.rejectedWith(NoStakedAmountError);
+
+    await client.stake(500);
+    await expect(client.exit()).to.be.rejectedWith(UnstakeNotAllowedError);
+    await expect(client.claim()).to.be.rejectedWith(RewardsNotUpdatedError);
+
+    await time.increase(DAY);
+    const error = await client.claim().catch((error) => error);
+    expect(error).to.be.instanceOf(InsufficientRewardReserveError);
+    expect(error).to.be.instanceOf(StakingError);
+    expect(error.errorName).to.equal("Staking__InsufficientRewardReserve");
+    expect(error.name).to.equal("InsufficientRewardReserveError");
+  });
+
+  it("Maps the errors of direct contract calls", async () => {
+    await client.stake(500);
+    await time.increase(DAY);
+
+    const error = await staking
+      .connect(user)
+      .unstake(501)
+      .catch((error) => error);
+    expect(toStakingError(error)).to.be.instanceOf(AmountExceedsStakeError);
+    const estimateError = await staking
+      .connect(user)
+      .estimateGas.unstake(501)
+      .catch((error) => error);
+    expect(toStakingError(estimateError)).to.be.instanceOf(
+      AmountExceedsStakeError
+    );
+  });
+
+  it("Leaves other errors unchanged", async () => {
+    const error = new Error("network error");
+    expect(toStakingError(error)).to.equal(error);
+  });
+
+  it("Has an error class for every Staking custom error", async () => {
+    const errorNames = Object.values(
+      Staking__factory.createInterface().errors
+    ).map((fragment) => fragment.name);
+
+    for (const errorName of errorNames) {
+      expect(STAKING_ERRORS, errorName).to.have.property(errorName);
+      expect(new STAKING_ERRORS[errorName]().errorName).to.equal(errorName);
+    }
+  });
+});
@@ -0,0 +1,362 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+
+import {
+  CREATE_POOL_GAS_LIMIT,
+  InvalidDurationError,
+  StakingRegistry,
+} from "../src/sdk";
+import {
+  MyToken1,
+  Staking,
+  StakingFactory,
+  Staking__factory,
+} from "../typechain-types";
+
+chai.use(chaiAsPromised);
+
+const DAY = 86400;
+
+describe("StakingFactory", function () {
+  let factory: StakingFactory;
+  let tokens: MyToken1[];
+  let owner: SignerWithAddress;
+  let creator: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, creator, user] = await ethers.getSigners();
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    tokens = [];
+    for (let i = 0; i < 2; i++) {
+      const token = (await myToken1Factory.deploy()) as MyToken1;
+      await token.deployed();
+      tokens.push(token);
+    }
+
+    const stakingFactoryFactory = await ethers.getContractFactory(
+      "StakingFactory"
+    );
+    factory = (await stakingFactoryFactory.deploy(
+      ethers.constants.AddressZero
+    )) as StakingFactory;
+    await factory.deployed();
+    await factory.grantRole(await factory.POOL_CREATOR_ROLE(), creator.address);
+  });
+
+  // Creates a pool of the token, paying its rewards in the same token
+  function createPool(
+    token: MyToken1,
+    rewardRate: number,
+    lockPeriod: number,
+    metadata: string
+  ) {
+    return factory.connect(creator).createPool(
+      Staking__factory.bytecode,
+      {
+        stakedToken: token.address,
+        rewardToken: token.address,
+        rewardRate,
+        lockPeriod,
+        epochLength: DAY,
+      },
+      metadata,
+      { gasLimit: CREATE_POOL_GAS_LIMIT }
+    );
+  }
+
+  it("Records the hash of the Staking creation code", async () => {
+    expect(await factory.stakingCodeHash()).to.equal(
+      ethers.utils.keccak256(Staking__factory.bytecode)
+    );
+    expect(await factory.trustedForwarder()).to.equal(
+      ethers.constants.AddressZero
+    );
+  });
+
+  it("Creates several pools over several tokens and registers them", async () => {
+    const [token1, token2] = tokens;
+    // the factory's first deployment, contract nonces start at 1
+    const firstPool = ethers.utils.getContractAddress({
+      from: factory.address,
+      nonce: 1,
+    });
+    await expect(createPool(token1, 100, DAY, "MTK1 flexible"))
+      .to.emit(factory, "PoolCreated")
+      .withArgs(
+        0,
+        firstPool,
+        token1.address,
+        token1.address,
+        creator.address,
+        "MTK1 flexible"
+      );
+    const receipt = await (
+      await createPool(token1, 300, 30 * DAY, "MTK1 30 days")
+    ).wait();
+    const createdAt = await time.latest();
+    const topic = factory.interface.getEventTopic("PoolCreated");
+    const log = receipt.logs.find(
+      (log) => log.address === factory.address && log.topics[0] === topic
+    );
+    expect(log, "PoolCreated log").to.not.be.undefined;
+    const { args } = factory.interface.parseLog(log!);
+    expect(args.poolId).to.equal(1);
+    await createPool(token2, 50, 7 * DAY, "Second token 7 days");
+
+    expect(await factory.poolCount()).to.equal(3);
+    const pools = await factory.getPools();
+    expect(pools.map((pool) => pool.metadata)).to.deep.equal([
+      "MTK1 flexible",
+      "MTK1 30 days",
+      "Second token 7 days",
+    ]);
+    expect(await factory.getPoolIds(token1.address)).to.deep.equal([0, 1]);
+    expect(await factory.getPoolIds(token2.address)).to.deep.equal([2]);
+
+    const pool = await factory.getPool(1);
+    expect(pool.stakedToken).to.equal(token1.address);
+    expect(pool.rewardToken).to.equal(token1.address);
+    expect(pool.creator).to.equal(creator.address);
+    expect(pool.createdAt).to.equal(createdAt);
+    expect(pool.pool).to.equal(args.pool);
+    expect(await factory.isPool(pool.pool)).to.be.true;
+    expect(await factory.isPool(token1.address)).to.be.false;
+
+    // every pool is a Staking deployment with its own parameters
+    const staking = (await ethers.getContractAt(
+      "Staking",
+      pool.pool
+    )) as Staking;
+    expect(await staking.stakedToken()).to.equal(token1.address);
+    expect(await staking.rewardRate()).to.equal(300);
+    expect(await staking.lockPeriod()).to.equal(30 * DAY);
+    expect(await staking.epochLength()).to.equal(DAY);
+    expect(pools[2].pool).to.not.equal(pools[0].pool);
+    expect(
+      await (await ethers.getContractAt("Staking", pools[2].pool)).stakedToken()
+    ).to.equal(token2.address);
+
+    await expect(factory.getPool(3)).to.be.revertedWithCustomError(
+      factory,
+      "StakingFactory__InvalidPool"
+    );
+  });
+
+  it("Hands the roles of the pools over to their creator", async () => {
+    await createPool(tokens[0], 100, DAY, "MTK1 flexible");
+    const staking = (await ethers.getContractAt(
+      "Staking",
+      (
+        await factory.getPool(0)
+      ).pool
+    )) as Staking;
+
+    for (const role of [
+      await staking.DEFAULT_ADMIN_ROLE(),
+      await staking.RATE_MANAGER_ROLE(),
+      await staking.PAUSER_ROLE(),
+    ]) {
+      expect(await staking.hasRole(role, creator.address)).to.be.true;
+      expect(await staking.hasRole(role, factory.address)).to.be.false;
+      expect(await staking.hasRole(role, owner.address)).to.be.false;
+    }
+    await staking.connect(creator).setRewardRate(200);
+    expect(await staking.rewardRate()).to.equal(200);
+  });
+
+  it("Deploys pools that work like a hand-made deployment", async () => {
+    const [token1, token2] = tokens;
+    await createPool(token1, 100, DAY, "MTK1 flexible");
+    await createPool(token2, 100, DAY, "Second token flexible");
+    const [pool1, pool2] = await factory.getPools();
+    const staking1 = (await ethers.getContractAt(
+      "Staking",
+      pool1.pool
+    )) as Staking;
+
+    await token1.mint(user.address, 1000);
+    await token1.connect(user).approve(staking1.address, 1000);
+    await staking1.connect(user).stake(1000);
+    expect((await staking1.getStaker(user.address)).amountStaked).to.equal(
+      1000
+    );
+    expect(
+      await (await ethers.getContractAt("Staking", pool2.pool)).totalStaked()
+    ).to.equal(0);
+    expect(
+      await (
+        await ethers.getContractAt("StakeReceipt", await staking1.receipt())
+      ).balanceOf(user.address)
+    ).to.equal(1000);
+  });
+
+  it("Only deploys the recorded Staking creation code", async () => {
+    const [token1] = tokens;
+    const params = {
+      stakedToken: token1.address,
+      rewardToken: token1.address,
+      rewardRate: 100,
+      lockPeriod: DAY,
+      epochLength: DAY,
+    };
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+
+    await expect(
+      factory
+        .connect(creator)
+        .createPool(myToken1Factory.bytecode, params, "Not a pool", {
+          gasLimit: CREATE_POOL_GAS_LIMIT,
+        })
+    ).to.be.revertedWithCustomError(factory, "StakingFactory__InvalidCode");
+    await expect(
+      factory
+        .connect(creator)
+        .createPool(Staking__factory.bytecode + "00", params, "Not a pool", {
+          gasLimit: CREATE_POOL_GAS_LIMIT,
+        })
+    ).to.be.revertedWithCustomError(factory, "StakingFactory__InvalidCode");
+  });
+
+  it("Reverts with the Staking errors of invalid parameters", async () => {
+    const [token1] = tokens;
+    await expect(
+      createPool(token1, 0, DAY, "No rewards")
+    ).to.be.revertedWithCustomError(
+      Staking__factory.connect(factory.address, owner),
+      "Staking__RewardRateZero"
+    );
+    await expect(
+      createPool(token1, 100, 0, "No lock")
+    ).to.be.revertedWithCustomError(
+      Staking__factory.connect(factory.address, owner),
+      "Staking__InvalidDuration"
+    );
+    expect(await factory.poolCount()).to.equal(0);
+  });
+
+  it("Only lets pool creators create pools", async () => {
+    const role = await factory.POOL_CREATOR_ROLE();
+    await expect(
+      factory.connect(user).createPool(
+        Staking__factory.bytecode,
+        {
+          stakedToken: tokens[0].address,
+          rewardToken: tokens[0].address,
+          rewardRate: 100,
+          lockPeriod: DAY,
+          epochLength: DAY,
+        },
+        "Not allowed",
+        { gasLimit: CREATE_POOL_GAS_LIMIT }
+      )
+    ).to.be.revertedWith(
+      `AccessControl: account ${user.address.toLowerCase()} is missing role ${role}`
+    );
+  });
+
+  it("Lets the pool's admins update its metadata", async () => {
+    await createPool(tokens[0], 100, DAY, "MTK1 flexible");
+
+    await expect(
+      factory.connect(owner).setPoolMetadata(0, "Renamed")
+    ).to.be.revertedWithCustomError(factory, "StakingFactory__NotPoolAdmin");
+    await expect(factory.connect(creator).setPoolMetadata(0, "Renamed"))
+      .to.emit(factory, "PoolMetadataUpdated")
+      .withArgs(0, "Renamed");
+    expect((await factory.getPool(0)).metadata).to.equal("Renamed");
+    await expect(
+      factory.connect(creator).setPoolMetadata(1, "Missing")
+    ).to.be.revertedWithCustomError(factory, "StakingFactory__InvalidPool");
+  });
+
+  describe("StakingRegistry", function () {
+    let registry: StakingRegistry;
+
+    beforeEach(async function () {
+      registry = StakingRegistry.connect(factory.address, creator);
+    });
+
+    it("Creates pools and discovers them through the registry", async () => {
+      const [token1, token2] = tokens;
+      const created = await registry.createPool(
+        {
+          stakedToken: token1.address,
+          rewardRate: 100,
+          lockPeriod: DAY,
+          epochLength: DAY,
+        },
+        "MTK1 flexible"
+      );
+      expect(created.poolId).to.equal(0);
+      expect(created.rewardToken).to.equal(token1.address);
+      await registry.createPool(
+        {
+          stakedToken: token2.address,
+          rewardRate: 100,
+          lockPeriod: DAY,
+          epochLength: DAY,
+        },
+        "Second token flexible"
+      );
+      await registry.createPool(
+        {
+          stakedToken: token1.address,
+          rewardRate: 200,
+          lockPeriod: 7 * DAY,
+          epochLength: DAY,
+        },
+        "MTK1 7 days"
+      );
+
+      const pools = await registry.getPools();
+      expect(pools.map((pool) => pool.poolId)).to.deep.equal([0, 1, 2]);
+      expect(pools[0]).to.deep.equal(created);
+      const token1Pools = await registry.getPoolsOf(token1.address);
+      expect(token1Pools.map((pool) => pool.metadata)).to.deep.equal([
+        "MTK1 flexible",
+        "MTK1 7 days",
+      ]);
+      expect(await registry.getPoolsOf(user.address)).to.deep.equal([]);
+    });
+
+    it("Connects a client to a pool of the registry", async () => {
+      const [token1] = tokens;
+      await registry.createPool(
+        {
+          stakedToken: token1.address,
+          rewardRate: 100,
+          lockPeriod: DAY,
+          epochLength: DAY,
+        },
+        "MTK1 flexible"
+      );
+
+      const client = await registry.connectPool(0);
+      expect(client.token.address).to.equal(token1.address);
+      await token1.mint(creator.address, 500);
+      await client.stake(500);
+      expect((await client.getStatus(creator.address)).amountStaked).to.equal(
+        500
+      );
+    });
+
+    it("Throws the typed Staking errors of invalid parameters", async () => {
+      await expect(
+        registry.createPool(
+          {
+            stakedToken: tokens[0].address,
+            rewardRate: 100,
+            lockPeriod: 0,
+            epochLength: DAY,
+          },
+          "No lock"
+        )
+      ).to.be.rejectedWith(InvalidDurationError);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Wallet } from "ethers";
+import { ethers } from "hardhat";
+
+import { signPermit } from "../scripts/lib/permit";
+import { relay, signForwardRequest } from "../scripts/lib/relayer";
+import { MyToken1, Staking, StakingForwarder } from "../typechain-types";
+
+chai.use(chaiAsPromised);
+
+const DAY = 86400;
+
+describe("StakingForwarder", function () {
+  let staking: Staking;
+  let forwarder: StakingForwarder;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let relayer: SignerWithAddress;
+  // holds MyToken1 but no ETH
+  let user: Wallet;
+
+  beforeEach(async function () {
+    [owner, relayer] = await ethers.getSigners();
+    user = Wallet.createRandom().connect(ethers.provider);
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const forwarderFactory = await ethers.getContractFactory(
+      "StakingForwarder"
+    );
+    forwarder = (await forwarderFactory.deploy()) as StakingForwarder;
+    await forwarder.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      forwarder.address
+    )) as Staking;
+    await staking.deployed();
+
+    const reserve = ethers.utils.parseUnits("1000", 18);
+    await myToken1.mint(owner.address, reserve);
+    await myToken1.approve(staking.address, reserve);
+    await staking.fundRewards(reserve);
+    await myToken1.mint(user.address, 1000);
+  });
+
+  // Signs a call to Staking with the user and relays it
+  async function relayStakingCall(data: string) {
+    const { request, signature } = await signForwardRequest(
+      forwarder,
+      user,
+      staking.address,
+      data
+    );
+    return relay(forwarder, relayer, request, signature);
+  }
+
+  // Stakes the user's tokens with a permit, through the relayer
+  async function relayStake(amount: number) {
+    const deadline = (await time.latest()) + 3600;
+    const { v, r, s } = await signPermit(
+      myToken1,
+      user,
+      staking.address,
+      amount,
+      deadline
+    );
+    return relayStakingCall(
+      staking.interface.encodeFunctionData("stakeWithPermit", [
+        amount,
+        deadline,
+        v,
+        r,
+        s,
+      ])
+    );
+  }
+
+  it("Trusts only the forwarder it was deployed with", async () => {
+    expect(await staking.isTrustedForwarder(forwarder.address)).to.be.true;
+    expect(await staking.isTrustedForwarder(relayer.address)).to.be.false;
+  });
+
+  it("Stakes for the signer of a relayed request", async () => {
+    await expect(relayStake(500))
+      .to.emit(staking, "Staked")
+      .withArgs(user.address, 500, 500, 500, anyValue);
+
+    expect((await staking.getStaker(user.address)).amountStaked).to.equal(500);
+    expect((await staking.getStaker(relayer.address)).amountStaked).to.equal(0);
+    expect(await myToken1.balanceOf(user.address)).to.equal(500);
+    expect(await ethers.provider.getBalance(user.address)).to.equal(0);
+  });
+
+  it("Updates, claims and unstakes through relayed requests", async () => {
+    await relayStake(500);
+    await time.increase(DAY);
+
+    await expect(
+      relayStakingCall(staking.interface.encodeFunctionData("updateReward"))
+    )
+      .to.emit(staking, "RewardUpdated")
+      .withArgs(
+        user.address,
+        anyValue,
+        1,
+        ethers.utils.parseUnits("1", 18),
+        anyValue,
+        anyValue
+      );
+    const pendingRewards = (await staking.getStaker(user.address))
+      .pendingRewards;
+    await expect(
+      relayStakingCall(staking.interface.encodeFunctionData("claimReward"))
+    )
+      .to.emit(staking, "RewardClaimed")
+      .withArgs(
+        user.address,
+        pendingRewards,
+        ethers.utils.parseUnits("1000", 18).sub(pendingRewards),
+        anyValue
+      );
+    await expect(
+      relayStakingCall(staking.interface.encodeFunctionData("unstake", [500]))
+    )
+      .to.emit(staking, "Unstaked")
+      .withArgs(user.address, 500, 0, 0, anyValue);
+
+    expect(await myToken1.balanceOf(user.address)).to.equal(
+      pendingRewards.add(1000)
+    );
+    expect(await ethers.provider.getBalance(user.address)).to.equal(0);
+  });
+
+  it("Restakes through a relayed request", async () => {
+    await relayStake(500);
+    await time.increase(DAY);
+    await relayStakingCall(
+      staking.interface.encodeFunctionData("updateReward")
+    );
+    const pendingRewards = (await staking.getStaker(user.address))
+      .pendingRewards;
+
+    // restake moves the stake through the user's wallet, so it needs an allowance
+    const deadline = (await time.latest()) + 3600;
+    const { v, r, s } = await signPermit(
+      myToken1,
+      user,
+      staking.address,
+      pendingRewards.add(500),
+      deadline
+    );
+    await myToken1
+      .connect(relayer)
+      .permit(
+        user.address,
+        staking.address,
+        pendingRewards.add(500),
+        deadline,
+        v,
+        r,
+        s
+      );
+    await expect(
+      relayStakingCall(staking.interface.encodeFunctionData("restake"))
+    )
+      .to.emit(staking, "Restaked")
+      .withArgs(
+        user.address,
+        pendingRewards.add(500),
+        pendingRewards,
+        pendingRewards.add(500),
+        anyValue
+      );
+  });
+
+  it("Rejects requests signed by another account", async () => {
+    const { request, signature } = await signForwardRequest(
+      forwarder,
+      relayer,
+      staking.address,
+      staking.interface.encodeFunctionData("unstake", [500])
+    );
+
+    await expect(
+      relay(forwarder, relayer, { ...request, from: user.address }, signature)
+    ).to.be.rejectedWith("Invalid signature or nonce");
+  });
+
+  it("Rejects replayed requests", async () => {
+    const { request, signature } = await signForwardRequest(
+      forwarder,
+      user,
+      staking.address,
+      staking.interface.encodeFunctionData("updateReward")
+    );
+    await relayStake(500);
+
+    // the stake used the nonce the request was signed with
+    await expect(
+      relay(forwarder, relayer, request, signature)
+    ).to.be.rejectedWith("Invalid signature or nonce");
+  });
+
+  it("Doesn't submit requests whose relayed call reverts", async () => {
+    const nonce = await forwarder.getNonce(user.address);
+
+    await expect(
+      relayStakingCall(staking.interface.encodeFunctionData("unstake", [500]))
+    ).to.be.rejectedWith("reverts");
+    expect(await forwarder.getNonce(user.address)).to.equal(nonce);
+  });
+
+  it("Ignores the appended sender for calls that don't come from the forwarder", async () => {
+    await myToken1.mint(relayer.address, 1000);
+    await myToken1.connect(relayer).approve(staking.address, 1000);
+    const data = staking.interface.encodeFunctionData("stake", [500]);
+
+    await relayer.sendTransaction({
+      to: staking.address,
+      data: ethers.utils.hexConcat([data, user.address]),
+    });
+    expect((await staking.getStaker(relayer.address)).amountStaked).to.equal(
+      500
+    );
+    expect((await staking.getStaker(user.address)).amountStaked).to.equal(0);
+  });
+});
@@ -0,0 +1,379 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { BigNumber, ContractTransaction } from "ethers";
+import { ethers } from "hardhat";
+
+import { StakingError, toStakingError } from "../src/sdk";
+import { MyToken1, Staking } from "../typechain-types";
+
+const DAY = 86400;
+const RATE = 100;
+
+// The seed is fixed so that every run checks the same sequences. Override it with FUZZ_SEED to replay
+// a failing run or with FUZZ_SEED=random for new sequences, and FUZZ_RUNS / FUZZ_STEPS to fuzz longer
+const SEED =
+  process.env.FUZZ_SEED === "random"
+    ? Date.now() % 2 ** 31
+    : Number(process.env.FUZZ_SEED ?? 1);
+const RUNS = Number(process.env.FUZZ_RUNS ?? 4);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 30);
+
+type Action =
+  | { type: "stake"; user: number; amount: number }
+  | { type: "unstake"; user: number; percent: number }
+  | { type: "updateReward"; user: number }
+  | { type: "claimReward"; user: number }
+  | { type: "restake"; user: number }
+  | { type: "fundRewards"; amount: number }
+  | { type: "timeJump"; seconds: number };
+
+interface System {
+  staking: Staking;
+  myToken1: MyToken1;
+  owner: SignerWithAddress;
+  users: SignerWithAddress[];
+}
+
+// Rewards each user was paid, from the RewardClaimed and Restaked events
+type PaidRewards = Map<string, BigNumber>;
+
+type Invariant = (
+  system: System,
+  paid: PaidRewards
+) => Promise<string | undefined>;
+
+// Small seeded PRNG (mulberry32), so that a failing run can be replayed from its seed
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return (max: number) => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) % max) + 1;
+  };
+}
+
+function randomActions(seed: number, steps: number, userCount: number) {
+  const random = createRandom(seed);
+  const actions: Action[] = [];
+  for (let i = 0; i < steps; i++) {
+    const user = random(userCount) - 1;
+    switch (random(7)) {
+      case 1:
+        actions.push({ type: "stake", user, amount: random(1000) });
+        break;
+      case 2:
+        actions.push({ type: "unstake", user, percent: random(100) });
+        break;
+      case 3:
+        actions.push({ type: "updateReward", user });
+        break;
+      case 4:
+        actions.push({ type: "claimReward", user });
+        break;
+      case 5:
+        actions.push({ type: "restake", user });
+        break;
+      case 6:
+        actions.push({ type: "fundRewards", amount: random(300) });
+        break;
+      default:
+        actions.push({ type: "timeJump", seconds: random(2 * DAY) });
+    }
+  }
+  return actions;
+}
+
+function formatAction(action: Action): string {
+  switch (action.type) {
+    case "stake":
+      return `user${action.user}.stake(${action.amount} tokens)`;
+    case "unstake":
+      return `user${action.user}.unstake(${action.percent}% of the unlocked stake)`;
+    case "fundRewards":
+      return `owner.fundRewards(${action.amount} tokens)`;
+    case "timeJump":
+      return `time.increase(${action.seconds})`;
+    default:
+      return `user${action.user}.${action.type}()`;
+  }
+}
+
+async function deployFixture(): Promise<System> {
+  const [owner, ...signers] = await ethers.getSigners();
+  const users = signers.slice(0, 4);
+
+  const myToken1Factory = await ethers.getContractFactory("MyToken1");
+  const myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+  await myToken1.deployed();
+
+  const stakingFactory = await ethers.getContractFactory("Staking");
+  const staking = (await stakingFactory.deploy(
+    myToken1.address,
+    myToken1.address,
+    RATE,
+    DAY,
+    DAY,
+    ethers.constants.AddressZero
+  )) as Staking;
+  await staking.deployed();
+
+  // a small reserve, so that claims and restakes can run out of rewards
+  const reserve = ethers.utils.parseUnits("200", 18);
+  await myToken1.mint(owner.address, ethers.utils.parseUnits("1000000", 18));
+  await myToken1.approve(staking.address, ethers.constants.MaxUint256);
+  await staking.fundRewards(reserve);
+  for (const user of users) {
+    await myToken1.mint(user.address, ethers.utils.parseUnits("100000", 18));
+    await myToken1
+      .connect(user)
+      .approve(staking.address, ethers.constants.MaxUint256);
+  }
+  return { staking, myToken1, owner, users };
+}
+
+// Sends the action's transaction, a revert with a Staking custom error is an expected outcome
+async function execute(
+  { staking, users }: System,
+  paid: PaidRewards,
+  action: Action
+) {
+  if (action.type === "timeJump") {
+    await time.increase(action.seconds);
+    return;
+  }
+
+  let transaction: () => Promise<ContractTransaction>;
+  if (action.type === "fundRewards") {
+    transaction = () =>
+      staking.fundRewards(ethers.utils.parseUnits(`${action.amount}`, 18));
+  } else {
+    const user = users[action.user];
+    const userStaking = staking.connect(user);
+    if (action.type === "stake") {
+      transaction = () =>
+        userStaking.stake(ethers.utils.parseUnits(`${action.amount}`, 18));
+    } else if (action.type === "unstake") {
+      const staker = await staking.getStaker(user.address);
+      const amount = staker.amountStaked
+        .sub(staker.lockedAmount)
+        .mul(action.percent)
+        .div(100);
+      transaction = () => userStaking.unstake(amount);
+    } else {
+      transaction = () => userStaking[action.type]();
+    }
+  }
+
+  try {
+    const receipt = await (await transaction()).wait();
+    for (const log of receipt.logs) {
+      if (log.address !== staking.address) {
+        continue;
+      }
+      const event = staking.interface.parseLog(log);
+      const rewards =
+        event.name === "RewardClaimed"
+          ? event.args.rewards
+          : event.name === "Restaked"
+          ? event.args.rewardsRestaked
+          : undefined;
+      if (rewards) {
+        const staker: string = event.args.staker;
+        paid.set(staker, (paid.get(staker) ?? BigNumber.from(0)).add(rewards));
+      }
+    }
+  } catch (error) {
+    if (!(toStakingError(error) instanceof StakingError)) {
+      throw error;
+    }
+  }
+}
+
+const checkInvariants: Invariant = async (
+  { staking, myToken1, users },
+  paid
+) => {
+  const [balance, totalStaked, totalUnbonding, rewardReserve, now] =
+    await Promise.all([
+      myToken1.balanceOf(staking.address),
+      staking.totalStaked(),
+      staking.totalUnbonding(),
+      staking.rewardReserve(),
+      time.latest(),
+    ]);
+
+  if (balance.lt(totalStaked.add(totalUnbonding).add(rewardReserve))) {
+    return `balance ${balance} doesn't cover totalStaked ${totalStaked} + totalUnbonding ${totalUnbonding} + rewardReserve ${rewardReserve}`;
+  }
+
+  const receipt = await ethers.getContractAt(
+    "StakeReceipt",
+    await staking.receipt()
+  );
+  let sumStaked = BigNumber.from(0);
+  let totalRewards = BigNumber.from(0);
+  let firstStakeTime = now;
+  for (const [i, user] of users.entries()) {
+    const staker = await staking.getStaker(user.address);
+    sumStaked = sumStaked.add(staker.amountStaked);
+    const receipts = await receipt.balanceOf(user.address);
+    if (!receipts.eq(staker.amountStaked)) {
+      return `user${i} holds ${receipts} receipts for a stake of ${staker.amountStaked}`;
+    }
+    if (staker.firstStakeTime === 0) {
+      continue;
+    }
+    firstStakeTime = Math.min(firstStakeTime, staker.firstStakeTime);
+
+    // the user can't have earned more than the whole emission since his first stake
+    const rewards = (await staking.earned(user.address)).add(
+      paid.get(user.address) ?? 0
+    );
+    const allowed = ethers.utils
+      .parseUnits(`${RATE}`, 18)
+      .mul(now - staker.firstStakeTime)
+      .div(DAY);
+    if (rewards.gt(allowed)) {
+      return `user${i} earned ${rewards}, more than the ${allowed} emitted since his first stake`;
+    }
+    totalRewards = totalRewards.add(rewards);
+  }
+
+  if (!sumStaked.eq(totalStaked)) {
+    return `the stakers' amountStaked sum to ${sumStaked}, totalStaked is ${totalStaked}`;
+  }
+  const emitted = ethers.utils
+    .parseUnits(`${RATE}`, 18)
+    .mul(now - firstStakeTime)
+    .div(DAY);
+  if (totalRewards.gt(emitted)) {
+    return `the stakers earned ${totalRewards}, more than the ${emitted} emitted`;
+  }
+  return undefined;
+};
+
+// Replays the actions on a fresh deployment and returns the first broken invariant
+async function runActions(
+  actions: Action[],
+  invariant: Invariant = checkInvariants
+): Promise<{ step: number; message: string } | undefined> {
+  const system = await loadFixture(deployFixture);
+  const paid: PaidRewards = new Map();
+  for (const [step, action] of actions.entries()) {
+    try {
+      await execute(system, paid, action);
+    } catch (error) {
+      return { step, message: `unexpected error: ${error}` };
+    }
+    const message = await invariant(system, paid);
+    if (message) {
+      return { step, message };
+    }
+  }
+  return undefined;
+}
+
+// Numbers closer to the smallest value, tried by the shrinker
+function simplerActions(action: Action): Action[] {
+  const smaller = (value: number) =>
+    [1, Math.floor(value / 2)].filter(
+      (candidate, i, all) => candidate < value && all.indexOf(candidate) === i
+    );
+  switch (action.type) {
+    case "stake":
+    case "fundRewards":
+      return smaller(action.amount).map((amount) => ({ ...action, amount }));
+    case "unstake":
+      return smaller(action.percent).map((percent) => ({ ...action, percent }));
+    case "timeJump":
+      return smaller(action.seconds).map((seconds) => ({ ...action, seconds }));
+    default:
+      return [];
+  }
+}
+
+// Removes actions, then simplifies the remaining ones, as long as the sequence keeps failing
+async function shrink(
+  actions: Action[],
+  invariant: Invariant = checkInvariants
+): Promise<Action[]> {
+  const fails = async (candidate: Action[]) =>
+    (await runActions(candidate, invariant)) !== undefined;
+  let current = actions;
+
+  for (
+    let chunk = Math.ceil(current.length / 2);
+    chunk >= 1;
+    chunk = Math.floor(chunk / 2)
+  ) {
+    for (let i = 0; i < current.length; ) {
+      const candidate = [...current.slice(0, i), ...current.slice(i + chunk)];
+      if (candidate.length > 0 && (await fails(candidate))) {
+        current = candidate;
+      } else {
+        i += chunk;
+      }
+    }
+  }
+
+  for (let i = 0; i < current.length; i++) {
+    for (const simpler of simplerActions(current[i])) {
+      const candidate = [...current];
+      candidate[i] = simpler;
+      if (await fails(candidate)) {
+        current = candidate;
+        i--;
+        break;
+      }
+    }
+  }
+  return current;
+}
+
+describe("Staking invariants (fuzz)", function () {
+  this.timeout(0);
+
+  it(`Holds the invariants over ${RUNS} random sequences of ${STEPS} actions (seed ${SEED})`, async () => {
+    for (let run = 0; run < RUNS; run++) {
+      const seed = SEED + run;
+      const actions = randomActions(seed, STEPS, 4);
+      const failure = await runActions(actions);
+      if (failure) {
+        const minimal = await shrink(actions.slice(0, failure.step + 1));
+        const message = [
+          `Invariant broken with FUZZ_SEED=${seed}: ${failure.message}`,
+          "Minimal failing sequence:",
+          ...minimal.map((action) => `  ${formatAction(action)}`),
+        ].join("\n");
+        expect.fail(message);
+      }
+    }
+  });
+
+  it("Shrinks a failing sequence to a minimal one", async () => {
+    // a broken invariant: no more than 500 tokens can be staked
+    const invariant: Invariant = async ({ staking }) =>
+      (await staking.totalStaked()).gt(ethers.utils.parseUnits("500", 18))
+        ? "more than 500 tokens staked"
+        : undefined;
+    const actions: Action[] = [
+      { type: "stake", user: 0, amount: 300 },
+      { type: "timeJump", seconds: DAY },
+      { type: "updateReward", user: 0 },
+      { type: "stake", user: 1, amount: 100 },
+      { type: "claimReward", user: 0 },
+      { type: "stake", user: 2, amount: 900 },
+    ];
+
+    expect(await runActions(actions, invariant)).to.deep.equal({
+      step: 5,
+      message: "more than 500 tokens staked",
+    });
+    expect(await shrink(actions, invariant)).to.deep.equal([
+      { type: "stake", user: 2, amount: 900 },
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+
+import {
+  MyToken1,
+  StakeReceipt,
+  Staking,
+  StakingGovernor,
+} from "../typechain-types";
+
+const DAY = 86400;
+const VOTING_DELAY = 1;
+const VOTING_PERIOD = 20;
+
+// Governor.ProposalState
+const Active = 1;
+const Defeated = 3;
+const Succeeded = 4;
+const Executed = 7;
+
+describe("StakingGovernor", function () {
+  let staking: Staking;
+  let receipt: StakeReceipt;
+  let governor: StakingGovernor;
+  let myToken1: MyToken1;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+
+  beforeEach(async function () {
+    [, user1, user2, user3] = await ethers.getSigners();
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    await staking.deployed();
+    receipt = (await ethers.getContractAt(
+      "StakeReceipt",
+      await staking.receipt()
+    )) as StakeReceipt;
+
+    const governorFactory = await ethers.getContractFactory("StakingGovernor");
+    governor = (await governorFactory.deploy(
+      receipt.address,
+      VOTING_DELAY,
+      VOTING_PERIOD,
+      0,
+      30
+    )) as StakingGovernor;
+    await governor.deployed();
+    await staking.grantRole(
+      await staking.RATE_MANAGER_ROLE(),
+      governor.address
+    );
+
+    for (const user of [user1, user2, user3]) {
+      await myToken1.mint(user.address, 1000);
+      await myToken1
+        .connect(user)
+        .approve(staking.address, ethers.constants.MaxUint256);
+    }
+  });
+
+  // Proposes to change the reward rate, returns the proposal id and the arguments to execute it
+  async function proposeRewardRate(rewardRate: number) {
+    const targets = [staking.address];
+    const values = [0];
+    const calldatas = [
+      staking.interface.encodeFunctionData("setRewardRate", [rewardRate]),
+    ];
+    const description = `Set the reward rate to ${rewardRate}`;
+    const proposalId = await governor.callStatic.propose(
+      targets,
+      values,
+      calldatas,
+      description
+    );
+    await governor
+      .connect(user1)
+      .propose(targets, values, calldatas, description);
+    return {
+      proposalId,
+      execute: () =>
+        governor.execute(
+          targets,
+          values,
+          calldatas,
+          ethers.utils.id(description)
+        ),
+    };
+  }
+
+  it("Checkpoints the staked balances and their total", async () => {
+    await staking.connect(user1).stake(600);
+    await receipt.connect(user1).delegate(user1.address);
+    const staked = await ethers.provider.getBlockNumber();
+
+    await time.increase(DAY);
+    await staking.connect(user1).unstake(200);
+    await staking.connect(user2).stake(300);
+    const changed = await ethers.provider.getBlockNumber();
+    await mine();
+
+    expect(await receipt.getPastVotes(user1.address, staked)).to.equal(600);
+    expect(await receipt.getPastTotalSupply(staked)).to.equal(600);
+    expect(await receipt.getPastVotes(user1.address, changed)).to.equal(400);
+    expect(await receipt.getPastTotalSupply(changed)).to.equal(700);
+    expect(await receipt.getVotes(user1.address)).to.equal(400);
+    // votes only count once they are delegated
+    expect(await receipt.getVotes(user2.address)).to.equal(0);
+  });
+
+  it("Lets stakers delegate their staked balance", async () => {
+    await staking.connect(user1).stake(600);
+    await staking.connect(user2).stake(300);
+    await receipt.connect(user1).delegate(user1.address);
+    await receipt.connect(user2).delegate(user1.address);
+    expect(await receipt.getVotes(user1.address)).to.equal(900);
+    expect(await receipt.delegates(user2.address)).to.equal(user1.address);
+
+    // stakes added later follow the delegation
+    await staking.connect(user2).stake(100);
+    expect(await receipt.getVotes(user1.address)).to.equal(1000);
+
+    await receipt.connect(user2).delegate(user3.address);
+    expect(await receipt.getVotes(user1.address)).to.equal(600);
+    expect(await receipt.getVotes(user3.address)).to.equal(400);
+  });
+
+  it("Moves the votes with the transferred receipts", async () => {
+    await staking.connect(user1).stake(600);
+    await receipt.connect(user1).delegate(user1.address);
+    await receipt.connect(user2).delegate(user2.address);
+
+    await receipt.connect(user1).transfer(user2.address, 250);
+    expect(await receipt.getVotes(user1.address)).to.equal(350);
+    expect(await receipt.getVotes(user2.address)).to.equal(250);
+    expect((await staking.getStaker(user2.address)).amountStaked).to.equal(250);
+  });
+
+  it("Votes on proposals with the staked balances at the snapshot", async () => {
+    await staking.connect(user1).stake(600);
+    await staking.connect(user2).stake(400);
+    for (const user of [user1, user2, user3]) {
+      await receipt.connect(user).delegate(user.address);
+    }
+
+    const { proposalId, execute } = await proposeRewardRate(200);
+    await mine(VOTING_DELAY + 1);
+    expect(await governor.state(proposalId)).to.equal(Active);
+
+    // staking after the snapshot doesn't add votes to the proposal
+    await staking.connect(user3).stake(1000);
+    const snapshot = await governor.proposalSnapshot(proposalId);
+    expect(await governor.getVotes(user3.address, snapshot)).to.equal(0);
+    // the quorum is 30% of the total staked at the snapshot
+    expect(await governor.quorum(snapshot)).to.equal(300);
+
+    await governor.connect(user1).castVote(proposalId, 1);
+    await governor.connect(user2).castVote(proposalId, 0);
+    await governor.connect(user3).castVote(proposalId, 0);
+    const votes = await governor.proposalVotes(proposalId);
+    expect(votes.forVotes).to.equal(600);
+    expect(votes.againstVotes).to.equal(400);
+
+    await mine(VOTING_PERIOD);
+    expect(await governor.state(proposalId)).to.equal(Succeeded);
+    await execute();
+    expect(await governor.state(proposalId)).to.equal(Executed);
+    expect(await staking.rewardRate()).to.equal(200);
+  });
+
+  it("Defeats the proposals that don't reach the quorum of the staked balance", async () => {
+    await staking.connect(user1).stake(200);
+    await staking.connect(user2).stake(800);
+    await receipt.connect(user1).delegate(user1.address);
+
+    const { proposalId } = await proposeRewardRate(200);
+    await mine(VOTING_DELAY + 1);
+    await governor.connect(user1).castVote(proposalId, 1);
+    await mine(VOTING_PERIOD);
+
+    expect(await governor.state(proposalId)).to.equal(Defeated);
+  });
+});
@@ -0,0 +1,288 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+
+import { JsonFileStore, MemoryStore, StakingIndexer } from "../src/indexer";
+import { MyToken1, Staking } from "../typechain-types";
+
+const DAY = 86400;
+
+describe("StakingIndexer", function () {
+  let staking: Staking;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let users: SignerWithAddress[];
+  let startBlock: number;
+  const reserve = ethers.utils.parseUnits("100000", 18);
+
+  beforeEach(async function () {
+    let user1, user2, user3;
+    [owner, user1, user2, user3] = await ethers.getSigners();
+    users = [user1, user2, user3];
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+    startBlock = myToken1.deployTransaction.blockNumber as number;
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    await staking.deployed();
+    await staking.addTier(7 * DAY, 20000);
+
+    await myToken1.mint(owner.address, reserve);
+    await myToken1.approve(staking.address, reserve);
+    await staking.fundRewards(reserve);
+    for (const user of users) {
+      await myToken1.mint(user.address, 1000);
+      await myToken1
+        .connect(user)
+        .approve(staking.address, ethers.constants.MaxUint256);
+    }
+  });
+
+  // Stakes, updates, claims, restakes and unstakes with every user over 8 days
+  async function runActivity() {
+    const [user1, user2, user3] = users;
+    await staking.connect(user1).stake(500);
+    await staking.connect(user2).stake(200);
+    await staking.connect(user2).stakeInTier(300, 1);
+    await staking.connect(user3).stake(400);
+
+    await time.increase(DAY);
+    await staking.connect(user1).updateReward();
+    await staking.connect(user1).claimReward();
+    await staking.connect(user2).updateReward();
+    await staking.connect(user2).restake();
+    await staking.connect(user3).updateReward();
+
+    await time.increase(7 * DAY);
+    await staking.connect(user1).unstake(200);
+    await staking.connect(user2).unstakePosition(0);
+    await staking.connect(user2).stakeInTier(100, 1);
+    await staking.pause();
+    await staking.connect(user3).emergencyWithdraw();
+    await staking.unpause();
+  }
+
+  // Compares the indexed state of every signer with getStaker and balanceOf
+  async function expectMatchesChain(indexer: StakingIndexer) {
+    for (const signer of [owner, ...users]) {
+      const staker = await staking.getStaker(signer.address);
+      const indexed = indexer.getStaker(signer.address);
+
+      expect(indexed.amountStaked).to.equal(staker.amountStaked);
+      expect(indexed.lockedAmount).to.equal(staker.lockedAmount);
+      expect(indexed.pendingRewards).to.equal(staker.pendingRewards);
+      expect(indexed.rewardsUpdated).to.equal(staker.rewardsUpdated);
+      expect(indexed.firstStakeTime).to.equal(staker.firstStakeTime);
+      expect(indexed.lastStakeTime).to.equal(staker.lastStakeTime);
+      expect(indexed.lastUpdateTime).to.equal(staker.lastUpdateTime);
+      expect(indexer.getTokenBalance(signer.address)).to.equal(
+        await myToken1.balanceOf(signer.address)
+      );
+    }
+  }
+
+  it("Rebuilds every staker's state from the events", async () => {
+    await runActivity();
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+      chunkSize: 5,
+    });
+
+    expect(await indexer.sync()).to.equal(
+      await ethers.provider.getBlockNumber()
+    );
+    await expectMatchesChain(indexer);
+    expect(indexer.getStakers()).to.have.members(
+      users.map((user) => user.address)
+    );
+  });
+
+  it("Keeps indexing from the last indexed block", async () => {
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+    });
+    await indexer.sync();
+    await expectMatchesChain(indexer);
+
+    await runActivity();
+    await indexer.sync();
+    await expectMatchesChain(indexer);
+  });
+
+  it("Sums the claimed and restaked rewards", async () => {
+    await runActivity();
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+    });
+    await indexer.sync();
+
+    const [user1, user2, user3] = users;
+    expect(indexer.getTotalRewardsPaid()).to.equal(
+      reserve.sub(await staking.rewardReserve())
+    );
+    expect(indexer.getStaker(user1.address).rewardsPaid).to.be.gt(0);
+    expect(indexer.getStaker(user2.address).rewardsPaid).to.be.gt(0);
+    expect(indexer.getStaker(user3.address).rewardsPaid).to.equal(0);
+  });
+
+  it("Returns each staker's timeline", async () => {
+    await runActivity();
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+    });
+    await indexer.sync();
+
+    const timeline = indexer.getTimeline(users[1].address);
+    expect(timeline.map((entry) => entry.event)).to.deep.equal([
+      "Staked",
+      "Staked",
+      "PositionOpened",
+      "RewardUpdated",
+      "Restaked",
+      "Unstaked",
+      "PositionClosed",
+      "Staked",
+      "PositionOpened",
+    ]);
+    expect(timeline[1].amount).to.equal(300);
+    expect(timeline[1].amountStaked).to.equal(500);
+    expect(timeline[3].amount).to.be.gt(0);
+    expect(timeline[4].amount).to.equal(timeline[3].amount);
+    expect(timeline[4].amountStaked).to.equal(timeline[4].amount.add(500));
+    expect(timeline[timeline.length - 1].amountStaked).to.equal(
+      (await staking.getStaker(users[1].address)).amountStaked
+    );
+    expect(indexer.getTimeline(owner.address)).to.be.empty;
+  });
+
+  it("Moves the stake of transferred receipts", async () => {
+    const [user1, user2] = users;
+    const receipt = await ethers.getContractAt(
+      "StakeReceipt",
+      await staking.receipt()
+    );
+    await staking.connect(user2).stake(100);
+    await time.increase(DAY);
+    await staking.connect(user1).stake(500);
+    await staking.connect(user2).setAcceptStakeTransfers(true);
+    await receipt.connect(user1).transfer(user2.address, 200);
+    await receipt.connect(user1).transfer(owner.address, 300);
+
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+    });
+    await indexer.sync();
+    await expectMatchesChain(indexer);
+    expect(
+      indexer.getTimeline(user2.address).map((entry) => entry.event)
+    ).to.deep.equal(["Staked", "StakeTransferred"]);
+    expect(indexer.getTimeline(owner.address)[0].amountStaked).to.equal(300);
+  });
+
+  it("Keeps the recipient's lock when the transferred stake is already unlocked", async () => {
+    const [user1, user2] = users;
+    const receipt = await ethers.getContractAt(
+      "StakeReceipt",
+      await staking.receipt()
+    );
+    await staking.connect(user2).stake(100);
+    await time.increase(DAY);
+    await staking.connect(user1).stake(500);
+    await time.increase(DAY);
+    await receipt.connect(user1).transfer(user2.address, 200);
+    await receipt.connect(user1).transfer(owner.address, 300);
+
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+    });
+    await indexer.sync();
+    await expectMatchesChain(indexer);
+    expect(indexer.getStaker(user2.address).lastStakeTime).to.be.lt(
+      (await staking.getStaker(user1.address)).lastStakeTime
+    );
+    expect(indexer.getStaker(owner.address).lastStakeTime).to.equal(0);
+  });
+
+  it("Ranks the stakers by stake and by rewards paid", async () => {
+    await runActivity();
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+    });
+    await indexer.sync();
+
+    const [user1, user2, user3] = users;
+    expect(
+      indexer.getLeaderboard().map((staker) => staker.address)
+    ).to.deep.equal([user2.address, user1.address, user3.address]);
+    expect(
+      indexer.getLeaderboard("rewardsPaid", 2).map((staker) => staker.address)
+    ).to.deep.equal([user2.address, user1.address]);
+  });
+
+  it("Rewinds the blocks that were reorged", async () => {
+    const [user1, user2] = users;
+    await staking.connect(user1).stake(500);
+    const indexer = new StakingIndexer(staking, myToken1, new MemoryStore(), {
+      startBlock,
+      reorgDepth: 3,
+    });
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await staking.connect(user1).stake(100);
+    await staking.connect(user2).stake(100);
+    await indexer.sync();
+    expect(indexer.getStaker(user1.address).amountStaked).to.equal(600);
+
+    // replaces the last two blocks with other transactions
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await staking.connect(user2).stake(300);
+    await staking.connect(user2).stake(300);
+    await indexer.sync();
+    await expectMatchesChain(indexer);
+    expect(indexer.getStaker(user2.address).amountStaked).to.equal(600);
+  });
+
+  it("Resumes from the JSON file store", async () => {
+    const filePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+      "staking.json"
+    );
+    try {
+      await staking.connect(users[0]).stake(500);
+      const indexer = new StakingIndexer(
+        staking,
+        myToken1,
+        new JsonFileStore(filePath),
+        { startBlock }
+      );
+      const lastBlock = await indexer.sync();
+
+      await staking.connect(users[0]).stake(100);
+      const resumed = new StakingIndexer(
+        staking,
+        myToken1,
+        new JsonFileStore(filePath)
+      );
+      expect(resumed.lastBlock).to.equal(lastBlock);
+      expect(resumed.getStaker(users[0].address).amountStaked).to.equal(500);
+      await resumed.sync();
+      await expectMatchesChain(resumed);
+    } finally {
+      fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,358 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { BigNumber } from "ethers";
+import { ethers } from "hardhat";
+
+import { MyToken1, Staking, StakingVault } from "../typechain-types";
+
+chai.use(chaiAsPromised);
+
+const DAY = 86400;
+
+describe("StakingVault", function () {
+  let staking: Staking;
+  let vault: StakingVault;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    await staking.deployed();
+
+    const vaultFactory = await ethers.getContractFactory("StakingVault");
+    vault = (await vaultFactory.deploy(
+      staking.address,
+      "Staked MyToken1 Vault",
+      "vMTK1"
+    )) as StakingVault;
+    await vault.deployed();
+
+    const reserve = ethers.utils.parseUnits("100000", 18);
+    await myToken1.mint(owner.address, reserve);
+    await myToken1.approve(staking.address, reserve);
+    await staking.fundRewards(reserve);
+
+    for (const user of [user1, user2]) {
+      await myToken1.mint(user.address, 1000);
+      await myToken1
+        .connect(user)
+        .approve(vault.address, ethers.constants.MaxUint256);
+      await myToken1
+        .connect(user)
+        .approve(staking.address, ethers.constants.MaxUint256);
+    }
+  });
+
+  // Mines all the given transactions in the same block
+  async function mineTogether(...transactions: (() => Promise<unknown>)[]) {
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      for (const transaction of transactions) {
+        await transaction();
+      }
+      await ethers.provider.send("evm_mine", []);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+  }
+
+  it("Initializes the vault with the staked token as asset", async () => {
+    expect(await vault.asset()).to.equal(myToken1.address);
+    expect(await vault.staking()).to.equal(staking.address);
+    expect(await vault.name()).to.equal("Staked MyToken1 Vault");
+    expect(await vault.symbol()).to.equal("vMTK1");
+  });
+
+  it("Reverts if the staking rewards aren't paid in the staked token", async () => {
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    const rewardStaking = await stakingFactory.deploy(
+      myToken1.address,
+      staking.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    );
+    const vaultFactory = await ethers.getContractFactory("StakingVault");
+    await expect(
+      vaultFactory.deploy(rewardStaking.address, "Vault", "V")
+    ).to.be.revertedWithCustomError(
+      vaultFactory,
+      "StakingVault__RewardTokenNotStaked"
+    );
+  });
+
+  it("Mints shares and stakes the idle deposits as a batch on harvest", async () => {
+    await expect(vault.connect(user1).deposit(500, user1.address))
+      .to.emit(vault, "Deposit")
+      .withArgs(user1.address, user1.address, 500, 500);
+    await vault.connect(user2).deposit(300, user2.address);
+
+    expect(await vault.balanceOf(user1.address)).to.equal(500);
+    expect(await vault.totalAssets()).to.equal(800);
+    expect(await staking.totalStaked()).to.equal(0);
+
+    const harvestTime = (await time.latest()) + 10;
+    await time.setNextBlockTimestamp(harvestTime);
+    await expect(vault.connect(user2).harvest())
+      .to.emit(vault, "Harvested")
+      .withArgs(user2.address, 0, 800)
+      .and.to.emit(staking, "PositionOpened")
+      .withArgs(vault.address, 0, 0, 800, harvestTime + DAY);
+    const staker = await staking.getStaker(vault.address);
+    expect(staker.amountStaked).to.equal(800);
+    expect(staker.lockedAmount).to.equal(800);
+    expect(staker.lastStakeTime).to.equal(0);
+    const [batch] = await vault.getBatches();
+    expect(batch.amount).to.equal(800);
+    expect(batch.unlockTime).to.equal(harvestTime + DAY);
+    expect(await vault.totalAssets()).to.equal(800);
+  });
+
+  it("Includes the unharvested rewards in the share price", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    await vault.harvest();
+    await time.increase(DAY);
+
+    const rewards = await staking.earned(vault.address);
+    expect(rewards).to.be.gt(0);
+    expect(await vault.totalAssets()).to.equal(rewards.add(500));
+    expect(await vault.convertToAssets(500)).to.equal(rewards.add(500));
+    expect(await vault.convertToShares(rewards.add(500))).to.equal(500);
+  });
+
+  it("Ignores donations and rejects deposits worth less than one share", async () => {
+    await vault.connect(user1).deposit(1, user1.address);
+    // tokens sent to the vault directly don't change the share price
+    await myToken1.connect(user1).transfer(vault.address, 500);
+    expect(await vault.totalAssets()).to.equal(1);
+    await vault.connect(user2).deposit(100, user2.address);
+    expect(await vault.balanceOf(user2.address)).to.equal(100);
+    await vault.connect(user2).redeem(100, user2.address, user2.address);
+
+    // the rewards of a single wei's share are worth more than the next deposit
+    await vault.harvest();
+    await time.increase(DAY);
+    expect(await vault.previewDeposit(400)).to.equal(0);
+    await expect(
+      vault.connect(user2).deposit(400, user2.address)
+    ).to.be.revertedWithCustomError(vault, "StakingVault__ZeroShares");
+    await expect(
+      vault.connect(user2).mint(0, user2.address)
+    ).to.be.revertedWithCustomError(vault, "StakingVault__ZeroShares");
+    expect(await myToken1.balanceOf(user2.address)).to.equal(1000);
+  });
+
+  it("Stakes the idle deposits without the rewards while the reserve can't pay them", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    await vault.harvest();
+    const reserve = await staking.rewardReserve();
+    await time.increase(1001 * DAY);
+    expect(await staking.earned(vault.address)).to.be.gt(reserve);
+    // the share price only counts the rewards the reserve can pay
+    expect(await vault.totalAssets()).to.equal(reserve.add(500));
+
+    const deposit = ethers.utils.parseUnits("300", 18);
+    await myToken1.mint(user2.address, deposit);
+    await vault.connect(user2).deposit(deposit, user2.address);
+    await expect(vault.harvest())
+      .to.emit(vault, "Harvested")
+      .withArgs(owner.address, 0, deposit);
+    expect(await vault.stakedAssets()).to.equal(deposit.add(500));
+    expect(await vault.idleAssets()).to.equal(0);
+    expect(await staking.rewardReserve()).to.equal(reserve);
+  });
+
+  it("Compounds the rewards for every share holder on harvest", async () => {
+    await mineTogether(
+      () => vault.connect(user1).deposit(500, user1.address),
+      () => vault.connect(user2).deposit(500, user2.address),
+      () => vault.harvest()
+    );
+    const depositTime = await time.latest();
+    await expect(vault.harvest()).to.be.revertedWithCustomError(
+      staking,
+      "Staking__UpdateNotEligible"
+    );
+
+    await time.setNextBlockTimestamp(depositTime + DAY);
+    await expect(vault.connect(user2).harvest())
+      .to.emit(vault, "Harvested")
+      .withArgs(
+        user2.address,
+        ethers.utils.parseUnits("100", 18),
+        ethers.utils.parseUnits("100", 18)
+      );
+
+    expect((await staking.getStaker(vault.address)).amountStaked).to.equal(
+      ethers.utils.parseUnits("100", 18).add(1000)
+    );
+    expect(await vault.convertToAssets(500)).to.equal(
+      ethers.utils.parseUnits("50", 18).add(500)
+    );
+  });
+
+  it("Grows a vault holder's assets like a manual daily restaker", async () => {
+    await mineTogether(
+      () => vault.connect(user1).deposit(500, user1.address),
+      () => vault.harvest(),
+      () => staking.connect(user2).stake(500)
+    );
+    const depositTime = await time.latest();
+
+    for (let day = 1; day <= 5; day++) {
+      await time.setNextBlockTimestamp(depositTime + day * DAY);
+      await mineTogether(
+        () => vault.harvest(),
+        () => staking.connect(user2).updateReward(),
+        () => staking.connect(user2).restake()
+      );
+    }
+
+    const restakerAssets = (await staking.getStaker(user2.address))
+      .amountStaked;
+    const vaultHolderAssets = await vault.convertToAssets(
+      await vault.balanceOf(user1.address)
+    );
+    expect(restakerAssets).to.be.gt(ethers.utils.parseUnits("250", 18));
+    expect(vaultHolderAssets).to.equal(restakerAssets);
+  });
+
+  it("Pays withdrawals from the idle deposits, then from the unlocked batches", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    expect(await vault.maxWithdraw(user1.address)).to.equal(500);
+    await vault.connect(user1).withdraw(100, user1.address, user1.address);
+
+    await vault.harvest();
+    expect(await vault.maxWithdraw(user1.address)).to.equal(0);
+    expect(await vault.maxRedeem(user1.address)).to.equal(0);
+    await expect(
+      vault.connect(user1).withdraw(400, user1.address, user1.address)
+    ).to.be.revertedWith("ERC4626: withdraw more than max");
+
+    await time.increase(DAY);
+    // only the staked amount can be withdrawn before the rewards are harvested
+    expect(await vault.maxWithdraw(user1.address)).to.equal(400);
+    await expect(
+      vault.connect(user1).withdraw(400, user1.address, user1.address)
+    )
+      .to.emit(staking, "PositionClosed")
+      .withArgs(vault.address, 0, 400);
+
+    expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+    expect(await vault.balanceOf(user1.address)).to.be.gt(0);
+    expect((await staking.getStaker(vault.address)).amountStaked).to.equal(0);
+    expect(await vault.nextBatchId()).to.equal(1);
+  });
+
+  it("Doesn't let another account's deposit block an existing holder's withdrawal", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    await vault.harvest();
+    const stakeTime = await time.latest();
+
+    // a deposit and a harvest right before the unlock only lock the new batch
+    await myToken1.mint(user2.address, ethers.utils.parseUnits("1", 18));
+    await time.setNextBlockTimestamp(stakeTime + DAY - 60);
+    await vault
+      .connect(user2)
+      .deposit(ethers.utils.parseUnits("1", 18), user2.address);
+    await time.setNextBlockTimestamp(stakeTime + DAY);
+    await vault.connect(user2).harvest();
+    const batches = await vault.getBatches();
+    expect(batches.map((batch) => batch.unlockTime)).to.deep.equal([
+      BigNumber.from(stakeTime + DAY),
+      BigNumber.from(stakeTime + 2 * DAY),
+    ]);
+
+    expect(await vault.maxWithdraw(user1.address)).to.equal(500);
+    await vault.connect(user1).withdraw(500, user1.address, user1.address);
+    expect(await myToken1.balanceOf(user1.address)).to.equal(1000);
+    expect(await vault.maxWithdraw(user2.address)).to.equal(0);
+  });
+
+  it("Only pays out the idle assets while the unbonding queue is enabled", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    await vault.harvest();
+    await staking.setUnbondingPeriod(7 * DAY);
+    await time.increase(DAY);
+
+    // the unlocked batch can't skip the queue through the vault
+    const deposit = ethers.utils.parseUnits("1", 18);
+    await myToken1.mint(user2.address, deposit);
+    await vault.connect(user2).deposit(deposit, user2.address);
+    expect(await vault.maxWithdraw(user1.address)).to.equal(deposit);
+    expect(await vault.maxRedeem(user1.address)).to.be.lt(500);
+    await expect(
+      vault
+        .connect(user1)
+        .withdraw(deposit.add(1), user1.address, user1.address)
+    ).to.be.revertedWith("ERC4626: withdraw more than max");
+    expect((await staking.getStaker(vault.address)).amountStaked).to.equal(500);
+
+    await staking.setUnbondingPeriod(0);
+    expect(await vault.maxWithdraw(user1.address)).to.equal(deposit.add(500));
+  });
+
+  it("Redeems shares for the harvested assets", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    await vault.harvest();
+    await time.increase(DAY);
+    await vault.harvest();
+    await time.increase(DAY);
+    await vault.harvest();
+    await time.increase(DAY);
+
+    const shares = await vault.maxRedeem(user1.address);
+    // the share price keeps growing until the redeem is mined
+    const previewedAssets = await vault.previewRedeem(shares);
+    await expect(
+      vault.connect(user1).redeem(shares, user1.address, user1.address)
+    )
+      .to.emit(vault, "Withdraw")
+      .withArgs(
+        user1.address,
+        user1.address,
+        user1.address,
+        (assets: BigNumber) => assets.gte(previewedAssets),
+        shares
+      );
+    expect(await myToken1.balanceOf(user1.address)).to.be.gt(
+      previewedAssets.add(500)
+    );
+    expect(previewedAssets).to.be.gt(ethers.utils.parseUnits("199", 18));
+  });
+
+  it("Mints transferable shares", async () => {
+    await vault.connect(user1).deposit(500, user1.address);
+    await vault.connect(user1).transfer(user2.address, 200);
+
+    expect(await vault.balanceOf(user1.address)).to.equal(300);
+    expect(await vault.balanceOf(user2.address)).to.equal(200);
+  });
+
+  it("Doesn't accept deposits while staking is paused", async () => {
+    await staking.pause();
+    expect(await vault.maxDeposit(user1.address)).to.equal(0);
+    await expect(
+      vault.connect(user1).deposit(500, user1.address)
+    ).to.be.revertedWith("ERC4626: deposit more than max");
+  });
+});
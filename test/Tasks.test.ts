@@ -0,0 +1,261 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import hre, { ethers, network } from "hardhat";
+
+import {
+  deploymentPath,
+  readDeployments,
+  writeDeployments,
+} from "../scripts/lib/deployments";
+import { buildMerkleTree, parseBalancesCsv } from "../scripts/lib/merkle";
+import { CREATE_POOL_GAS_LIMIT } from "../src/sdk";
+import {
+  MyToken1,
+  Staking,
+  StakingFactory,
+  Staking__factory,
+} from "../typechain-types";
+
+chai.use(chaiAsPromised);
+
+const DAY = 86400;
+
+describe("Tasks", function () {
+  let staking: Staking;
+  let myToken1: MyToken1;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+  const log = console.log;
+  const deploymentsDir = process.env.DEPLOYMENTS_DIR;
+
+  // the tests record their deployments in a temporary directory, away from deployments/
+  before(function () {
+    process.env.DEPLOYMENTS_DIR = fs.mkdtempSync(
+      path.join(os.tmpdir(), "deployments-")
+    );
+  });
+
+  after(function () {
+    fs.rmSync(process.env.DEPLOYMENTS_DIR!, { recursive: true, force: true });
+    if (deploymentsDir === undefined) {
+      delete process.env.DEPLOYMENTS_DIR;
+    } else {
+      process.env.DEPLOYMENTS_DIR = deploymentsDir;
+    }
+  });
+
+  beforeEach(async function () {
+    [owner, user] = await ethers.getSigners();
+
+    const myToken1Factory = await ethers.getContractFactory("MyToken1");
+    myToken1 = (await myToken1Factory.deploy()) as MyToken1;
+    await myToken1.deployed();
+
+    const stakingFactory = await ethers.getContractFactory("Staking");
+    staking = (await stakingFactory.deploy(
+      myToken1.address,
+      myToken1.address,
+      100,
+      DAY,
+      DAY,
+      ethers.constants.AddressZero
+    )) as Staking;
+    const receipt = await staking.deployTransaction.wait();
+
+    const { chainId } = await ethers.provider.getNetwork();
+    writeDeployments({
+      network: network.name,
+      chainId,
+      contracts: {
+        MyToken1: {
+          address: myToken1.address,
+          transactionHash: myToken1.deployTransaction.hash,
+          blockNumber: receipt.blockNumber - 1,
+          args: [],
+        },
+        Staking: {
+          address: staking.address,
+          transactionHash: receipt.transactionHash,
+          blockNumber: receipt.blockNumber,
+          args: [],
+        },
+      },
+    });
+
+    // the tasks print their results
+    console.log = () => undefined;
+  });
+
+  afterEach(function () {
+    console.log = log;
+    fs.rmSync(deploymentPath(network.name), { force: true });
+  });
+
+  it("Fails when the contracts aren't deployed on the network", async () => {
+    fs.rmSync(deploymentPath(network.name));
+    await expect(hre.run("staking:stats")).to.be.rejectedWith(
+      'Staking isn\'t deployed on network "hardhat"'
+    );
+  });
+
+  it("Mints tokens in whole tokens", async () => {
+    const result = await hre.run("token:mint", {
+      to: user.address,
+      amount: "1.5",
+      json: true,
+    });
+    expect(result.balance).to.equal("1.5");
+    expect(await myToken1.balanceOf(user.address)).to.equal(
+      ethers.utils.parseUnits("1.5", 18)
+    );
+  });
+
+  it("Pauses and unpauses the token", async () => {
+    expect((await hre.run("token:pause", { json: true })).paused).to.be.true;
+    expect(await myToken1.paused()).to.be.true;
+    expect((await hre.run("token:unpause", { json: true })).paused).to.be.false;
+  });
+
+  it("Funds the reward reserve, minting the tokens first", async () => {
+    const result = await hre.run("staking:fund-rewards", {
+      amount: "1000",
+      mint: true,
+      json: true,
+    });
+    expect(result.rewardReserve).to.equal("1000.0");
+    expect(await staking.rewardReserve()).to.equal(
+      ethers.utils.parseUnits("1000", 18)
+    );
+  });
+
+  it("Stakes, reports the status and claims the signer's rewards", async () => {
+    await hre.run("staking:fund-rewards", {
+      amount: "1000",
+      mint: true,
+      json: true,
+    });
+    await myToken1.mint(owner.address, ethers.utils.parseUnits("10", 18));
+    await hre.run("staking:stake", { amount: "10", json: true });
+
+    let status = await hre.run("staking:status", { json: true });
+    expect(status.address).to.equal(owner.address);
+    expect(status.amountStaked).to.equal("10.0");
+    expect(status.canUnstake).to.be.false;
+
+    await time.increase(DAY);
+    status = await hre.run("staking:status", { json: true });
+    expect(status.earned).to.equal("100.0");
+    expect(status.canUpdateReward).to.be.true;
+
+    const result = await hre.run("staking:claim", { json: true });
+    expect(Number(result.claimed)).to.be.gte(100);
+    expect(
+      (await hre.run("staking:status", { address: user.address, json: true }))
+        .amountStaked
+    ).to.equal("0.0");
+  });
+
+  it("Reports the staking stats", async () => {
+    let stats = await hre.run("staking:stats", { json: true });
+    expect(stats.totalStaked).to.equal("0.0");
+    expect(stats.stakerCount).to.equal(0);
+    expect(stats.apr).to.be.null;
+
+    await hre.run("staking:fund-rewards", {
+      amount: "1000",
+      mint: true,
+      json: true,
+    });
+    const amount = ethers.utils.parseUnits("36500", 18);
+    for (const staker of [owner, user]) {
+      await myToken1.mint(staker.address, amount);
+      await myToken1.connect(staker).approve(staking.address, amount);
+      await staking.connect(staker).stake(amount);
+    }
+    await time.increase(DAY);
+    await staking.connect(user).unstake(amount);
+
+    stats = await hre.run("staking:stats", { json: true });
+    expect(stats.totalStaked).to.equal("36500.0");
+    expect(stats.rewardReserve).to.equal("1000.0");
+    expect(stats.rewardReserveDays).to.equal(10);
+    expect(stats.stakerCount).to.equal(1);
+    // 100 tokens a day for the 36500 staked tokens
+    expect(stats.apr).to.equal("100.0%");
+  });
+
+  it("Builds the proofs JSON of a bonus campaign from a CSV", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "merkle-"));
+    const csv = path.join(dir, "bonus.csv");
+    const out = path.join(dir, "proofs", "bonus.json");
+    const lines = `address,amount\n${owner.address},12.5\n${user.address},7.5\n`;
+    fs.writeFileSync(csv, lines);
+
+    try {
+      const result = await hre.run("merkle:build", { csv, out, json: true });
+      const distribution = buildMerkleTree(parseBalancesCsv(lines));
+      expect(result.merkleRoot).to.equal(distribution.merkleRoot);
+      expect(result.claims).to.equal(2);
+      expect(result.total).to.equal("20.0");
+      expect(JSON.parse(fs.readFileSync(out, "utf8"))).to.deep.equal(
+        distribution
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Lists the pools of the factory registry", async () => {
+    const stakingFactoryFactory = await ethers.getContractFactory(
+      "StakingFactory"
+    );
+    const factory = (await stakingFactoryFactory.deploy(
+      ethers.constants.AddressZero
+    )) as StakingFactory;
+    const receipt = await factory.deployTransaction.wait();
+    const { chainId } = await ethers.provider.getNetwork();
+    const record = readDeployments(network.name, chainId);
+    record.contracts.StakingFactory = {
+      address: factory.address,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      args: [ethers.constants.AddressZero],
+    };
+    writeDeployments(record);
+
+    expect((await hre.run("staking:pools", { json: true })).poolCount).to.equal(
+      0
+    );
+    for (const metadata of ["Flexible", "30 days"]) {
+      await factory.createPool(
+        Staking__factory.bytecode,
+        {
+          stakedToken: myToken1.address,
+          rewardToken: myToken1.address,
+          rewardRate: 100,
+          lockPeriod: DAY,
+          epochLength: DAY,
+        },
+        metadata,
+        { gasLimit: CREATE_POOL_GAS_LIMIT }
+      );
+    }
+
+    const result = await hre.run("staking:pools", {
+      token: myToken1.address,
+      json: true,
+    });
+    expect(result.poolCount).to.equal(2);
+    expect(result.pools[1].metadata).to.equal("30 days");
+    expect(result.pools[1].creator).to.equal(owner.address);
+    expect(
+      (await hre.run("staking:pools", { token: user.address, json: true }))
+        .poolCount
+    ).to.equal(0);
+  });
+});